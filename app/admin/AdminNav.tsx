@@ -0,0 +1,32 @@
+import Link from "next/link";
+import { logout } from "./actions";
+
+const LINKS = [
+  { href: "/admin/insights", label: "Insights" },
+  { href: "/admin/knowledge", label: "Knowledge" },
+];
+
+export function AdminNav({ current }: { current: string }) {
+  return (
+    <nav className="flex items-center gap-4 text-xs">
+      {LINKS.map((link) => (
+        <Link
+          key={link.href}
+          href={link.href}
+          className={
+            link.href === current
+              ? "font-semibold text-black"
+              : "text-neutral-500 hover:text-black"
+          }
+        >
+          {link.label}
+        </Link>
+      ))}
+      <form action={logout}>
+        <button type="submit" className="text-neutral-500 hover:text-black">
+          Sign out
+        </button>
+      </form>
+    </nav>
+  );
+}
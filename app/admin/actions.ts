@@ -0,0 +1,43 @@
+"use server";
+
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+import {
+  endAdminSession,
+  isValidAdminSecret,
+  startAdminSession,
+} from "@/lib/admin/auth";
+import { adminLoginRateLimiter, clientIp } from "@/lib/security";
+
+// Only allow redirects back into the admin area
+function safeNextPath(value: FormDataEntryValue | null): string {
+  const next = typeof value === "string" ? value : "";
+  return next.startsWith("/admin/") && !next.startsWith("//")
+    ? next
+    : "/admin/insights";
+}
+
+export async function login(formData: FormData) {
+  const secret = formData.get("secret");
+  const next = safeNextPath(formData.get("next"));
+
+  // Every attempt counts, so the secret can't be guessed at full speed. The
+  // IP comes from the trusted proxy hop (TRUSTED_PROXY_HOPS), so a new
+  // X-Forwarded-For value per try doesn't buy a new bucket
+  const limit = await adminLoginRateLimiter.consume(`admin-login:${clientIp(await headers())}`);
+  if (!limit.allowed) {
+    redirect(`/admin/login?error=rate_limited&next=${encodeURIComponent(next)}`);
+  }
+
+  if (typeof secret !== "string" || !isValidAdminSecret(secret)) {
+    redirect(`/admin/login?error=1&next=${encodeURIComponent(next)}`);
+  }
+
+  await startAdminSession();
+  redirect(next);
+}
+
+export async function logout() {
+  await endAdminSession();
+  redirect("/admin/login");
+}
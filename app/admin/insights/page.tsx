@@ -0,0 +1,198 @@
+import Link from "next/link";
+import { AdminNav } from "../AdminNav";
+import { requireAdmin } from "@/lib/admin/auth";
+import { getAnalyticsStore } from "@/lib/analytics";
+import { buildInsights, type CountedItem } from "@/lib/analytics/insights";
+import { loadAllKnowledge } from "@/lib/knowledge";
+import { loadPersona } from "@/lib/prompt/persona";
+import { deriveProjects } from "@/lib/prompt/system-prompt";
+
+export const dynamic = "force-dynamic";
+
+const RANGES = [7, 30, 90];
+
+// Turns from the last `days` days, plus any error reading the store
+async function loadRecentTurns(days: number) {
+  const store = getAnalyticsStore();
+  if (!store) return { store, turns: [], loadError: null };
+
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  try {
+    return { store, turns: await store.list({ since }), loadError: null };
+  } catch (err) {
+    return { store, turns: [], loadError: (err as Error).message };
+  }
+}
+
+type InsightsPageProps = {
+  searchParams: Promise<{ days?: string }>;
+};
+
+export default async function InsightsPage({ searchParams }: InsightsPageProps) {
+  await requireAdmin("/admin/insights");
+
+  const { days: daysParam } = await searchParams;
+  const days = RANGES.includes(Number(daysParam)) ? Number(daysParam) : 30;
+  const { store, turns, loadError } = await loadRecentTurns(days);
+
+  const insights = buildInsights(turns);
+
+  // Include projects nobody asked about; those are worth a look too
+  const [rows, persona] = await Promise.all([loadAllKnowledge(), loadPersona()]);
+  const interest = new Map(insights.projectInterest.map((p) => [p.label, p.count]));
+  const projectInterest: CountedItem[] = deriveProjects(rows, persona)
+    .map((p) => ({ label: p.id, count: interest.get(p.id) ?? 0 }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  const maxInterest = Math.max(1, ...projectInterest.map((p) => p.count));
+
+  return (
+    <main className="min-h-screen bg-neutral-50 text-black px-6 py-10">
+      <div className="mx-auto max-w-4xl space-y-8">
+        <AdminNav current="/admin/insights" />
+
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">Chat insights</h1>
+            <p className="text-xs text-neutral-500">
+              {store ? `From ${store.name}` : "Analytics are off (ANALYTICS_STORE=off)"}
+              {" · "}last {days} days
+            </p>
+          </div>
+          <div className="flex items-center gap-2 text-xs">
+            {RANGES.map((range) => (
+              <Link
+                key={range}
+                href={`/admin/insights?days=${range}`}
+                className={`rounded-full border px-3 py-1 ${
+                  range === days
+                    ? "border-black bg-black text-white"
+                    : "border-neutral-200 bg-white"
+                }`}
+              >
+                {range}d
+              </Link>
+            ))}
+          </div>
+        </header>
+
+        {loadError && (
+          <p className="rounded-xl bg-red-50 px-3 py-2 text-xs text-red-700">
+            Couldn’t load turns: {loadError}
+          </p>
+        )}
+
+        <section className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+          <Stat label="Questions" value={insights.totalTurns} />
+          <Stat label="Conversations" value={insights.sessions} />
+          <Stat
+            label="Median latency"
+            value={
+              insights.medianLatencyMs === null
+                ? "–"
+                : `${(insights.medianLatencyMs / 1000).toFixed(1)}s`
+            }
+          />
+          <Stat
+            label="Answered “don’t know”"
+            value={`${Math.round(insights.missingInfoRate * 100)}%`}
+          />
+        </section>
+
+        <Card title="Top questions">
+          {insights.topQuestions.length === 0 ? (
+            <Empty />
+          ) : (
+            <ol className="space-y-1 text-sm">
+              {insights.topQuestions.map((q) => (
+                <li key={q.label} className="flex justify-between gap-4">
+                  <span>{q.label}</span>
+                  <span className="text-neutral-500">{q.count}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </Card>
+
+        <Card
+          title="Knowledge gaps"
+          description="Topics from questions where nothing relevant was found or the assistant said the portfolio doesn’t cover it."
+        >
+          {insights.gaps.length === 0 ? (
+            <Empty />
+          ) : (
+            <ul className="space-y-3 text-sm">
+              {insights.gaps.map((gap) => (
+                <li key={gap.topic}>
+                  <div className="flex justify-between gap-4">
+                    <span className="font-medium">{gap.topic}</span>
+                    <span className="text-neutral-500">{gap.count}</span>
+                  </div>
+                  <p className="text-xs text-neutral-500">
+                    {gap.examples.map((e) => `“${e}”`).join(" · ")}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+
+        <Card
+          title="Project interest"
+          description="How often each project was cited (or retrieved) in answers."
+        >
+          {projectInterest.length === 0 ? (
+            <Empty />
+          ) : (
+            <ul className="space-y-2 text-sm">
+              {projectInterest.map((p) => (
+                <li key={p.label} className="grid grid-cols-[12rem_1fr_3rem] items-center gap-3">
+                  <span className="truncate">{p.label}</span>
+                  <span className="h-2 rounded-full bg-neutral-200">
+                    <span
+                      className="block h-2 rounded-full bg-black"
+                      style={{ width: `${(p.count / maxInterest) * 100}%` }}
+                    />
+                  </span>
+                  <span className="text-right text-neutral-500">{p.count}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+    </main>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string | number }) {
+  return (
+    <div className="rounded-2xl border border-neutral-200 bg-white px-4 py-3">
+      <p className="text-xs text-neutral-500">{label}</p>
+      <p className="text-xl font-semibold">{value}</p>
+    </div>
+  );
+}
+
+function Card({
+  title,
+  description,
+  children,
+}: {
+  title: string;
+  description?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="space-y-3 rounded-3xl border border-neutral-200 bg-white p-5">
+      <div>
+        <h2 className="text-sm font-semibold">{title}</h2>
+        {description && <p className="text-xs text-neutral-500">{description}</p>}
+      </div>
+      {children}
+    </section>
+  );
+}
+
+function Empty() {
+  return <p className="text-xs text-neutral-500">Nothing recorded yet.</p>;
+}
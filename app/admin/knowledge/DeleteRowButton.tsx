@@ -0,0 +1,37 @@
+'use client';
+
+import { useActionState } from 'react';
+import { deleteRow, type DeleteRowState } from './actions';
+
+export function DeleteRowButton({ id }: { id: number | string }) {
+  const [state, formAction, isPending] = useActionState<DeleteRowState, FormData>(
+    deleteRow,
+    {}
+  );
+
+  return (
+    <form
+      action={formAction}
+      onSubmit={(e) => {
+        if (!window.confirm('Delete this row? The chat stops using it right away.')) {
+          e.preventDefault();
+        }
+      }}
+      className="space-y-2"
+    >
+      <input type="hidden" name="id" value={id} />
+      {state.message && (
+        <p className="rounded-xl bg-red-50 px-3 py-2 text-xs text-red-700">
+          {state.message}
+        </p>
+      )}
+      <button
+        type="submit"
+        disabled={isPending}
+        className="text-xs text-red-600 hover:underline disabled:opacity-50"
+      >
+        {isPending ? 'Deleting…' : 'Delete row'}
+      </button>
+    </form>
+  );
+}
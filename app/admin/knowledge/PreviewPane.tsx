@@ -0,0 +1,94 @@
+'use client';
+
+import { useActionState } from 'react';
+import { previewAnswer, type PreviewState } from './actions';
+
+export function PreviewPane() {
+  const [state, formAction, isPending] = useActionState<PreviewState, FormData>(
+    previewAnswer,
+    {}
+  );
+
+  return (
+    <section className="space-y-3 rounded-3xl border border-neutral-200 bg-white p-5">
+      <div>
+        <h2 className="text-sm font-semibold">Preview answer</h2>
+        <p className="text-xs text-neutral-500">
+          Runs a question through the same scoping and prompt as the chat.
+        </p>
+      </div>
+
+      <form action={formAction} className="flex gap-2">
+        <input
+          name="question"
+          defaultValue={state.question}
+          placeholder="e.g. How does she run usability tests?"
+          className="flex-1 rounded-full border border-neutral-200 px-4 py-2 text-xs focus:outline-none focus:border-black"
+        />
+        <button
+          type="submit"
+          disabled={isPending}
+          className="rounded-full bg-black px-4 py-2 text-xs text-white disabled:opacity-40"
+        >
+          {isPending ? 'Asking…' : 'Ask'}
+        </button>
+      </form>
+
+      {state.error && (
+        <p className="rounded-xl bg-red-50 px-3 py-2 text-xs text-red-700">{state.error}</p>
+      )}
+
+      {state.answer && (
+        <div className="whitespace-pre-wrap rounded-2xl border border-neutral-200 bg-neutral-50 px-4 py-3 text-xs leading-relaxed">
+          {state.answer}
+        </div>
+      )}
+
+      {state.violations && state.violations.length > 0 && (
+        <div className="rounded-xl bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          <p className="font-medium">Guardrails would repair or regenerate this answer:</p>
+          <ul className="list-disc pl-4">
+            {state.violations.map((violation) => (
+              <li key={violation}>{violation}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {state.rows && (
+        <div className="space-y-1 text-xs">
+          <p className="font-medium">
+            Scoped rows{' '}
+            <span className="font-normal text-neutral-500">
+              {state.matched ? '(matched the question)' : '(nothing matched; overview fallback)'}
+            </span>
+          </p>
+          <ul className="space-y-0.5 text-neutral-600">
+            {state.rows.map((row) => {
+              const cited = state.citations?.some((c) => String(c.id) === String(row.id));
+              return (
+                <li key={String(row.id)}>
+                  #{row.id} · {row.project} · {row.type} · {row.title ?? '(no title)'}
+                  {cited && <span className="ml-1 font-medium text-black">cited</span>}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {state.systemPrompt && (
+        <details className="text-xs">
+          <summary className="cursor-pointer text-neutral-500">
+            System prompt
+            {state.usage &&
+              ` · ≈${state.usage.total} of ${state.usage.budget} tokens (knowledge ${state.usage.knowledge}, history ${state.usage.history})`}
+          </summary>
+          <pre className="mt-2 max-h-96 overflow-auto whitespace-pre-wrap rounded-xl bg-neutral-50 p-3 text-[11px]">
+            {state.systemPrompt}
+          </pre>
+        </details>
+      )}
+    </section>
+  );
+}
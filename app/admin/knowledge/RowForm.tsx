@@ -0,0 +1,170 @@
+'use client';
+
+import { useActionState } from 'react';
+import Link from 'next/link';
+import { saveRow, type SaveRowState } from './actions';
+import type { PortfolioRow } from '@/lib/knowledge/types';
+import { KNOWN_DEPTHS, KNOWN_TYPES } from '@/lib/knowledge/schema';
+
+type RowFormProps = {
+  row?: PortfolioRow;
+  projects: string[];
+};
+
+const TEXT_FIELDS: { name: keyof PortfolioRow; label: string; hint?: string }[] = [
+  { name: 'title', label: 'Title' },
+  { name: 'one_liner', label: 'One-liner' },
+  { name: 'tags', label: 'Tags', hint: 'Comma-separated' },
+  { name: 'role', label: 'Role' },
+  { name: 'pillar', label: 'Pillar' },
+  { name: 'medium', label: 'Medium' },
+  { name: 'aspect', label: 'Aspect' },
+  { name: 'audience', label: 'Audience' },
+  { name: 'tools_methods', label: 'Tools & methods' },
+];
+
+const inputClass =
+  'w-full rounded-xl border border-neutral-200 px-3 py-2 text-sm focus:outline-none focus:border-black';
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p className="text-xs text-red-600">{message}</p> : null;
+}
+
+export function RowForm({ row, projects }: RowFormProps) {
+  const [state, formAction, isPending] = useActionState<SaveRowState, FormData>(
+    saveRow,
+    {}
+  );
+  const errors = state.errors ?? {};
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <input type="hidden" name="id" value={row?.id ?? ''} />
+
+      {state.message && (
+        <p className="rounded-xl bg-red-50 px-3 py-2 text-xs text-red-700">
+          {state.message}
+        </p>
+      )}
+      {state.warnings?.map((warning) => (
+        <p key={warning} className="rounded-xl bg-amber-50 px-3 py-2 text-xs text-amber-800">
+          {warning}
+        </p>
+      ))}
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <label className="space-y-1 text-xs">
+          <span className="font-medium">Project ID *</span>
+          <input
+            name="project"
+            defaultValue={row?.project}
+            list="known-projects"
+            required
+            className={inputClass}
+          />
+          <datalist id="known-projects">
+            {projects.map((p) => (
+              <option key={p} value={p} />
+            ))}
+          </datalist>
+          <FieldError message={errors.project} />
+        </label>
+
+        <label className="space-y-1 text-xs">
+          <span className="font-medium">Type *</span>
+          <input
+            name="type"
+            defaultValue={row?.type}
+            list="known-types"
+            required
+            className={inputClass}
+          />
+          <datalist id="known-types">
+            {KNOWN_TYPES.map((t) => (
+              <option key={t} value={t} />
+            ))}
+          </datalist>
+          <FieldError message={errors.type} />
+        </label>
+
+        <label className="space-y-1 text-xs">
+          <span className="font-medium">Depth</span>
+          <select name="depth" defaultValue={row?.depth ?? ''} className={inputClass}>
+            <option value="">(none)</option>
+            {KNOWN_DEPTHS.map((d) => (
+              <option key={d} value={d}>
+                {d}
+              </option>
+            ))}
+          </select>
+          <FieldError message={errors.depth} />
+        </label>
+      </div>
+
+      <label className="block space-y-1 text-xs">
+        <span className="font-medium">Content *</span>
+        <textarea
+          name="content"
+          defaultValue={row?.content}
+          required
+          rows={8}
+          className={inputClass}
+        />
+        <FieldError message={errors.content} />
+      </label>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        {TEXT_FIELDS.map((field) => (
+          <label key={field.name} className="space-y-1 text-xs">
+            <span className="font-medium">{field.label}</span>
+            <input
+              name={field.name}
+              defaultValue={(row?.[field.name] as string | null) ?? ''}
+              placeholder={field.hint}
+              className={inputClass}
+            />
+          </label>
+        ))}
+      </div>
+
+      <details open={Boolean(row?.title_es || row?.one_liner_es || row?.content_es)} className="space-y-3 text-xs">
+        <summary className="cursor-pointer font-medium">Spanish version</summary>
+        <p className="text-neutral-500">
+          Used when the chat answers in Spanish. Empty fields fall back to English.
+        </p>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <label className="space-y-1">
+            <span className="font-medium">Title (es)</span>
+            <input name="title_es" defaultValue={row?.title_es ?? ''} className={inputClass} />
+          </label>
+          <label className="space-y-1">
+            <span className="font-medium">One-liner (es)</span>
+            <input name="one_liner_es" defaultValue={row?.one_liner_es ?? ''} className={inputClass} />
+          </label>
+        </div>
+        <label className="block space-y-1">
+          <span className="font-medium">Content (es)</span>
+          <textarea name="content_es" defaultValue={row?.content_es ?? ''} rows={5} className={inputClass} />
+        </label>
+      </details>
+
+      <label className="flex items-center gap-2 text-xs">
+        <input type="checkbox" name="is_highlight" defaultChecked={row?.is_highlight ?? false} />
+        Highlight this row
+      </label>
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={isPending}
+          className="rounded-full bg-black px-5 py-2 text-sm font-medium text-white disabled:opacity-40"
+        >
+          {isPending ? 'Saving…' : 'Save row'}
+        </button>
+        <Link href="/admin/knowledge" className="text-xs text-neutral-500 hover:text-black">
+          Cancel
+        </Link>
+      </div>
+    </form>
+  );
+}
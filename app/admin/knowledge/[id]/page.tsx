@@ -0,0 +1,40 @@
+import { notFound } from "next/navigation";
+import { AdminNav } from "../../AdminNav";
+import { DeleteRowButton } from "../DeleteRowButton";
+import { RowForm } from "../RowForm";
+import { requireAdmin } from "@/lib/admin/auth";
+import { loadAllKnowledge } from "@/lib/knowledge";
+
+export const dynamic = "force-dynamic";
+
+type EditRowPageProps = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function EditRowPage({ params }: EditRowPageProps) {
+  const { id } = await params;
+  await requireAdmin(`/admin/knowledge/${id}`);
+
+  const rows = await loadAllKnowledge();
+  const row = rows.find((r) => String(r.id) === decodeURIComponent(id));
+  if (!row) notFound();
+
+  const projects = [...new Set(rows.map((r) => r.project))].sort();
+
+  return (
+    <main className="min-h-screen bg-neutral-50 text-black px-6 py-10">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <AdminNav current="/admin/knowledge" />
+        <div className="flex items-end justify-between gap-4">
+          <h1 className="text-2xl font-semibold tracking-tight">
+            Edit row #{row.id}
+          </h1>
+          <DeleteRowButton id={row.id!} />
+        </div>
+        <div className="rounded-3xl border border-neutral-200 bg-white p-6">
+          <RowForm row={row} projects={projects} />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,176 @@
+"use server";
+
+import { redirect } from "next/navigation";
+import { requireAdmin } from "@/lib/admin/auth";
+import { extractCitations } from "@/lib/chat/citations";
+import { prepareChatTurn, type PreparedTurn } from "@/lib/chat/pipeline";
+import type { Citation } from "@/lib/chat/types";
+import { describeViolation, validateAnswer } from "@/lib/guardrails";
+import {
+  getKnowledgeSource,
+  loadAllKnowledge,
+  revalidateKnowledge,
+  type PortfolioRow,
+} from "@/lib/knowledge";
+import { validatePortfolioRow } from "@/lib/knowledge/schema";
+import { getLLM } from "@/lib/llm";
+
+const ROW_FIELDS = [
+  "id",
+  "project",
+  "type",
+  "title",
+  "content",
+  "tags",
+  "role",
+  "pillar",
+  "medium",
+  "aspect",
+  "audience",
+  "tools_methods",
+  "one_liner",
+  "depth",
+  "title_es",
+  "one_liner_es",
+  "content_es",
+] as const;
+
+export type SaveRowState = {
+  errors?: Partial<Record<keyof PortfolioRow, string>>;
+  warnings?: string[];
+  message?: string;
+};
+
+export type DeleteRowState = {
+  message?: string;
+};
+
+export type PreviewState = {
+  question?: string;
+  answer?: string;
+  error?: string;
+  matched?: boolean;
+  rows?: Pick<PortfolioRow, "id" | "project" | "type" | "title">[];
+  citations?: Citation[];
+  systemPrompt?: string;
+  /** Estimated prompt tokens per part, and the budget they had to fit in. */
+  usage?: PreparedTurn["usage"];
+  /** What output guardrails would flag in the raw answer. */
+  violations?: string[];
+};
+
+// After an edit has been stored: false when the chat keeps its old snapshot
+// until the next scheduled refetch
+async function refreshKnowledge(): Promise<boolean> {
+  try {
+    await revalidateKnowledge();
+    return true;
+  } catch (err) {
+    console.error("[admin] Knowledge refresh failed:", err);
+    return false;
+  }
+}
+
+// --- Create or update a row, then refresh the chat's knowledge cache ---
+export async function saveRow(
+  _prev: SaveRowState,
+  formData: FormData
+): Promise<SaveRowState> {
+  await requireAdmin("/admin/knowledge");
+
+  const raw: Record<string, unknown> = Object.fromEntries(
+    ROW_FIELDS.map((field) => [field, formData.get(field) ?? ""])
+  );
+  raw.is_highlight = formData.get("is_highlight") === "on";
+
+  const validation = validatePortfolioRow(raw);
+  if (!validation.ok) {
+    return { errors: validation.errors, warnings: validation.warnings };
+  }
+
+  const source = getKnowledgeSource();
+  if (!source.upsert) {
+    return { message: `${source.name} is read-only.` };
+  }
+
+  let saved: PortfolioRow;
+  try {
+    saved = await source.upsert(validation.row);
+  } catch (err) {
+    return { message: (err as Error).message, warnings: validation.warnings };
+  }
+
+  // The row is stored either way; leaving the form means saving again can't
+  // write it twice
+  const refreshed = await refreshKnowledge();
+  redirect(
+    `/admin/knowledge?saved=${encodeURIComponent(String(saved.id))}${refreshed ? "" : "&stale=1"}`
+  );
+}
+
+export async function deleteRow(
+  _prev: DeleteRowState,
+  formData: FormData
+): Promise<DeleteRowState> {
+  await requireAdmin("/admin/knowledge");
+
+  const id = String(formData.get("id") ?? "");
+  const source = getKnowledgeSource();
+  if (!id || !source.remove) {
+    redirect("/admin/knowledge");
+  }
+
+  try {
+    await source.remove(/^\d+$/.test(id) ? Number(id) : id);
+  } catch (err) {
+    return { message: (err as Error).message };
+  }
+
+  const refreshed = await refreshKnowledge();
+  redirect(`/admin/knowledge?deleted=${encodeURIComponent(id)}${refreshed ? "" : "&stale=1"}`);
+}
+
+// --- Run a test question through the same pipeline as /api/chat ---
+export async function previewAnswer(
+  _prev: PreviewState,
+  formData: FormData
+): Promise<PreviewState> {
+  await requireAdmin("/admin/knowledge");
+
+  const question = String(formData.get("question") ?? "").trim();
+  if (!question) return { error: "Type a question to preview." };
+
+  const knowledge = await loadAllKnowledge();
+  const llm = getLLM();
+  const { scope, persona, projects, systemPrompt, messages, usage } = await prepareChatTurn({
+    message: question,
+    history: [],
+    knowledge,
+    settings: llm.settings,
+  });
+
+  const base: PreviewState = {
+    question,
+    matched: scope.matched,
+    rows: scope.rows.map(({ id, project, type, title }) => ({ id, project, type, title })),
+    systemPrompt,
+    usage,
+  };
+
+  const configurationError = llm.provider.configurationError();
+  if (configurationError) {
+    return { ...base, error: `${llm.provider.name}: ${configurationError}` };
+  }
+
+  try {
+    const answer = (await llm.provider.complete({ ...llm.settings, messages })).trim();
+    return {
+      ...base,
+      answer,
+      citations: extractCitations(answer, scope.rows),
+      violations: validateAnswer(answer, { projects, persona }).map(describeViolation),
+    };
+  } catch (err) {
+    return { ...base, error: (err as Error).message };
+  }
+}
@@ -0,0 +1,25 @@
+import { AdminNav } from "../../AdminNav";
+import { RowForm } from "../RowForm";
+import { requireAdmin } from "@/lib/admin/auth";
+import { loadAllKnowledge } from "@/lib/knowledge";
+
+export const dynamic = "force-dynamic";
+
+export default async function NewRowPage() {
+  await requireAdmin("/admin/knowledge/new");
+
+  const rows = await loadAllKnowledge();
+  const projects = [...new Set(rows.map((r) => r.project))].sort();
+
+  return (
+    <main className="min-h-screen bg-neutral-50 text-black px-6 py-10">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <AdminNav current="/admin/knowledge" />
+        <h1 className="text-2xl font-semibold tracking-tight">New knowledge row</h1>
+        <div className="rounded-3xl border border-neutral-200 bg-white p-6">
+          <RowForm projects={projects} />
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,192 @@
+import Link from "next/link";
+import { AdminNav } from "../AdminNav";
+import { PreviewPane } from "./PreviewPane";
+import { requireAdmin } from "@/lib/admin/auth";
+import {
+  getKnowledgeCacheStatus,
+  getKnowledgeSource,
+  loadAllKnowledge,
+  type PortfolioRow,
+} from "@/lib/knowledge";
+import { KNOWN_DEPTHS } from "@/lib/knowledge/schema";
+
+export const dynamic = "force-dynamic";
+
+type Filters = {
+  project?: string;
+  type?: string;
+  depth?: string;
+  highlight?: string;
+  q?: string;
+};
+
+type KnowledgePageProps = {
+  searchParams: Promise<Filters & { saved?: string; deleted?: string; stale?: string }>;
+};
+
+function matchesFilters(row: PortfolioRow, filters: Filters): boolean {
+  if (filters.project && row.project !== filters.project) return false;
+  if (filters.type && row.type !== filters.type) return false;
+  if (filters.depth && (row.depth ?? "") !== filters.depth) return false;
+  if (filters.highlight === "yes" && !row.is_highlight) return false;
+  if (filters.highlight === "no" && row.is_highlight) return false;
+  if (filters.q) {
+    const q = filters.q.toLowerCase();
+    const haystack = [row.title, row.content, row.tags, row.one_liner]
+      .filter(Boolean)
+      .join(" ")
+      .toLowerCase();
+    if (!haystack.includes(q)) return false;
+  }
+  return true;
+}
+
+const unique = (values: (string | null)[]) =>
+  [...new Set(values.filter((v): v is string => Boolean(v)))].sort();
+
+const selectClass =
+  "rounded-full border border-neutral-200 bg-white px-3 py-1.5 text-xs focus:outline-none focus:border-black";
+
+export default async function KnowledgePage({ searchParams }: KnowledgePageProps) {
+  await requireAdmin("/admin/knowledge");
+
+  const { saved, deleted, stale, ...filters } = await searchParams;
+  const rows = await loadAllKnowledge();
+  const source = getKnowledgeSource();
+  const status = getKnowledgeCacheStatus();
+  const visible = rows.filter((row) => matchesFilters(row, filters));
+  const editable = Boolean(source.upsert);
+
+  return (
+    <main className="min-h-screen bg-neutral-50 text-black px-6 py-10">
+      <div className="mx-auto max-w-6xl space-y-6">
+        <AdminNav current="/admin/knowledge" />
+
+        <header className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">Portfolio knowledge</h1>
+            <p className="text-xs text-neutral-500">
+              {rows.length} rows from {source.name}
+              {status.version && ` · version ${status.version}`}
+              {!editable && " · read-only"}
+            </p>
+          </div>
+          {editable && (
+            <Link
+              href="/admin/knowledge/new"
+              className="rounded-full bg-black px-4 py-2 text-xs font-medium text-white"
+            >
+              New row
+            </Link>
+          )}
+        </header>
+
+        {saved && (
+          <p className="rounded-xl bg-green-50 px-3 py-2 text-xs text-green-800">
+            Saved row #{saved}.{!stale && ' The chat is using it now.'}
+          </p>
+        )}
+        {deleted && (
+          <p className="rounded-xl bg-green-50 px-3 py-2 text-xs text-green-800">
+            Deleted row #{deleted}.
+          </p>
+        )}
+        {stale && (saved || deleted) && (
+          <p className="rounded-xl bg-amber-50 px-3 py-2 text-xs text-amber-800">
+            The change is stored, but the chat couldn’t reload its knowledge. It keeps answering
+            from the previous rows until its next refresh.
+          </p>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-[1fr_22rem]">
+          <section className="space-y-3">
+            <form className="flex flex-wrap gap-2" method="get">
+              <select name="project" defaultValue={filters.project ?? ""} className={selectClass}>
+                <option value="">All projects</option>
+                {unique(rows.map((r) => r.project)).map((p) => (
+                  <option key={p}>{p}</option>
+                ))}
+              </select>
+              <select name="type" defaultValue={filters.type ?? ""} className={selectClass}>
+                <option value="">All types</option>
+                {unique(rows.map((r) => r.type)).map((t) => (
+                  <option key={t}>{t}</option>
+                ))}
+              </select>
+              <select name="depth" defaultValue={filters.depth ?? ""} className={selectClass}>
+                <option value="">Any depth</option>
+                {KNOWN_DEPTHS.map((d) => (
+                  <option key={d}>{d}</option>
+                ))}
+              </select>
+              <select name="highlight" defaultValue={filters.highlight ?? ""} className={selectClass}>
+                <option value="">Highlight: any</option>
+                <option value="yes">Highlighted</option>
+                <option value="no">Not highlighted</option>
+              </select>
+              <input
+                name="q"
+                defaultValue={filters.q ?? ""}
+                placeholder="Search text"
+                className={selectClass}
+              />
+              <button type="submit" className="rounded-full border border-black px-3 py-1.5 text-xs">
+                Filter
+              </button>
+            </form>
+
+            <div className="overflow-hidden rounded-3xl border border-neutral-200 bg-white">
+              <table className="w-full text-left text-xs">
+                <thead className="bg-neutral-50 text-neutral-500">
+                  <tr>
+                    <th className="px-3 py-2">#</th>
+                    <th className="px-3 py-2">Project</th>
+                    <th className="px-3 py-2">Type</th>
+                    <th className="px-3 py-2">Title</th>
+                    <th className="px-3 py-2">Depth</th>
+                    <th className="px-3 py-2">★</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map((row) => (
+                    <tr key={String(row.id)} className="border-t border-neutral-100 align-top">
+                      <td className="px-3 py-2 text-neutral-500">{row.id}</td>
+                      <td className="px-3 py-2">{row.project}</td>
+                      <td className="px-3 py-2">{row.type}</td>
+                      <td className="px-3 py-2">
+                        {editable && row.id !== null ? (
+                          <Link
+                            href={`/admin/knowledge/${encodeURIComponent(String(row.id))}`}
+                            className="font-medium hover:underline"
+                          >
+                            {row.title ?? "(no title)"}
+                          </Link>
+                        ) : (
+                          row.title ?? "(no title)"
+                        )}
+                        <p className="line-clamp-2 text-neutral-500">{row.content}</p>
+                      </td>
+                      <td className="px-3 py-2">{row.depth ?? "–"}</td>
+                      <td className="px-3 py-2">{row.is_highlight ? "★" : ""}</td>
+                    </tr>
+                  ))}
+                  {visible.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-3 py-6 text-center text-neutral-500">
+                        No rows match these filters.
+                      </td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <aside>
+            <PreviewPane />
+          </aside>
+        </div>
+      </div>
+    </main>
+  );
+}
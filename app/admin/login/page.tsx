@@ -0,0 +1,58 @@
+import { login } from "../actions";
+import { isAdminConfigured } from "@/lib/admin/auth";
+
+export const dynamic = "force-dynamic";
+
+type LoginPageProps = {
+  searchParams: Promise<{ next?: string; error?: string }>;
+};
+
+export default async function AdminLoginPage({ searchParams }: LoginPageProps) {
+  const { next, error } = await searchParams;
+
+  return (
+    <main className="min-h-screen bg-neutral-50 text-black flex items-center justify-center px-6">
+      <form
+        action={login}
+        className="w-full max-w-sm space-y-4 rounded-3xl border border-neutral-200 bg-white p-6 shadow-sm"
+      >
+        <div>
+          <h1 className="text-lg font-semibold">Portfolio chat admin</h1>
+          <p className="text-xs text-neutral-500">
+            Enter the admin secret to continue.
+          </p>
+        </div>
+
+        {!isAdminConfigured() && (
+          <p className="rounded-xl bg-amber-50 px-3 py-2 text-xs text-amber-800">
+            ADMIN_SECRET is not set, so the admin area is locked.
+          </p>
+        )}
+
+        {error && (
+          <p className="rounded-xl bg-red-50 px-3 py-2 text-xs text-red-700">
+            {error === 'rate_limited'
+              ? 'Too many attempts. Wait a minute and try again.'
+              : 'That secret didn’t match.'}
+          </p>
+        )}
+
+        <input type="hidden" name="next" value={next ?? ""} />
+        <input
+          type="password"
+          name="secret"
+          required
+          autoFocus
+          placeholder="Admin secret"
+          className="w-full rounded-full border border-neutral-200 px-4 py-2 text-sm focus:outline-none focus:border-black"
+        />
+        <button
+          type="submit"
+          className="w-full rounded-full bg-black py-2 text-sm font-medium text-white"
+        >
+          Sign in
+        </button>
+      </form>
+    </main>
+  );
+}
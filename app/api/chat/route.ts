@@ -1,374 +1,763 @@
-import { NextRequest, NextResponse } from "next/server";
-import Groq from "groq-sdk";
-import { createClient } from "@supabase/supabase-js";
-
-export const dynamic = "force-dynamic";
-
-// --- CORS handler (for cross-domain calls, e.g. Orchids) ---
-export async function OPTIONS() {
-  return NextResponse.json(
-    {},
-    {
-      status: 200,
-      headers: {
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Headers": "Content-Type, Authorization",
-        "Access-Control-Allow-Methods": "POST, OPTIONS",
-      },
-    }
-  );
-}
-
-// --- Environment variables ---
-const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-const GROQ_API_KEY = process.env.GROQ_API_KEY;
-
-if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
-  console.warn(
-    "[chat route] Supabase env vars missing. Check NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY."
-  );
-}
-
-if (!GROQ_API_KEY) {
-  console.warn("[chat route] GROQ_API_KEY is missing.");
-}
-
-// --- Initialize Supabase client (if envs exist) ---
-const supabase =
-  SUPABASE_URL && SUPABASE_ANON_KEY
-    ? createClient(SUPABASE_URL, SUPABASE_ANON_KEY)
-    : null;
-
-// --- Initialize Groq client ---
-const groq = new Groq({
-  apiKey: GROQ_API_KEY || "",
-});
-
-// Match your actual Supabase / CSV schema
-type PortfolioRow = {
-  project: string;
-  type: string;
-  title: string | null;
-  content: string;
-  tags: string | null;
-  role: string | null;
-  pillar: string | null;
-  medium: string | null;
-  aspect: string | null;
-  audience: string | null;
-  tools_methods: string | null;
-  one_liner: string | null;
-  is_highlight: boolean | null;
-  depth: string | null;
-};
-
-// In-memory cache so we don't hit Supabase every turn
-let knowledgeCache: PortfolioRow[] | null = null;
-
-// Types to prioritize for core explanation
-const PREFERRED_TYPES = new Set(["project_summary", "summary", "outcome", "method"]);
-
-// Depth priority: overview > supporting > deep_dive
-function depthScore(depth: string | null | undefined): number {
-  const d = depth?.toLowerCase() ?? "";
-  if (d === "overview") return 2;
-  if (d === "supporting_detail") return 1;
-  return 0;
-}
-
-// Max conversation history messages to send
-const MAX_HISTORY_MESSAGES = 6;
-
-// --- Load all knowledge once (cached) ---
-async function loadAllKnowledge(): Promise<PortfolioRow[]> {
-  if (!supabase) {
-    console.warn(
-      "[chat route] Supabase client not initialized; skipping knowledge fetch."
-    );
-    return [];
-  }
-
-  if (knowledgeCache) {
-    return knowledgeCache;
-  }
-
-  const dbStart = Date.now();
-  try {
-    const { data, error } = await supabase
-      .from("portfolio-knowledge")
-      .select("*")
-      .order("id", { ascending: true });
-
-    console.log(
-      "[chat route] Supabase fetch time (ms):",
-      Date.now() - dbStart
-    );
-
-    if (error) {
-      console.error("[chat route] Supabase error:", error);
-      return [];
-    }
-
-    knowledgeCache = (data as PortfolioRow[]) || [];
-    return knowledgeCache;
-  } catch (err) {
-    console.error("[chat route] Knowledge fetch failed:", err);
-    return [];
-  }
-}
-
-// --- Scope knowledge using project / title / tags / pillar / medium / audience ---
-function scopeKnowledgeToMessage(
-  message: string,
-  rows: PortfolioRow[],
-  maxRows: number = 12
-): PortfolioRow[] {
-  if (!rows.length) return [];
-
-  const q = message.toLowerCase();
-
-  const matches = rows.filter((row) => {
-    const project = row.project?.toLowerCase?.() ?? "";
-    const title = row.title?.toLowerCase?.() ?? "";
-    const tags = row.tags?.toLowerCase?.() ?? "";
-    const pillar = row.pillar?.toLowerCase?.() ?? "";
-    const medium = row.medium?.toLowerCase?.() ?? "";
-    const audience = row.audience?.toLowerCase?.() ?? "";
-
-    const hitProject = project && q.includes(project);
-    const hitTitle = title && q.includes(title);
-    const hitTags =
-      tags &&
-      q
-        .split(/\W+/)
-        .some((word) => word && tags.includes(word.toLowerCase()));
-    const hitPillar = pillar && q.includes(pillar);
-    const hitMedium = medium && q.includes(medium);
-    const hitAudience = audience && q.includes(audience);
-
-    return hitProject || hitTitle || hitTags || hitPillar || hitMedium || hitAudience;
-  });
-
-  const relevant = matches.length > 0 ? matches : rows;
-
-  // Prioritize by type + depth
-  const sorted = [...relevant].sort((a, b) => {
-    const aTypePref = PREFERRED_TYPES.has(a.type.toLowerCase()) ? 1 : 0;
-    const bTypePref = PREFERRED_TYPES.has(b.type.toLowerCase()) ? 1 : 0;
-    const aScore = aTypePref * 2 + depthScore(a.depth);
-    const bScore = bTypePref * 2 + depthScore(b.depth);
-    return bScore - aScore;
-  });
-
-  return sorted.slice(0, maxRows);
-}
-
-// --- Build the text that actually goes into the prompt ---
-function buildContextText(rows: PortfolioRow[]): string {
-  if (!rows.length) {
-    return "No matching entries found in portfolio-knowledge.";
-  }
-
-  return rows
-    .map((row) => {
-      const lines = [
-        `PROJECT: ${row.project}`,
-        `TYPE: ${row.type}`,
-        `TITLE: ${row.title ?? "(no title)"}`,
-        `PILLAR: ${row.pillar ?? "(none)"}`,
-        `MEDIUM: ${row.medium ?? "(none)"}`,
-        `AUDIENCE: ${row.audience ?? "(none)"}`,
-        `TAGS: ${row.tags ?? "(none)"}`,
-        `ROLE: ${row.role ?? "(unspecified)"}`,
-        `ONE_LINER: ${row.one_liner ?? "(none)"}`,
-        `TOOLS_METHODS: ${row.tools_methods ?? "(none)"}`,
-        `DEPTH: ${row.depth ?? "(none)"}`,
-        `CONTENT: ${row.content}`,
-      ];
-      return lines.join("\n");
-    })
-    .join("\n\n---\n\n");
-}
-
-// --- Main handler ---
-export async function POST(req: NextRequest) {
-  const routeStart = Date.now();
-
-  try {
-    if (!GROQ_API_KEY) {
-      return NextResponse.json(
-        { response: "Server misconfigured: GROQ_API_KEY is not set." },
-        {
-          status: 500,
-          headers: { "Access-Control-Allow-Origin": "*" },
-        }
-      );
-    }
-
-    const body = await req.json().catch(() => null);
-
-    if (!body || typeof body.message !== "string") {
-      return NextResponse.json(
-        { response: "No message provided." },
-        {
-          status: 400,
-          headers: { "Access-Control-Allow-Origin": "*" },
-        }
-      );
-    }
-
-    const message: string = body.message;
-
-    const historyRaw = Array.isArray(body.history)
-      ? body.history
-      : Array.isArray(body.conversationHistory)
-      ? body.conversationHistory
-      : [];
-
-    // Normalize history into { role, content } pairs
-    const convo = historyRaw
-      .map((m: any) => ({
-        role: m.role === "assistant" ? "assistant" : "user",
-        content: String(m.content ?? ""),
-      }))
-      .filter((m: { content: string }) => m.content.trim().length > 0);
-
-    // Trim history so prompt doesn’t grow unbounded
-    const convoTrimmed =
-      convo.length > MAX_HISTORY_MESSAGES
-        ? convo.slice(-MAX_HISTORY_MESSAGES)
-        : convo;
-
-    // 1. Load + scope knowledge
-    const allKnowledge = await loadAllKnowledge();
-    const scopedKnowledge = scopeKnowledgeToMessage(message, allKnowledge);
-    const contextText = buildContextText(scopedKnowledge);
-
-    // 2. System prompt: constrained, short, grounded, using your actual data
-const systemPrompt = `
-You are an AI assistant for Jasmine's AI × UX portfolio.
-
-ROLE
-- Help people learn about Jasmine's projects, skills, experience, and approach to AI × UX.
-- Only use the Portfolio knowledge below as your source of truth.
-- If you don’t have information, say so clearly and suggest 1–2 related projects or topics instead.
-
-TONE
-- Warm, confident, and a little playful; community-leader energy.
-- Use direct address ("you", "we", "mi gente") and light Spanglish when it fits.
-- Keep language clear and simple. Hype is fine, confusion is not.
-- Do NOT use the phrase pattern "it isn’t X, it’s Y."
-
-DATA MODEL
-- Each row has: project, section_type, title, content, tags, audience, tools_methods.
-- The only valid project IDs in this portfolio are:
-  - designing_agents
-  - jascore_1_0
-  - living_library
-  - mj_creative_system
-  - satori_2_0
-  - spatial_interfaces_ai_design
-  - ten_shifts_ai_ux
-- The "about_me" project is NOT a case study. Use it only for questions about who Jasmine is, her background, and her overall focus.
-- A “project” is one of the project IDs listed above that has at least one row with section_type = "summary".
-- Never treat tags, themes, or phrases from content (like "AI × UX", "Human-Centered AI", "Conversational AI for Social Impact") as project names.
-
-PROJECT LIST BEHAVIOR
-- WHEN USER SAYS: "projects", "show me the projects", "what projects can I explore?" or similar:
-  - Respond with a bullet list.
-  - For each valid project ID:
-    - Use the \`title\` from one of its \`summary\` rows as the display name.
-    - Use 1 short sentence based on its \`content\` as the description.
-  - After the list, ask: "Which one do you want to explore first?"
-- Do NOT list anything else as a project.
-
-ANSWER PATTERNS
-- On greeting:
-  "Hola! I’m Jasmine’s AI Experience comadre, here to walk you through her world — projects, skills, the whole ecosystem. What are you curious about?"
-- “Who is she?” → Use about_me summary/background rows for a short bio, then suggest 2–3 things to explore (key projects or themes).
-- “What’s the latest work?” → If no explicit “latest”, say you don’t have that, then offer 1 strategic/research project + 1 experimental/creative project and ask which they want first.
-- When the user picks a project:
-  - First explain what it is and what Jasmine was exploring/solving (using summary rows).
-  - Then offer a follow-up choice like: “You want more on the problem, the process, or the impact?”
-- “What questions can I ask?” → List 3–5 categories (e.g., design process, favorite projects, tools, background, philosophy), then ask which they want.
-
-FORMATTING
-- Answer in short paragraphs by default.
-- Use bullet lists only when the user asks for options, lists, menus, “what can I explore”, or “what questions can I ask?”
-- After any list, offer a simple next step question about what they want next.
-
-HONESTY
-- If the portfolio doesn’t contain what they asked for, say that directly, then route them to nearby projects or topics.
-- Always stay grounded in the portfolio text; lightly rewrite for clarity and tone, but don’t change the meaning.
-
-Portfolio knowledge:
-\${contextText}
-`.trim();
-
-
-
-    // 3. Prepare messages for Groq
-    const groqMessages: any[] = [
-      { role: "system", content: systemPrompt },
-      ...convoTrimmed,
-      { role: "user", content: message },
-    ];
-
-    const llmStart = Date.now();
-    const completion = await groq.chat.completions.create({
-      model: "llama-3.1-8b-instant",
-      messages: groqMessages,
-      temperature: 0.3,
-      max_tokens: 350,
-    });
-    console.log(
-      "[chat route] Groq call time (ms):",
-      Date.now() - llmStart
-    );
-
-    const content =
-      completion.choices?.[0]?.message?.content?.trim() ?? "";
-
-    const aiResponse =
-      content.length > 0
-        ? content
-        : "I couldn’t generate a response based on the current portfolio data.";
-
-    console.log(
-      "[chat route] Total route time (ms):",
-      Date.now() - routeStart
-    );
-
-    return NextResponse.json(
-      { response: aiResponse },
-      {
-        status: 200,
-        headers: { "Access-Control-Allow-Origin": "*" },
-      }
-    );
-  } catch (err: any) {
-    console.error("[chat route] Fatal error:", err);
-
-    const msg =
-      err instanceof Error
-        ? err.message
-        : typeof err === "string"
-        ? err
-        : "Unknown error";
-
-    return NextResponse.json(
-      { response: `Server error in chat route: ${msg}` },
-      {
-        status: 500,
-        headers: { "Access-Control-Allow-Origin": "*" },
-      }
-    );
-  }
-}
-
-
-
-
-
-
+import { NextRequest, NextResponse } from "next/server";
+import { loadAllKnowledge } from "@/lib/knowledge";
+import { extractCitations, toCitation } from "@/lib/chat/citations";
+import { degradedAnswer } from "@/lib/chat/degraded";
+import {
+  buildStarters,
+  extractSuggestions,
+  projectGreeting,
+} from "@/lib/chat/suggestions";
+import type {
+  ChatErrorCode,
+  ChatErrorResponse,
+  ChatIntro,
+  ChatResponse,
+  StreamEvent,
+} from "@/lib/chat/types";
+import { getLLM, LLMError, type ChatMessage, type LLM } from "@/lib/llm";
+import {
+  prepareChatTurn,
+  type ChatFocus,
+  type HistoryMessage,
+} from "@/lib/chat/pipeline";
+import { recordTurn } from "@/lib/analytics";
+import { contactReply, detectContactIntent, getLeadSink } from "@/lib/contact";
+import {
+  guardAnswer,
+  guardrailsEnabled,
+  refusalMessage,
+  screenInput,
+  validateAnswer,
+} from "@/lib/guardrails";
+import { isFocusMode, type ScopeResult } from "@/lib/retrieval";
+import { greetingFor, loadPersona, type Persona } from "@/lib/prompt/persona";
+import { deriveProjects, type ProjectSummary } from "@/lib/prompt/system-prompt";
+import {
+  DEFAULT_LANGUAGE,
+  languageFromHeader,
+  parseLanguagePreference,
+  resolveLanguage,
+  type Language,
+} from "@/lib/i18n";
+import { localizeRows } from "@/lib/knowledge/localize";
+import type { PortfolioRow } from "@/lib/knowledge";
+import { resumeSession, saveTurn } from "@/lib/sessions";
+import {
+  CHAT_LIMITS,
+  chatRateLimiters,
+  clientIp,
+  corsHeaders,
+  isOriginAllowed,
+  isSameOrigin,
+  type RateLimitResult,
+} from "@/lib/security";
+
+export const dynamic = "force-dynamic";
+
+// --- CORS handler (for cross-domain calls, e.g. Orchids) ---
+export async function OPTIONS(req: NextRequest) {
+  const origin = req.headers.get("origin");
+
+  return NextResponse.json(
+    {},
+    {
+      status: isOriginAllowed(origin) ? 200 : 403,
+      headers: {
+        ...corsHeaders(origin),
+        "Access-Control-Allow-Headers": "Content-Type, Authorization",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      },
+    }
+  );
+}
+
+// --- Error replies keep the `{ response }` shape so old embeds still show them ---
+function errorResponse(
+  error: ChatErrorCode,
+  response: string,
+  status: number,
+  headers: Record<string, string>,
+  extra: Partial<ChatErrorResponse> = {}
+) {
+  const body: ChatErrorResponse = { response, error, ...extra };
+  return NextResponse.json(body, { status, headers });
+}
+
+function rateLimited(
+  result: RateLimitResult,
+  headers: Record<string, string>
+) {
+  const retryAfterSeconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+  return errorResponse(
+    "rate_limited",
+    "Too many messages in a short time. Please wait a moment and try again.",
+    429,
+    { ...headers, "Retry-After": String(retryAfterSeconds) },
+    { retryAfterSeconds }
+  );
+}
+
+// --- The model failed, even after retries and the fallback ---
+// Visitors get the kind of failure; the provider's message stays in the logs.
+function describeModelError(err: LLMError): {
+  error: ChatErrorCode;
+  status: number;
+  response: string;
+} {
+  if (err.kind === "rate_limited") {
+    return {
+      error: "model_busy",
+      status: 503,
+      response: "The assistant is getting a lot of questions right now. Please try again in a moment.",
+    };
+  }
+  if (err.retryable) {
+    return {
+      error: "model_unavailable",
+      status: 503,
+      response: "The assistant can’t be reached right now. Please try again in a moment.",
+    };
+  }
+  return {
+    error: "model_rejected",
+    status: 502,
+    response: "The assistant couldn’t answer this one. Try asking it another way.",
+  };
+}
+
+function modelError(err: LLMError, headers: Record<string, string>) {
+  const { error, status, response } = describeModelError(err);
+  const retryAfterSeconds =
+    err.retryAfterMs !== null ? Math.max(1, Math.ceil(err.retryAfterMs / 1000)) : undefined;
+
+  return errorResponse(
+    error,
+    response,
+    status,
+    retryAfterSeconds ? { ...headers, "Retry-After": String(retryAfterSeconds) } : headers,
+    { retryable: err.retryable, ...(retryAfterSeconds && { retryAfterSeconds }) }
+  );
+}
+
+// --- The case study page the widget sits on (`focusProject`) ---
+// Undefined when none was given, null when it isn't a project here: an
+// unknown ID is a typo in the embed, so it's rejected rather than ignored.
+function findFocusProject(
+  id: unknown,
+  knowledge: PortfolioRow[],
+  persona: Persona
+): ProjectSummary | null | undefined {
+  if (id === undefined || id === null || id === "") return undefined;
+  if (typeof id !== "string") return null;
+
+  return deriveProjects(knowledge, persona).find((project) => project.id === id) ?? null;
+}
+
+function unknownProject(id: unknown, headers: Record<string, string>) {
+  return errorResponse(
+    "unknown_project",
+    `Unknown project "${String(id).slice(0, 100)}".`,
+    400,
+    headers
+  );
+}
+
+// --- Greeting and starter prompts for the widget's empty state ---
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  const cors = corsHeaders(origin);
+
+  if (!isSameOrigin(req) && !isOriginAllowed(origin)) {
+    return errorResponse(
+      "origin_not_allowed",
+      "This site isn’t allowed to use this chat.",
+      403,
+      cors
+    );
+  }
+
+  try {
+    const [knowledge, persona] = await Promise.all([
+      loadAllKnowledge(),
+      loadPersona(),
+    ]);
+
+    // ?language=es, otherwise the browser's language
+    const preference = parseLanguagePreference(
+      req.nextUrl.searchParams.get("language")
+    );
+    const language =
+      preference !== "auto"
+        ? preference
+        : languageFromHeader(req.headers.get("accept-language")) ?? DEFAULT_LANGUAGE;
+
+    // ?focusProject=satori_2_0 on a case study page
+    const rows = localizeRows(knowledge, language);
+    const focusId = req.nextUrl.searchParams.get("focusProject");
+    const project = findFocusProject(focusId, rows, persona);
+    if (project === null) return unknownProject(focusId, cors);
+
+    const intro: ChatIntro = {
+      greeting: project
+        ? projectGreeting(project, persona, language)
+        : greetingFor(persona, language),
+      starters: buildStarters(rows, persona, language, project?.id),
+      language,
+    };
+    return NextResponse.json(intro, { status: 200, headers: cors });
+  } catch (err) {
+    console.error("[chat route] Could not build intro:", err);
+    return errorResponse(
+      "server_error",
+      "Couldn’t load the chat intro.",
+      500,
+      cors
+    );
+  }
+}
+
+const EMPTY_RESPONSE_FALLBACK: Record<Language, string> = {
+  en: "I couldn’t generate a response based on the current portfolio data.",
+  es: "No pude generar una respuesta con los datos actuales del portafolio.",
+};
+
+// --- Main handler ---
+export async function POST(req: NextRequest) {
+  const routeStart = Date.now();
+
+  const origin = req.headers.get("origin");
+  const cors = corsHeaders(origin);
+
+  try {
+    if (!isSameOrigin(req) && !isOriginAllowed(origin)) {
+      return errorResponse(
+        "origin_not_allowed",
+        "This site isn’t allowed to use this chat.",
+        403,
+        cors
+      );
+    }
+
+    const llm = getLLM();
+    const configurationError = llm.provider.configurationError();
+
+    if (configurationError) {
+      return errorResponse(
+        "misconfigured",
+        `Server misconfigured: ${configurationError}`,
+        500,
+        cors
+      );
+    }
+
+    const declaredLength = Number(req.headers.get("content-length") ?? "0");
+    const rawBody =
+      declaredLength > CHAT_LIMITS.maxBodyBytes ? null : await req.text();
+
+    if (
+      rawBody === null ||
+      Buffer.byteLength(rawBody) > CHAT_LIMITS.maxBodyBytes
+    ) {
+      return errorResponse(
+        "payload_too_large",
+        "That request is too large.",
+        413,
+        cors
+      );
+    }
+
+    const body = (() => {
+      try {
+        return JSON.parse(rawBody);
+      } catch {
+        return null;
+      }
+    })();
+
+    if (!body || typeof body.message !== "string") {
+      return errorResponse("bad_request", "No message provided.", 400, cors);
+    }
+
+    const message: string = body.message;
+    const requestedSessionId =
+      typeof body.sessionId === "string" && body.sessionId
+        ? body.sessionId.slice(0, 100)
+        : null;
+
+    if (message.length > CHAT_LIMITS.maxMessageChars) {
+      return errorResponse(
+        "payload_too_large",
+        `Please keep questions under ${CHAT_LIMITS.maxMessageChars} characters.`,
+        413,
+        cors
+      );
+    }
+
+    // "en" / "es" answers in that language; "auto" (default) follows the visitor
+    const languagePreference = parseLanguagePreference(body.language);
+
+    // Streaming is opt-in so existing embeds keep getting `{ response }` JSON
+    const wantsStream =
+      body.stream === true ||
+      (req.headers.get("accept") ?? "").includes("text/event-stream");
+
+    const historyRaw = Array.isArray(body.history)
+      ? body.history
+      : Array.isArray(body.conversationHistory)
+      ? body.conversationHistory
+      : [];
+
+    // Normalize history into { role, content } pairs
+    const convo: HistoryMessage[] = historyRaw
+      .map((m: { role?: unknown; content?: unknown }) => ({
+        role: m?.role === "assistant" ? "assistant" : "user",
+        content: String(m?.content ?? ""),
+      }))
+      .filter((m: HistoryMessage) => m.content.trim().length > 0);
+
+    // Some clients include the new question as the last history entry
+    const last = convo[convo.length - 1];
+    if (last?.role === "user" && last.content.trim() === message.trim()) {
+      convo.pop();
+    }
+
+    const historyChars = convo.reduce((sum, m) => sum + m.content.length, 0);
+
+    if (
+      convo.length > CHAT_LIMITS.maxHistoryMessages ||
+      historyChars > CHAT_LIMITS.maxHistoryChars
+    ) {
+      return errorResponse(
+        "payload_too_large",
+        "This conversation got too long. Start a new chat to keep going.",
+        413,
+        cors
+      );
+    }
+
+    // Per-IP, then per-session token buckets, before any knowledge is loaded
+    const ipLimit = await chatRateLimiters.ip.consume(
+      `ip:${clientIp(req.headers)}`
+    );
+    if (!ipLimit.allowed) return rateLimited(ipLimit, cors);
+
+    if (requestedSessionId) {
+      const sessionLimit = await chatRateLimiters.session.consume(
+        `session:${requestedSessionId}`
+      );
+      if (!sessionLimit.allowed) return rateLimited(sessionLimit, cors);
+    }
+
+    const allKnowledge = await loadAllKnowledge();
+
+    // On a case study page, retrieval stays on that project ("restrict", the
+    // default) or just ranks it first ("boost")
+    let focus: ChatFocus | undefined;
+    const focusProject = findFocusProject(
+      body.focusProject,
+      allKnowledge,
+      await loadPersona()
+    );
+    if (focusProject === null) return unknownProject(body.focusProject, cors);
+    if (focusProject) {
+      focus = {
+        project: focusProject.id,
+        mode: isFocusMode(body.focusMode) ? body.focusMode : "restrict",
+      };
+    }
+
+    // The stored conversation is the history. Clients that don't use sessions
+    // (older embeds, direct API calls) send their own, which is used as-is
+    // and never stored; the widget asks for a session with `startSession`.
+    const session = await resumeSession(requestedSessionId, {
+      create: body.startSession === true,
+    });
+    const sessionId = session?.id ?? requestedSessionId;
+    const history: HistoryMessage[] = session
+      ? session.messages.map(({ role, content }) => ({ role, content }))
+      : convo;
+    const headers = session
+      ? {
+          ...cors,
+          "X-Chat-Session": session.id,
+          "Access-Control-Expose-Headers": "X-Chat-Session, Retry-After",
+        }
+      : cors;
+
+    // After the answer: log timing, store the turn in the session and record it
+    // for /admin/insights
+    const finishTurn = (
+      result: ChatResponse,
+      streamed: boolean,
+      scope: ScopeResult
+    ) => {
+      const latencyMs = Date.now() - routeStart;
+      console.log("[chat route] Total route time (ms):", latencyMs);
+
+      // A degraded answer stays out of the history, so a retry asks the model fresh
+      if (session && !result.degraded) {
+        saveTurn(session, [
+          { role: "user", content: message },
+          {
+            role: "assistant",
+            content: result.response,
+            citations: result.citations,
+            suggestions: result.suggestions,
+          },
+        ]);
+      }
+
+      recordTurn({
+        sessionId,
+        question: message,
+        scopedRows: scope.rows,
+        matchedKnowledge: scope.matched,
+        answer: result.response,
+        citations: result.citations,
+        latencyMs,
+        streamed,
+      });
+    };
+
+    const language = resolveLanguage({
+      preference: languagePreference,
+      message,
+      previousMessages: history
+        .filter((m) => m.role === "user")
+        .map((m) => m.content),
+      acceptLanguage: req.headers.get("accept-language"),
+    });
+
+    // Prompt-injection attempts get a refusal without reaching the model
+    const screen = guardrailsEnabled ? screenInput(message) : null;
+    if (screen?.blocked) {
+      console.warn(`[chat route] Refused message (${screen.reason})`);
+      const persona = await loadPersona();
+      const result: ChatResponse = {
+        ...(session && { sessionId: session.id }),
+        response: refusalMessage(persona, language),
+        citations: [],
+        suggestions: buildStarters(
+          localizeRows(allKnowledge, language),
+          persona,
+          language,
+          focus?.project
+        ).slice(0, 3),
+        language,
+      };
+      finishTurn(result, wantsStream, { rows: [], matched: false });
+
+      return wantsStream
+        ? streamResult(result, headers)
+        : NextResponse.json(result, { status: 200, headers });
+    }
+
+    // Hiring and contact requests get a short reply and the contact form
+    // (only when there's somewhere to send the lead)
+    const contactIntent = getLeadSink() ? detectContactIntent(message) : null;
+    if (contactIntent) {
+      const persona = await loadPersona();
+      const result: ChatResponse = {
+        ...(session && { sessionId: session.id }),
+        response: contactReply(persona, contactIntent, language),
+        citations: [],
+        suggestions: [],
+        language,
+        action: { type: "contact_form", intent: contactIntent },
+      };
+      finishTurn(result, wantsStream, { rows: [], matched: false });
+
+      return wantsStream
+        ? streamResult(result, headers)
+        : NextResponse.json(result, { status: 200, headers });
+    }
+
+    // 1–3. Scope knowledge, build the prompt, assemble messages
+    const {
+      scope,
+      persona,
+      projects,
+      messages: llmMessages,
+      usage,
+    } = await prepareChatTurn({
+      message,
+      history,
+      summary: session?.summary,
+      knowledge: allKnowledge,
+      settings: llm.settings,
+      language,
+      focus,
+    });
+    console.log(
+      `[chat route] Prompt ≈${usage.total}/${usage.budget} tokens (knowledge ${usage.knowledge}, history ${usage.history})`
+    );
+    const scopedKnowledge = scope.rows;
+
+    // Everything the widget shows next to the answer text
+    const toResult = (response: string): ChatResponse => ({
+      ...(session && { sessionId: session.id }),
+      response,
+      citations: extractCitations(response, scopedKnowledge),
+      suggestions: extractSuggestions({
+        answer: response,
+        question: message,
+        scopedRows: scopedKnowledge,
+        knowledge: localizeRows(allKnowledge, language),
+        persona,
+        language,
+      }),
+      language,
+    });
+
+    // Check the finished answer (unknown projects, banned phrasings, leaked
+    // prompt) and repair or regenerate it before the visitor keeps it
+    const finalize = async (
+      draft: string,
+      signal: AbortSignal
+    ): Promise<ChatResponse> => {
+      if (!draft) return toResult(EMPTY_RESPONSE_FALLBACK[language]);
+
+      const guarded = await guardAnswer({
+        answer: draft,
+        projects,
+        persona,
+        regenerate: (correction) =>
+          llm.provider.complete({
+            ...llm.settings,
+            messages: [
+              ...llmMessages,
+              { role: "assistant", content: draft },
+              { role: "system", content: correction },
+            ],
+            signal,
+          }),
+        language,
+      });
+
+      if (guarded.action !== "passed") {
+        console.warn(
+          `[chat route] Guardrails ${guarded.action} the answer (${guarded.violations
+            .map((v) => (v.kind === "unknown_project" ? `unknown project "${v.name}"` : v.kind))
+            .join(", ")})`
+        );
+      }
+      return toResult(guarded.answer);
+    };
+
+    // When the model is down, common questions (project list, bio, a named
+    // project) are answered from the rows; anything else gets a typed error
+    // the widget offers to retry
+    const withoutModel = (err: unknown) => {
+      if (!(err instanceof LLMError) || err.kind === "aborted") throw err;
+
+      const degraded = degradedAnswer({
+        message,
+        knowledge: localizeRows(allKnowledge, language),
+        persona,
+        projects,
+        language,
+        focusProject: focus?.project,
+      });
+      if (!degraded) return modelError(err, headers);
+
+      console.warn(
+        `[chat route] Model ${err.kind}; answered "${degraded.intent}" from knowledge`
+      );
+      const result: ChatResponse = {
+        ...toResult(degraded.response),
+        citations: degraded.rows.map(toCitation),
+        degraded: true,
+      };
+      finishTurn(result, wantsStream, { rows: degraded.rows, matched: true });
+
+      return wantsStream
+        ? streamResult(result, headers)
+        : NextResponse.json(result, { status: 200, headers });
+    };
+
+    if (wantsStream) {
+      try {
+        return await streamCompletion({
+          llm,
+          messages: llmMessages,
+          finalize,
+          isClean: guardrailsEnabled
+            ? (text) => !validateAnswer(text, { projects, persona }).length
+            : undefined,
+          signal: req.signal,
+          cors: headers,
+          onComplete: (result) => finishTurn(result, true, scope),
+        });
+      } catch (err) {
+        return withoutModel(err);
+      }
+    }
+
+    const llmStart = Date.now();
+    let completion: string;
+    try {
+      completion = await llm.provider.complete({
+        ...llm.settings,
+        messages: llmMessages,
+        signal: req.signal,
+      });
+    } catch (err) {
+      return withoutModel(err);
+    }
+    console.log(
+      `[chat route] ${llm.provider.name} call time (ms):`,
+      Date.now() - llmStart
+    );
+
+    const result = await finalize(completion.trim(), req.signal);
+    finishTurn(result, false, scope);
+
+    return NextResponse.json(result, { status: 200, headers });
+  } catch (err: unknown) {
+    console.error("[chat route] Fatal error:", err);
+
+    return errorResponse(
+      "server_error",
+      "Something went wrong on our side. Please try again.",
+      500,
+      cors,
+      { retryable: true }
+    );
+  }
+}
+
+const EVENT_STREAM_HEADERS = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+};
+
+type StreamCompletionOptions = {
+  llm: LLM;
+  messages: ChatMessage[];
+  /** Checks the full answer text (possibly empty) and turns it into the `done` payload. */
+  finalize: (response: string, signal: AbortSignal) => Promise<ChatResponse>;
+  /** Output checks on the text so far; deltas stop at the first failure. */
+  isClean?: (text: string) => boolean;
+  signal: AbortSignal;
+  cors: Record<string, string>;
+  /** Called once the full answer has been sent (not on Stop or errors). */
+  onComplete: (result: ChatResponse) => void;
+};
+
+// --- Streaming mode: forward model deltas as server-sent events ---
+async function streamCompletion({
+  llm,
+  messages,
+  finalize,
+  isClean,
+  signal,
+  cors,
+  onComplete,
+}: StreamCompletionOptions): Promise<Response> {
+  const llmStart = Date.now();
+
+  // Aborts the upstream call when the visitor disconnects or presses Stop
+  const upstream = new AbortController();
+  signal.addEventListener("abort", () => upstream.abort(), { once: true });
+
+  const deltas = llm.provider.stream({
+    ...llm.settings,
+    messages,
+    signal: upstream.signal,
+  })[Symbol.asyncIterator]();
+
+  // Pull the first chunk before answering so connection/auth failures still
+  // surface as a normal error response (or a degraded answer) instead of a
+  // half-open stream
+  const first = await deltas.next();
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StreamEvent) =>
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+
+      let full = "";
+      // How much of `full` the visitor has seen, and whether that has stopped
+      let sent = 0;
+      let held = false;
+      try {
+        for (
+          let result = first;
+          !result.done;
+          result = await deltas.next()
+        ) {
+          if (!result.value) continue;
+          full += result.value;
+          if (held) continue;
+
+          // With guardrails on, only whole words go out, and only while the
+          // answer so far passes the output checks. After a failure the rest
+          // arrives with `done`, once guardAnswer has repaired or replaced it.
+          const end = isClean ? full.length - (full.match(/\S*$/)?.[0].length ?? 0) : full.length;
+          if (end <= sent) continue;
+          if (isClean && !isClean(full.slice(0, end))) {
+            console.warn("[chat route] Output check failed mid-stream; holding the rest");
+            held = true;
+            continue;
+          }
+          send({ type: "delta", content: full.slice(sent, end) });
+          sent = end;
+        }
+
+        const result = await finalize(full.trim(), upstream.signal);
+        send({ type: "done", ...result });
+        onComplete(result);
+      } catch (err) {
+        // The visitor pressed Stop (or navigated away); nothing left to send
+        if (upstream.signal.aborted) return;
+
+        console.error("[chat route] Stream error:", err);
+        send({
+          type: "error",
+          message: "The response was interrupted.",
+          error: err instanceof LLMError ? describeModelError(err).error : "server_error",
+          retryable: err instanceof LLMError ? err.retryable : true,
+        });
+      } finally {
+        console.log(
+          `[chat route] ${llm.provider.name} stream time (ms):`,
+          Date.now() - llmStart
+        );
+        try {
+          controller.close();
+        } catch {
+          // Already closed because the client went away
+        }
+      }
+    },
+    cancel() {
+      upstream.abort();
+      void deltas.return?.();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: { ...EVENT_STREAM_HEADERS, ...cors },
+  });
+}
+
+// --- A ready-made answer (e.g. a refusal) in streaming form ---
+function streamResult(
+  result: ChatResponse,
+  cors: Record<string, string>
+): Response {
+  const events: StreamEvent[] = [
+    { type: "delta", content: result.response },
+    { type: "done", ...result },
+  ];
+  const body = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join("");
+
+  return new Response(body, {
+    status: 200,
+    headers: { ...EVENT_STREAM_HEADERS, ...cors },
+  });
+}
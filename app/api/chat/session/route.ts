@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { ChatErrorResponse, ChatSessionResponse } from "@/lib/chat/types";
+import { corsHeaders, isOriginAllowed, isSameOrigin } from "@/lib/security";
+import { endSession, loadSession } from "@/lib/sessions";
+
+export const dynamic = "force-dynamic";
+
+// --- Resume (GET) and "new chat" (DELETE) for /api/chat sessions ---
+// The session ID itself is the credential: it's a random UUID that only the
+// visitor's browser has.
+
+export async function OPTIONS(req: NextRequest) {
+  const origin = req.headers.get("origin");
+
+  return NextResponse.json(
+    {},
+    {
+      status: isOriginAllowed(origin) ? 200 : 403,
+      headers: {
+        ...corsHeaders(origin),
+        "Access-Control-Allow-Headers": "Content-Type",
+        "Access-Control-Allow-Methods": "GET, DELETE, OPTIONS",
+      },
+    }
+  );
+}
+
+function rejected(req: NextRequest): NextResponse | null {
+  const origin = req.headers.get("origin");
+  if (isSameOrigin(req) || isOriginAllowed(origin)) return null;
+
+  const body: ChatErrorResponse = {
+    response: "This site isn’t allowed to use this chat.",
+    error: "origin_not_allowed",
+  };
+  return NextResponse.json(body, { status: 403, headers: corsHeaders(origin) });
+}
+
+export async function GET(req: NextRequest) {
+  const denied = rejected(req);
+  if (denied) return denied;
+
+  const cors = corsHeaders(req.headers.get("origin"));
+  const id = req.nextUrl.searchParams.get("id") ?? "";
+
+  try {
+    const session = await loadSession(id);
+    if (!session) {
+      const body: ChatErrorResponse = {
+        response: "This conversation has expired.",
+        error: "not_found",
+      };
+      return NextResponse.json(body, { status: 404, headers: cors });
+    }
+
+    const body: ChatSessionResponse = {
+      sessionId: session.id,
+      messages: session.messages,
+    };
+    return NextResponse.json(body, {
+      status: 200,
+      headers: { ...cors, "Cache-Control": "no-store" },
+    });
+  } catch (err) {
+    console.error("[chat session] Load failed:", err);
+    const body: ChatErrorResponse = {
+      response: "Couldn’t load this conversation.",
+      error: "server_error",
+    };
+    return NextResponse.json(body, { status: 500, headers: cors });
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  const denied = rejected(req);
+  if (denied) return denied;
+
+  const cors = corsHeaders(req.headers.get("origin"));
+  const id = req.nextUrl.searchParams.get("id") ?? "";
+
+  try {
+    await endSession(id);
+    return new NextResponse(null, { status: 204, headers: cors });
+  } catch (err) {
+    console.error("[chat session] Delete failed:", err);
+    const body: ChatErrorResponse = {
+      response: "Couldn’t clear this conversation.",
+      error: "server_error",
+    };
+    return NextResponse.json(body, { status: 500, headers: cors });
+  }
+}
@@ -0,0 +1,192 @@
+import { randomUUID } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  MIN_FILL_MS,
+  getLeadSink,
+  sanitizeTranscript,
+  validateContact,
+  type ContactErrorResponse,
+  type ContactResponse,
+  type Lead,
+  type TranscriptMessage,
+} from "@/lib/contact";
+import { DEFAULT_LANGUAGE, isLanguage, type Language } from "@/lib/i18n";
+import {
+  CHAT_LIMITS,
+  clientIp,
+  contactRateLimiter,
+  corsHeaders,
+  isOriginAllowed,
+  isSameOrigin,
+} from "@/lib/security";
+import { isSessionId, loadSession } from "@/lib/sessions";
+
+export const dynamic = "force-dynamic";
+
+// --- Leads from the contact form the chat shows for hiring/contact requests ---
+
+export async function OPTIONS(req: NextRequest) {
+  const origin = req.headers.get("origin");
+
+  return NextResponse.json(
+    {},
+    {
+      status: isOriginAllowed(origin) ? 200 : 403,
+      headers: {
+        ...corsHeaders(origin),
+        "Access-Control-Allow-Headers": "Content-Type",
+        "Access-Control-Allow-Methods": "POST, OPTIONS",
+      },
+    }
+  );
+}
+
+function errorResponse(
+  error: ContactErrorResponse["error"],
+  response: string,
+  status: number,
+  headers: Record<string, string>,
+  extra: Partial<ContactErrorResponse> = {}
+) {
+  const body: ContactErrorResponse = { ok: false, response, error, ...extra };
+  return NextResponse.json(body, { status, headers });
+}
+
+const THANKS: Record<Language, string> = {
+  en: "Thanks! Your message is on its way, and you’ll hear back by email.",
+  es: "¡Gracias! Tu mensaje va en camino y recibirás respuesta por correo.",
+};
+
+// The stored conversation when there is one; the client's copy otherwise
+async function transcriptFor(
+  sessionId: unknown,
+  clientTranscript: unknown
+): Promise<{ sessionId: string | null; transcript: TranscriptMessage[] }> {
+  if (isSessionId(sessionId)) {
+    try {
+      const session = await loadSession(sessionId);
+      if (session) {
+        return {
+          sessionId,
+          transcript: session.messages.map(({ role, content }) => ({ role, content })),
+        };
+      }
+    } catch (err) {
+      console.error("[contact route] Could not load the session:", err);
+    }
+  }
+
+  return {
+    sessionId: null,
+    transcript: sanitizeTranscript(clientTranscript, {
+      maxMessages: CHAT_LIMITS.maxHistoryMessages,
+      maxChars: CHAT_LIMITS.maxHistoryChars,
+    }),
+  };
+}
+
+export async function POST(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  const cors = corsHeaders(origin);
+
+  if (!isSameOrigin(req) && !isOriginAllowed(origin)) {
+    return errorResponse(
+      "origin_not_allowed",
+      "This site isn’t allowed to use this chat.",
+      403,
+      cors
+    );
+  }
+
+  const sink = getLeadSink();
+  if (!sink) {
+    return errorResponse(
+      "unavailable",
+      "The contact form isn’t set up on this site.",
+      503,
+      cors
+    );
+  }
+
+  const declaredLength = Number(req.headers.get("content-length") ?? "0");
+  const rawBody =
+    declaredLength > CHAT_LIMITS.maxBodyBytes ? null : await req.text();
+  if (rawBody === null || Buffer.byteLength(rawBody) > CHAT_LIMITS.maxBodyBytes) {
+    return errorResponse("payload_too_large", "That request is too large.", 413, cors);
+  }
+
+  const body = (() => {
+    try {
+      return JSON.parse(rawBody);
+    } catch {
+      return null;
+    }
+  })();
+  if (!body || typeof body !== "object") {
+    return errorResponse("bad_request", "No details provided.", 400, cors);
+  }
+
+  const language: Language = isLanguage(body.language) ? body.language : DEFAULT_LANGUAGE;
+
+  // Bots fill the hidden field or send instantly. They get the same thank-you
+  // as everyone else, so there's nothing to learn from the response.
+  const elapsedMs = Number(body.elapsedMs);
+  const honeypot = typeof body.website === "string" && body.website.trim() !== "";
+  if (honeypot || !Number.isFinite(elapsedMs) || elapsedMs < MIN_FILL_MS) {
+    console.warn(
+      `[contact route] Dropped a likely bot submission (${honeypot ? "honeypot" : "too fast"})`
+    );
+    const result: ContactResponse = { ok: true, response: THANKS[language] };
+    return NextResponse.json(result, { status: 200, headers: cors });
+  }
+
+  const validation = validateContact(body);
+  if (!validation.ok) {
+    return errorResponse(
+      "invalid",
+      "Please check the highlighted fields.",
+      400,
+      cors,
+      { fields: validation.errors }
+    );
+  }
+
+  // Counted only for valid submissions, so fixing a typo doesn't use one up
+  const limit = await contactRateLimiter.consume(`contact:${clientIp(req.headers)}`);
+  if (!limit.allowed) {
+    const retryAfterSeconds = Math.max(1, Math.ceil(limit.retryAfterMs / 1000));
+    return errorResponse(
+      "rate_limited",
+      "You’ve sent a few messages already. Please try again later.",
+      429,
+      { ...cors, "Retry-After": String(retryAfterSeconds) },
+      { retryAfterSeconds }
+    );
+  }
+
+  const { sessionId, transcript } = await transcriptFor(body.sessionId, body.transcript);
+  const lead: Lead = {
+    id: randomUUID(),
+    at: new Date().toISOString(),
+    ...validation.details,
+    transcript,
+    sessionId,
+    origin,
+  };
+
+  try {
+    await sink.save(lead);
+  } catch (err) {
+    console.error(`[contact route] ${sink.name} failed:`, err);
+    return errorResponse(
+      "server_error",
+      "Your message couldn’t be sent. Please try again in a bit.",
+      502,
+      cors
+    );
+  }
+
+  console.log(`[contact route] Saved a ${lead.intent} lead to ${sink.name}`);
+  const result: ContactResponse = { ok: true, response: THANKS[language] };
+  return NextResponse.json(result, { status: 200, headers: cors });
+}
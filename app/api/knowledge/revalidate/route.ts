@@ -0,0 +1,52 @@
+import { timingSafeEqual } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getKnowledgeCacheStatus, revalidateKnowledge } from "@/lib/knowledge";
+
+export const dynamic = "force-dynamic";
+
+// --- Environment variables ---
+const KNOWLEDGE_REVALIDATE_SECRET = process.env.KNOWLEDGE_REVALIDATE_SECRET;
+
+// Accepts `Authorization: Bearer <secret>` or `x-revalidate-secret: <secret>`
+// (Supabase database webhooks can send either as a custom header)
+function isAuthorized(req: NextRequest, secret: string): boolean {
+  const bearer = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  const provided = bearer || req.headers.get("x-revalidate-secret") || "";
+
+  const a = Buffer.from(provided);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// --- Refetch knowledge now (call from a Supabase webhook after edits) ---
+export async function POST(req: NextRequest) {
+  if (!KNOWLEDGE_REVALIDATE_SECRET) {
+    return NextResponse.json(
+      { error: "Server misconfigured: KNOWLEDGE_REVALIDATE_SECRET is not set." },
+      { status: 500 }
+    );
+  }
+
+  if (!isAuthorized(req, KNOWLEDGE_REVALIDATE_SECRET)) {
+    return NextResponse.json({ error: "Unauthorized." }, { status: 401 });
+  }
+
+  try {
+    const result = await revalidateKnowledge();
+    return NextResponse.json({ ok: true, ...result }, { status: 200 });
+  } catch (err) {
+    console.error("[revalidate route] Knowledge refresh failed:", err);
+
+    // The chat keeps answering from the last good snapshot
+    const status = getKnowledgeCacheStatus();
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "Knowledge refresh failed; still serving the last good snapshot.",
+        version: status.version,
+        rowCount: status.rowCount,
+      },
+      { status: 502 }
+    );
+  }
+}
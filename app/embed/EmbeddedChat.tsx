@@ -0,0 +1,63 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { AIChat, type AIChatHandle, type AIChatProps } from '@/components/AIChat';
+import type { LauncherIcon } from '@/components/chat-theme';
+import {
+  MESSAGE_SOURCE,
+  isWidgetMessage,
+  type FrameMessage,
+  type HostMessage,
+} from '@/widget/protocol';
+
+// Everything the embed attributes can set; case-study links and custom
+// launcher elements only make sense when AIChat is used directly
+type EmbeddedChatProps = Omit<
+  AIChatProps,
+  'ref' | 'onOpenChange' | 'caseStudyUrls' | 'launcherIcon'
+> & {
+  endpoint: string;
+  launcherIcon?: LauncherIcon;
+};
+
+// The state messages only say whether the window is open, so any parent may
+// receive them; commands are only accepted from the parent frame itself.
+function postToHost(message: FrameMessage) {
+  if (window.parent !== window) window.parent.postMessage(message, '*');
+}
+
+export function EmbeddedChat(props: EmbeddedChatProps) {
+  const chatRef = useRef<AIChatHandle>(null);
+
+  useEffect(() => {
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent) return;
+      if (!isWidgetMessage<HostMessage>(event.data)) return;
+
+      const message = event.data;
+      switch (message.type) {
+        case 'open':
+          chatRef.current?.open();
+          break;
+        case 'close':
+          chatRef.current?.close();
+          break;
+        case 'send':
+          if (typeof message.text === 'string') chatRef.current?.send(message.text);
+          break;
+      }
+    };
+
+    window.addEventListener('message', onMessage);
+    postToHost({ source: MESSAGE_SOURCE, type: 'ready' });
+    return () => window.removeEventListener('message', onMessage);
+  }, []);
+
+  return (
+    <AIChat
+      ref={chatRef}
+      {...props}
+      onOpenChange={(open) => postToHost({ source: MESSAGE_SOURCE, type: 'state', open })}
+    />
+  );
+}
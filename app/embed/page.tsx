@@ -0,0 +1,72 @@
+import type { Metadata } from "next";
+import {
+  parseColor,
+  parseColorScheme,
+  parseDimension,
+  parseImageUrl,
+  parseLauncherIcon,
+  parsePosition,
+  parsePrompts,
+} from "@/components/chat-theme";
+import { parseLanguagePreference } from "@/lib/i18n";
+import { isFocusMode } from "@/lib/retrieval/focus";
+import { EmbeddedChat } from "./EmbeddedChat";
+
+// Rendered inside the iframe created by public/portfolio-chat.js. The page is
+// transparent so only the launcher and chat window show on the host site.
+
+export const metadata: Metadata = {
+  title: "Portfolio chat",
+  robots: { index: false },
+};
+
+type EmbedPageProps = {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+};
+
+const param = (value: string | string[] | undefined) =>
+  Array.isArray(value) ? value[0] : value;
+
+export default async function EmbedPage({ searchParams }: EmbedPageProps) {
+  const params = await searchParams;
+
+  // Only same-origin paths: the iframe must not be pointed at another server
+  const endpoint = param(params.endpoint) ?? "";
+  const safeEndpoint =
+    endpoint.startsWith("/") && !endpoint.startsWith("//") ? endpoint : "/api/chat";
+  const text = (name: string) => param(params[name])?.trim() || undefined;
+  const focusMode = param(params["focus-mode"]);
+
+  return (
+    <div className="portfolio-chat-embed">
+      <EmbeddedChat
+        endpoint={safeEndpoint}
+        title={text("title")}
+        subtitle={param(params.subtitle)}
+        placeholder={text("placeholder")}
+        greeting={text("greeting")}
+        starters={parsePrompts(param(params.prompts))}
+        stream={param(params.stream) !== "false"}
+        language={parseLanguagePreference(param(params.language))}
+        focusProject={text("focus-project")}
+        focusMode={isFocusMode(focusMode) ? focusMode : undefined}
+        theme={{
+          colorScheme: parseColorScheme(param(params["color-scheme"])),
+          colors: {
+            accent: parseColor(param(params["accent-color"])),
+            accentText: parseColor(param(params["accent-text-color"])),
+          },
+        }}
+        position={parsePosition(param(params.position))}
+        size={{
+          width: parseDimension(param(params.width), 280, 640),
+          height: parseDimension(param(params.height), 360, 900),
+        }}
+        launcherIcon={parseLauncherIcon(param(params["launcher-icon"]))}
+        launcherLabel={text("launcher-label")}
+        avatarUrl={parseImageUrl(param(params.avatar))}
+        openOnLoad={param(params["open-on-load"]) === "true"}
+      />
+    </div>
+  );
+}
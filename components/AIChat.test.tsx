@@ -0,0 +1,273 @@
+// @vitest-environment jsdom
+import { act, cleanup, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import axe from 'axe-core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WIDGET_STRINGS } from '../lib/i18n/strings';
+import { AIChat } from './AIChat';
+
+const strings = WIDGET_STRINGS.en;
+
+// jsdom has no matchMedia; this one lets a test flip prefers-reduced-motion
+const reducedMotion = {
+  matches: false,
+  listeners: new Set<EventListener>(),
+  set(value: boolean) {
+    this.matches = value;
+    this.listeners.forEach((listener) => listener(new Event('change')));
+  },
+};
+
+function matchMedia(query: string): MediaQueryList {
+  const tracksMotion = query.includes('reduced-motion');
+  return {
+    media: query,
+    get matches() {
+      return tracksMotion && reducedMotion.matches;
+    },
+    onchange: null,
+    addEventListener: (_: string, listener: EventListener) => {
+      if (tracksMotion) reducedMotion.listeners.add(listener);
+    },
+    removeEventListener: (_: string, listener: EventListener) => {
+      reducedMotion.listeners.delete(listener);
+    },
+    addListener: () => {},
+    removeListener: () => {},
+    dispatchEvent: () => false,
+  } as MediaQueryList;
+}
+
+// GET is the intro (none here); POST answers with `reply` as plain JSON
+function stubFetch(reply: () => Promise<Response>) {
+  const fetchMock = vi.fn((_: RequestInfo | URL, init?: RequestInit) =>
+    init?.method === 'POST' ? reply() : Promise.resolve(new Response(null, { status: 404 }))
+  );
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const jsonReply = (response: string) =>
+  Promise.resolve(Response.json({ response }, { headers: { 'Content-Type': 'application/json' } }));
+
+// jsdom can't compute colours, so contrast is left to a browser audit
+async function expectNoAxeViolations(element: Element) {
+  const { violations } = await axe.run(element, { rules: { 'color-contrast': { enabled: false } } });
+  expect(violations.map(({ id, nodes }) => `${id}: ${nodes.map((n) => n.target.join(' ')).join(', ')}`)).toEqual([]);
+}
+
+const launcher = () => screen.getByRole('button', { name: strings.openChat });
+const messageBox = () => screen.getByRole('textbox', { name: strings.messageLabel });
+
+beforeEach(() => {
+  vi.stubGlobal('matchMedia', matchMedia);
+  Element.prototype.scrollIntoView = vi.fn();
+  reducedMotion.set(false);
+  sessionStorage.clear();
+  localStorage.clear();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('AIChat dialog focus', () => {
+  it('moves focus into the dialog when the launcher opens it', async () => {
+    stubFetch(() => jsonReply('Hi'));
+    const user = userEvent.setup();
+    render(<AIChat stream={false} />);
+
+    await user.click(launcher());
+
+    const dialog = screen.getByRole('dialog', { name: strings.title });
+    expect(dialog.getAttribute('aria-modal')).toBe('true');
+    expect(launcher().getAttribute('aria-expanded')).toBe('true');
+    expect(document.activeElement).toBe(messageBox());
+    expect(dialog.contains(document.activeElement)).toBe(true);
+  });
+
+  it('keeps Tab and Shift+Tab inside the dialog', async () => {
+    stubFetch(() => jsonReply('Hi'));
+    const user = userEvent.setup();
+    render(<AIChat stream={false} />);
+    await user.click(launcher());
+    await user.type(messageBox(), 'Hello');
+
+    const close = screen.getByRole('button', { name: strings.closeChat });
+    const send = screen.getByRole('button', { name: strings.send });
+
+    send.focus();
+    await user.tab();
+    expect(document.activeElement).toBe(close);
+
+    await user.tab({ shift: true });
+    expect(document.activeElement).toBe(send);
+  });
+
+  it('closes on Escape and gives focus back to the launcher', async () => {
+    const onOpenChange = vi.fn();
+    stubFetch(() => jsonReply('Hi'));
+    const user = userEvent.setup();
+    render(<AIChat stream={false} onOpenChange={onOpenChange} />);
+    await user.click(launcher());
+
+    await user.keyboard('{Escape}');
+
+    expect(document.activeElement).toBe(launcher());
+    expect(launcher().getAttribute('aria-expanded')).toBe('false');
+    await waitFor(() => expect(screen.queryByRole('dialog')).toBeNull());
+    expect(onOpenChange).toHaveBeenLastCalledWith(false);
+  });
+});
+
+describe('AIChat announcements', () => {
+  it('announces progress, then the finished answer without Markdown', async () => {
+    let answer!: (response: Response) => void;
+    stubFetch(() => new Promise<Response>((resolve) => (answer = resolve)));
+    const user = userEvent.setup();
+    render(<AIChat stream={false} />);
+    await user.click(launcher());
+
+    const status = screen.getByRole('status');
+    expect(status.getAttribute('aria-live')).toBe('polite');
+    expect(status.getAttribute('aria-atomic')).toBe('true');
+
+    await user.type(messageBox(), 'What did she build?{Enter}');
+    expect(status.textContent).toBe(strings.replying);
+
+    await act(async () => {
+      answer(await jsonReply('She built **Satori 2.0**, see [the case study](https://example.com).'));
+    });
+    await waitFor(() =>
+      expect(status.textContent).toBe('She built Satori 2.0, see the case study.')
+    );
+  });
+
+  it('announces a friendly error when the request fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    stubFetch(() => Promise.reject(new TypeError('Failed to fetch')));
+    const user = userEvent.setup();
+    render(<AIChat stream={false} />);
+    await user.click(launcher());
+
+    await user.type(messageBox(), 'Hello{Enter}');
+
+    await waitFor(() => expect(screen.getByRole('status').textContent).toBe(strings.error));
+  });
+
+  it('stays quiet while the window is closed', async () => {
+    stubFetch(() => jsonReply('Hi'));
+    const user = userEvent.setup();
+    render(<AIChat stream={false} />);
+    await user.click(launcher());
+    await user.type(messageBox(), 'Hello{Enter}');
+    await waitFor(() => expect(screen.getByRole('status').textContent).toBe('Hi'));
+
+    await user.keyboard('{Escape}');
+    expect(screen.getByRole('status').textContent).toBe('');
+  });
+});
+
+describe('AIChat reduced motion', () => {
+  const openAndAsk = async () => {
+    stubFetch(() => jsonReply('Hi'));
+    const user = userEvent.setup();
+    render(<AIChat stream={false} />);
+    await user.click(launcher());
+    await user.type(messageBox(), 'Hello{Enter}');
+    await waitFor(() => expect(screen.getByRole('status').textContent).toBe('Hi'));
+  };
+
+  // The window's first frame, before any animation has run
+  const firstFrame = () => {
+    stubFetch(() => jsonReply('Hi'));
+    render(<AIChat openOnLoad />);
+    return screen.getByRole('dialog').style;
+  };
+
+  it('slides the window in and scrolls smoothly by default', async () => {
+    expect(firstFrame().transform).toBe('translateY(20px)');
+    cleanup();
+
+    await openAndAsk();
+    expect(Element.prototype.scrollIntoView).toHaveBeenLastCalledWith({ behavior: 'smooth' });
+  });
+
+  it('only fades the window in and jumps to new messages', async () => {
+    reducedMotion.set(true);
+
+    const style = firstFrame();
+    expect(style.opacity).toBe('0');
+    expect(style.transform).toBe('');
+    cleanup();
+
+    await openAndAsk();
+    expect(Element.prototype.scrollIntoView).toHaveBeenLastCalledWith({ behavior: 'auto' });
+  });
+});
+
+describe('AIChat accessibility audit', () => {
+  const contactReply = () =>
+    Promise.resolve(
+      Response.json({
+        response: 'Happy to pass that on. Leave your details below.',
+        action: { type: 'contact_form', intent: 'hire' },
+      })
+    );
+
+  const openContactForm = async () => {
+    const user = userEvent.setup();
+    render(<AIChat stream={false} />);
+    await user.click(launcher());
+    await user.type(messageBox(), 'Is she available for hire?{Enter}');
+    return { user, form: await screen.findByRole('form', { name: strings.contactForm }) };
+  };
+
+  it('finds no violations in the open dialog', async () => {
+    stubFetch(() => jsonReply('She built **Satori 2.0**, see [the case study](https://example.com).'));
+    const user = userEvent.setup();
+    render(<AIChat stream={false} />);
+    await user.click(launcher());
+    await user.type(messageBox(), 'What did she build?{Enter}');
+    await waitFor(() => expect(screen.getByRole('status').textContent).not.toBe(strings.replying));
+
+    await expectNoAxeViolations(screen.getByRole('dialog', { name: strings.title }));
+  });
+
+  it('finds no violations in the inline contact form', async () => {
+    stubFetch(contactReply);
+    const { form } = await openContactForm();
+
+    await expectNoAxeViolations(form);
+    await expectNoAxeViolations(screen.getByRole('dialog', { name: strings.title }));
+  });
+
+  it('finds no violations in the contact form once it shows field errors', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn((input: RequestInfo | URL, init?: RequestInit) => {
+        if (init?.method !== 'POST') return Promise.resolve(new Response(null, { status: 404 }));
+        if (!String(input).includes('contact')) return contactReply();
+        return Promise.resolve(
+          Response.json(
+            {
+              ok: false,
+              error: 'invalid',
+              response: 'Check the form.',
+              fields: { email: 'Enter a valid email.' },
+            },
+            { status: 400 }
+          )
+        );
+      })
+    );
+    const { user, form } = await openContactForm();
+
+    await user.click(screen.getByRole('button', { name: strings.contactSubmit }));
+    await screen.findByText('Enter a valid email.');
+
+    await expectNoAxeViolations(form);
+  });
+});
@@ -1,148 +1,742 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
-import { AnimatePresence, motion } from 'motion/react';
-import { MessageCircle, X, Send, Loader2 } from 'lucide-react';
+import {
+  useState,
+  useRef,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useSyncExternalStore,
+  type ReactNode,
+  type Ref,
+} from 'react';
+import { AnimatePresence, motion, useReducedMotion } from 'motion/react';
+import {
+  MessageCircle,
+  X,
+  Send,
+  Loader2,
+  Square,
+  FileText,
+  RotateCcw,
+  Sparkles,
+  CircleHelp,
+  Bot,
+} from 'lucide-react';
+import type {
+  ChatAction,
+  ChatErrorResponse,
+  ChatIntro,
+  ChatSessionResponse,
+  Citation,
+  StreamEvent,
+} from '../lib/chat/types';
+import {
+  DEFAULT_LANGUAGE,
+  isLanguage,
+  type Language,
+  type LanguagePreference,
+} from '../lib/i18n';
+import { WIDGET_STRINGS, type WidgetStrings } from '../lib/i18n/strings';
+import type { FocusMode } from '../lib/retrieval/focus';
+import {
+  DEFAULT_SIZE,
+  themeStyle,
+  type ChatPosition,
+  type ChatSize,
+  type ChatTheme,
+  type LauncherIcon,
+} from './chat-theme';
+import { ContactForm } from './ContactForm';
+import { Markdown } from './Markdown';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
+  citations?: Citation[];
+  suggestions?: string[];
+  action?: ChatAction;
+  /** A failed or degraded reply; the widget offers to ask again. */
+  retryable?: boolean;
 }
 
-type AIChatProps = {
+export type AIChatProps = {
   endpoint?: string;
+  /** Where the contact form posts; defaults to /api/contact next to `endpoint` */
+  contactEndpoint?: string;
+  /** Render the reply as it is generated. Set to false for the plain JSON contract. */
+  stream?: boolean;
+  /** Project ID → case-study URL. Source chips for these projects open the page. */
+  caseStudyUrls?: Record<string, string>;
+  /** Header copy; defaults to the built-in strings for the current language */
+  title?: string;
+  subtitle?: string;
+  placeholder?: string;
+  /** Shown before the first message instead of the persona greeting */
+  greeting?: string;
+  /** Empty-state prompts; replace the ones built from the knowledge base */
+  starters?: string[];
+  /** Colors (as CSS variables), light/dark/auto and font */
+  theme?: ChatTheme;
+  position?: ChatPosition;
+  size?: ChatSize;
+  /** A built-in icon name or your own element */
+  launcherIcon?: LauncherIcon | ReactNode;
+  /** Text next to the launcher icon, e.g. "Ask my portfolio" */
+  launcherLabel?: string;
+  /** Image shown in the header */
+  avatarUrl?: string;
+  /** Open the window when the page loads, until the visitor closes it in this tab */
+  openOnLoad?: boolean;
+  /**
+   * 'en' or 'es' fixes the language of the UI and the answers. 'auto' answers
+   * in the visitor's language and switches the UI to match.
+   */
+  language?: LanguagePreference;
+  /**
+   * Project ID of the case study page the widget is on. Answers, the greeting
+   * and the starters stay on it until the visitor asks about other work.
+   */
+  focusProject?: string;
+  /** 'restrict' (default) searches only that project; 'boost' ranks it first */
+  focusMode?: FocusMode;
+  /** Called when the window opens, and after the close animation has finished. */
+  onOpenChange?: (open: boolean) => void;
+  ref?: Ref<AIChatHandle>;
 };
 
-export function AIChat({ endpoint = '/api/chat' }: AIChatProps) {
+/** Imperative controls, used by the embeddable widget's JS API */
+export type AIChatHandle = {
+  open: () => void;
+  close: () => void;
+  /** Open the window and ask `text` as if the visitor had typed it */
+  send: (text: string) => void;
+};
+
+// The server-issued session ID is kept so the conversation survives reloads
+// and moving between pages. Storage can be blocked (private mode, iframes),
+// in which case the chat simply starts fresh.
+function readStoredSession(key: string): string | null {
+  try {
+    return window.localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function writeStoredSession(key: string, id: string | null) {
+  try {
+    if (id) window.localStorage.setItem(key, id);
+    else window.localStorage.removeItem(key);
+  } catch {
+    // Not persisted; the session still works until the page closes
+  }
+}
+
+// Set when the visitor closes the window, so openOnLoad doesn't reopen it on
+// every page of the portfolio
+function wasDismissed(key: string): boolean {
+  try {
+    return window.sessionStorage.getItem(key) === '1';
+  } catch {
+    return false;
+  }
+}
+
+function rememberDismissed(key: string) {
+  try {
+    window.sessionStorage.setItem(key, '1');
+  } catch {
+    // openOnLoad opens it again on the next page
+  }
+}
+
+const LAUNCHER_ICON_COMPONENTS = {
+  chat: MessageCircle,
+  sparkles: Sparkles,
+  help: CircleHelp,
+  bot: Bot,
+} satisfies Record<LauncherIcon, unknown>;
+
+function isLauncherIcon(icon: unknown): icon is LauncherIcon {
+  return typeof icon === 'string' && icon in LAUNCHER_ICON_COMPONENTS;
+}
+
+// Follows the system's light/dark setting; light during server rendering
+const darkQuery = '(prefers-color-scheme: dark)';
+function subscribeToColorScheme(onChange: () => void) {
+  const media = window.matchMedia(darkQuery);
+  media.addEventListener('change', onChange);
+  return () => media.removeEventListener('change', onChange);
+}
+
+function usePrefersDark(): boolean {
+  return useSyncExternalStore(
+    subscribeToColorScheme,
+    () => window.matchMedia(darkQuery).matches,
+    () => false
+  );
+}
+
+// "/api/chat" → "/api/contact"
+const defaultContactUrl = (endpoint: string) =>
+  endpoint.replace(/\/chat\/?(?=$|\?)/, '/contact');
+
+const sessionUrl = (endpoint: string, id: string) =>
+  `${endpoint.replace(/\/+$/, '')}/session?id=${encodeURIComponent(id)}`;
+
+// The intro is localized server-side; 'auto' leaves it to Accept-Language
+function introUrl(
+  endpoint: string,
+  language: LanguagePreference,
+  focusProject: string | undefined
+): string {
+  const params = new URLSearchParams();
+  if (language !== 'auto') params.set('language', language);
+  if (focusProject) params.set('focusProject', focusProject);
+
+  const query = params.toString();
+  return query ? `${endpoint}${endpoint.includes('?') ? '&' : '?'}${query}` : endpoint;
+}
+
+// Everything Tab can reach inside the chat window
+const FOCUSABLE =
+  'a[href], button:not([disabled]), textarea:not([disabled]), input:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// What the live region reads out: the answer without Markdown syntax
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/[*_`#>]+/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Turn a rejected request into something a visitor can act on, and whether
+// asking again could help
+async function friendlyError(
+  res: Response,
+  strings: WidgetStrings
+): Promise<{ message: string; retryable: boolean }> {
+  const data = (await res.json().catch(() => null)) as ChatErrorResponse | null;
+  const retryable = data?.retryable ?? res.status >= 500;
+
+  switch (data?.error) {
+    case 'rate_limited': {
+      const wait = data.retryAfterSeconds ?? Number(res.headers.get('Retry-After'));
+      return { message: strings.rateLimited(wait > 0 ? wait : null), retryable: true };
+    }
+    case 'model_busy':
+      return { message: strings.modelBusy, retryable };
+    case 'model_rejected':
+      return { message: strings.modelRejected, retryable };
+    case 'origin_not_allowed':
+      return { message: strings.originNotAllowed, retryable: false };
+    case 'payload_too_large':
+      return { message: data.response, retryable: false };
+    case 'unknown_project':
+      // A typo in the page's focusProject; worth spotting in the console
+      console.warn(`[AIChat] ${data.response}`);
+      return { message: strings.error, retryable: false };
+    default:
+      return { message: strings.error, retryable };
+  }
+}
+
+export function AIChat({
+  endpoint = '/api/chat',
+  contactEndpoint,
+  stream = true,
+  caseStudyUrls = {},
+  title,
+  subtitle,
+  placeholder,
+  greeting,
+  starters,
+  theme = {},
+  position = 'bottom-right',
+  size = {},
+  launcherIcon = 'chat',
+  launcherLabel,
+  avatarUrl,
+  openOnLoad = false,
+  language = 'auto',
+  focusProject,
+  focusMode,
+  onOpenChange,
+  ref,
+}: AIChatProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [intro, setIntro] = useState<ChatIntro | null>(null);
+  // Language of the latest intro or answer, for the UI in 'auto' mode
+  const [replyLanguage, setReplyLanguage] = useState<Language | null>(null);
+  // Read out by the live region: progress, then the finished answer
+  const [announcement, setAnnouncement] = useState('');
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
+  const dialogRef = useRef<HTMLDivElement | null>(null);
+  const inputRef = useRef<HTMLTextAreaElement | null>(null);
+  const launcherRef = useRef<HTMLButtonElement | null>(null);
+  // Where focus was before the window opened, so closing can put it back
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+  // Opening by hand moves focus into the window; openOnLoad doesn't
+  const focusOnOpenRef = useRef(false);
+  const reduceMotion = useReducedMotion();
+  const prefersDark = usePrefersDark();
+  const titleId = useId();
+  const subtitleId = useId();
+  const hintId = useId();
+  const abortRef = useRef<AbortController | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  // True once the server keeps the history, so it isn't re-sent every turn
+  const serverHistoryRef = useRef(false);
+  // Bumped by "new chat" so a reply that is still arriving can't bring back
+  // the old conversation
+  const conversationRef = useRef(0);
+  const storageKey = `portfolio-chat:session:${endpoint}`;
+  const dismissedKey = `portfolio-chat:dismissed:${endpoint}`;
+
+  const dark =
+    theme.colorScheme === 'dark' || (theme.colorScheme !== 'light' && prefersDark);
+  const side = position === 'bottom-left' ? 'left-6' : 'right-6';
+
+  const strings =
+    WIDGET_STRINGS[language === 'auto' ? replyLanguage ?? DEFAULT_LANGUAGE : language];
+  const followLanguage = (value: unknown) => {
+    if (isLanguage(value)) setReplyLanguage(value);
+  };
+
+  // Abort any in-flight reply when the widget unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Restore the previous conversation, if the server still has it
+  useEffect(() => {
+    const storedId = readStoredSession(storageKey);
+    if (!storedId) return;
+
+    const controller = new AbortController();
+    fetch(sessionUrl(endpoint, storedId), { signal: controller.signal })
+      .then((res) => {
+        if (res.status === 404) writeStoredSession(storageKey, null);
+        return res.ok ? res.json() : null;
+      })
+      .then((data: ChatSessionResponse | null) => {
+        if (!data?.sessionId || !Array.isArray(data.messages)) return;
+        sessionIdRef.current = data.sessionId;
+        serverHistoryRef.current = true;
+        setMessages((current) => (current.length ? current : data.messages));
+      })
+      .catch(() => {
+        // Start fresh
+      });
+
+    return () => controller.abort();
+  }, [endpoint, storageKey]);
+
+  // Greeting and starter prompts for the empty state, fetched on first open
+  const introRequested = useRef(false);
+  useEffect(() => {
+    if (!isOpen || introRequested.current) return;
+    introRequested.current = true;
+
+    fetch(introUrl(endpoint, language, focusProject), { headers: { Accept: 'application/json' } })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: ChatIntro | null) => {
+        if (!data || !Array.isArray(data.starters)) return;
+        setIntro(data);
+        if (isLanguage(data.language)) setReplyLanguage(data.language);
+      })
+      .catch(() => {
+        // Keep the generic hint
+      });
+  }, [isOpen, endpoint, language, focusProject]);
 
   // Auto-scroll when new messages arrive
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+    messagesEndRef.current?.scrollIntoView({
+      behavior: reduceMotion ? 'auto' : 'smooth',
+    });
+  }, [messages, reduceMotion]);
+
+  // Move focus into the window when the visitor opens it
+  useEffect(() => {
+    if (!isOpen || !focusOnOpenRef.current) return;
+    focusOnOpenRef.current = false;
+    inputRef.current?.focus();
+  }, [isOpen]);
 
-  const sendMessage = async () => {
-    if (!input.trim() || isLoading) return;
+  // Open on load, unless the visitor already closed it in this tab
+  const openedOnLoad = useRef(false);
+  useEffect(() => {
+    if (!openOnLoad || openedOnLoad.current || wasDismissed(dismissedKey)) return;
+    openedOnLoad.current = true;
+    setIsOpen(true);
+    onOpenChange?.(true);
+  }, [openOnLoad, dismissedKey, onOpenChange]);
+
+  // `history` is the conversation before this message; Retry passes the one
+  // before the failed reply
+  const sendMessage = async (text: string = input, history: Message[] = messages) => {
+    if (!text.trim() || isLoading) return;
 
-    const userMessage = input.trim();
+    const userMessage = text.trim();
     setInput('');
 
     const newMessages: Message[] = [
-      ...messages,
+      ...history,
       { role: 'user', content: userMessage },
     ];
     setMessages(newMessages);
     setIsLoading(true);
+    setAnnouncement(strings.replying);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    // Replace (or append) the assistant bubble that follows `newMessages`
+    const showReply = (
+      content: string,
+      citations?: Citation[],
+      suggestions?: string[],
+      action?: ChatAction,
+      retryable?: boolean
+    ) =>
+      setMessages([
+        ...newMessages,
+        { role: 'assistant', content, citations, suggestions, action, retryable },
+      ]);
+
+    let partial = '';
+    // A stream that fails midway says whether asking again could help
+    let retryable = true;
+    const conversation = conversationRef.current;
 
     try {
       const res = await fetch(endpoint, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: stream ? 'text/event-stream' : 'application/json',
+        },
         body: JSON.stringify({
           message: userMessage,
-          conversationHistory: newMessages,
+          // Only needed while the server isn't keeping the conversation
+          ...(!serverHistoryRef.current && {
+            conversationHistory: history.map(({ role, content }) => ({
+              role,
+              content,
+            })),
+          }),
+          stream,
+          sessionId: sessionIdRef.current,
+          startSession: true,
+          language,
+          focusProject,
+          focusMode,
         }),
+        signal: controller.signal,
       });
 
+      const issuedSession = res.headers.get('X-Chat-Session');
+      if (issuedSession) {
+        sessionIdRef.current = issuedSession;
+        serverHistoryRef.current = true;
+        writeStoredSession(storageKey, issuedSession);
+      }
+
       if (!res.ok) {
-        throw new Error('Request failed');
+        const { message, retryable } = await friendlyError(res, strings);
+        showReply(message, undefined, undefined, undefined, retryable);
+        setAnnouncement(message);
+        return;
       }
 
-      const data = await res.json();
+      const isEventStream = (res.headers.get('Content-Type') ?? '').includes(
+        'text/event-stream'
+      );
 
-      setMessages([
-        ...newMessages,
-        {
-          role: 'assistant',
-          content: data.response ?? 'No response received.',
-        },
-      ]);
+      if (!isEventStream || !res.body) {
+        const data = await res.json();
+        followLanguage(data.language);
+        const reply = data.response ?? strings.noResponse;
+        showReply(reply, data.citations, data.suggestions, data.action, data.degraded);
+        setAnnouncement(plainText(reply));
+        return;
+      }
+
+      for await (const event of readEventStream(res.body)) {
+        if (event.type === 'delta') {
+          partial += event.content;
+          showReply(partial);
+        } else if (event.type === 'done') {
+          followLanguage(event.language);
+          showReply(
+            event.response,
+            event.citations,
+            event.suggestions,
+            event.action,
+            event.degraded
+          );
+          setAnnouncement(plainText(event.response));
+        } else {
+          retryable = event.retryable ?? true;
+          throw new Error(event.message);
+        }
+      }
     } catch (err) {
+      if (controller.signal.aborted) {
+        if (conversationRef.current !== conversation) return;
+        // Stopped by the visitor: keep whatever already arrived
+        if (!partial.trim()) setMessages(newMessages);
+        setAnnouncement(plainText(partial));
+        return;
+      }
+
       console.error('Chat error:', err);
-      setMessages([
-        ...newMessages,
-        {
-          role: 'assistant',
-          content:
-            "Sorry, something went wrong on my end. Mind trying that again in a bit?",
-        },
-      ]);
+      showReply(strings.error, undefined, undefined, undefined, retryable);
+      setAnnouncement(strings.error);
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
+  const openChat = () => {
+    if (!isOpen && document.activeElement instanceof HTMLElement) {
+      returnFocusRef.current = document.activeElement;
+    }
+    focusOnOpenRef.current = true;
+    setIsOpen(true);
+    onOpenChange?.(true);
+  };
+
+  const closeChat = () => {
+    setIsOpen(false);
+    rememberDismissed(dismissedKey);
+    // Only take focus back if the visitor was still in the window
+    if (!dialogRef.current?.contains(document.activeElement)) return;
+
+    const previous = returnFocusRef.current;
+    const canReturn = previous?.isConnected && previous !== document.body;
+    (canReturn ? previous : launcherRef.current)?.focus();
+  };
+
+  useImperativeHandle(ref, () => ({
+    open: openChat,
+    close: closeChat,
+    send: (text: string) => {
+      openChat();
+      sendMessage(text);
+    },
+  }));
+
+  const stopMessage = () => {
+    abortRef.current?.abort();
+  };
+
+  // Ask the question behind a failed or degraded reply again, in its place
+  const retryMessage = (index: number) => {
+    const question = messages[index - 1];
+    if (question?.role !== 'user') return;
+    sendMessage(question.content, messages.slice(0, index - 1));
+  };
+
+  // Forget the conversation here and on the server
+  const startNewChat = () => {
+    conversationRef.current += 1;
+    abortRef.current?.abort();
+
+    const id = sessionIdRef.current;
+    if (id) {
+      fetch(sessionUrl(endpoint, id), { method: 'DELETE', keepalive: true }).catch(
+        () => {
+          // It expires on its own
+        }
+      );
+    }
+
+    sessionIdRef.current = null;
+    serverHistoryRef.current = false;
+    writeStoredSession(storageKey, null);
+    setMessages([]);
+    setInput('');
+  };
+
+  // Source chips open the case study when one is configured, otherwise ask
+  // a follow-up about that source
+  const openCitation = (citation: Citation) => {
+    const url = caseStudyUrls[citation.project];
+    if (url) {
+      window.open(url, '_blank', 'noopener,noreferrer');
+      return;
+    }
+    sendMessage(strings.askAboutSource(citation.title ?? citation.project));
+  };
+
+  // Enter sends, Shift+Enter starts a new line (and IME composition keeps Enter)
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
       e.preventDefault();
       sendMessage();
     }
   };
 
+  // --- Dialog keyboard handling: Escape closes, Tab stays inside ---
+  const handleDialogKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'Escape') {
+      e.stopPropagation();
+      closeChat();
+      return;
+    }
+    if (e.key !== 'Tab' || !dialogRef.current) return;
+
+    const focusable = Array.from(
+      dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE)
+    );
+    if (!focusable.length) return;
+
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && document.activeElement === first) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  const emptyGreeting = greeting ?? intro?.greeting;
+  const emptyStarters = starters ?? intro?.starters ?? [];
+
+  const LauncherIconComponent = isLauncherIcon(launcherIcon)
+    ? LAUNCHER_ICON_COMPONENTS[launcherIcon]
+    : null;
+
   return (
-    <>
+    <div className="portfolio-chat" style={themeStyle(theme, dark)}>
       {/* Floating button */}
       <motion.button
+        ref={launcherRef}
         type="button"
-        onClick={() => setIsOpen(true)}
-        className="fixed bottom-6 right-6 h-14 w-14 rounded-full bg-black text-white shadow-lg flex items-center justify-center z-50 focus:outline-none focus:ring-2 focus:ring-white/60"
-        whileHover={{ scale: 1.05 }}
-        whileTap={{ scale: 0.95 }}
-        aria-label="Open portfolio chat"
+        onClick={openChat}
+        className={`fixed bottom-6 ${side} h-14 ${
+          launcherLabel ? 'max-w-[calc(100vw-3rem)] px-5 gap-2' : 'w-14'
+        } rounded-full bg-(--pc-accent) text-(--pc-accent-text) shadow-lg flex items-center justify-center z-50 focus:outline-none focus-visible:ring-2 focus-visible:ring-(--pc-accent) focus-visible:ring-offset-2`}
+        whileHover={reduceMotion ? undefined : { scale: 1.05 }}
+        whileTap={reduceMotion ? undefined : { scale: 0.95 }}
+        aria-label={launcherLabel ?? strings.openChat}
+        aria-haspopup="dialog"
+        aria-expanded={isOpen}
       >
-        <MessageCircle className="h-6 w-6" />
+        {LauncherIconComponent ? (
+          <LauncherIconComponent className="h-6 w-6 shrink-0" />
+        ) : (
+          launcherIcon
+        )}
+        {launcherLabel && (
+          <span className="truncate text-sm font-medium">{launcherLabel}</span>
+        )}
       </motion.button>
 
+      {/* Screen readers hear progress and finished answers, not every streamed word */}
+      <div className="sr-only" role="status" aria-live="polite" aria-atomic="true">
+        {isOpen ? announcement : ''}
+      </div>
+
       {/* Chat window */}
-      <AnimatePresence>
+      <AnimatePresence onExitComplete={() => onOpenChange?.(false)}>
         {isOpen && (
           <motion.div
-            initial={{ opacity: 0, y: 20 }}
+            ref={dialogRef}
+            role="dialog"
+            aria-modal="true"
+            aria-labelledby={titleId}
+            aria-describedby={(subtitle ?? strings.subtitle) ? subtitleId : undefined}
+            onKeyDown={handleDialogKeyDown}
+            initial={reduceMotion ? { opacity: 0 } : { opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
-            exit={{ opacity: 0, y: 20 }}
-            transition={{ duration: 0.3 }}
-            className="fixed bottom-6 right-6 w-96 max-w-[95vw] h-[520px] bg-white rounded-3xl shadow-2xl z-50 flex flex-col overflow-hidden border border-neutral-200"
+            exit={reduceMotion ? { opacity: 0 } : { opacity: 0, y: 20 }}
+            transition={{ duration: reduceMotion ? 0 : 0.3 }}
+            style={{
+              width: size.width ?? DEFAULT_SIZE.width,
+              height: size.height ?? DEFAULT_SIZE.height,
+            }}
+            className={`fixed bottom-6 ${side} max-w-[95vw] max-h-[calc(100dvh-3rem)] bg-(--pc-surface) text-(--pc-text) rounded-3xl shadow-2xl z-50 flex flex-col overflow-hidden border border-(--pc-border)`}
           >
             {/* Header */}
-            <div className="bg-black text-white px-5 py-4 flex items-start justify-between gap-4">
-              <div>
-                <h3 className="font-semibold text-sm">
-                  Ask my portfolio anything
-                </h3>
-                <p className="text-xs text-neutral-300">
-                  Projects, process, tools, background.
-                </p>
+            <div className="bg-(--pc-accent) text-(--pc-accent-text) px-5 py-4 flex items-start justify-between gap-4">
+              {avatarUrl && (
+                // A background rather than next/image: avatars can live on any
+                // host, and next/image only loads from hosts listed in the config.
+                // JSON.stringify quotes the URL so it can't break out of url()
+                <span
+                  aria-hidden="true"
+                  className="h-9 w-9 shrink-0 rounded-full bg-cover bg-center"
+                  style={{ backgroundImage: `url(${JSON.stringify(avatarUrl)})` }}
+                />
+              )}
+              <div className="flex-1">
+                <h2 id={titleId} className="font-semibold text-sm">
+                  {title ?? strings.title}
+                </h2>
+                {(subtitle ?? strings.subtitle) && (
+                  <p id={subtitleId} className="text-xs opacity-75">
+                    {subtitle ?? strings.subtitle}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                {messages.length > 0 && (
+                  <button
+                    type="button"
+                    onClick={startNewChat}
+                    className="rounded hover:opacity-70 transition-opacity motion-reduce:transition-none focus:outline-none focus-visible:ring-2 focus-visible:ring-(--pc-accent-text)"
+                    aria-label={strings.newChat}
+                    title={strings.newChatHint}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={closeChat}
+                  className="rounded hover:opacity-70 transition-opacity motion-reduce:transition-none focus:outline-none focus-visible:ring-2 focus-visible:ring-(--pc-accent-text)"
+                  aria-label={strings.closeChat}
+                >
+                  <X className="h-4 w-4" />
+                </button>
               </div>
-              <button
-                type="button"
-                onClick={() => setIsOpen(false)}
-                className="hover:opacity-70 transition-opacity"
-                aria-label="Close chat"
-              >
-                <X className="h-4 w-4" />
-              </button>
             </div>
 
             {/* Messages */}
-            <div className="flex-1 overflow-y-auto px-4 py-4 space-y-3 bg-neutral-50/60">
-              {messages.length === 0 && (
-                <div className="text-center text-neutral-500 text-xs mt-6 px-3">
-                  <p>
-                    Try things like:{' '}
-                    <span className="font-medium">
-                      “How do you run usability tests?”
-                    </span>{' '}
-                    or{' '}
-                    <span className="font-medium">
-                      “Tell me about your favourite case study.”
-                    </span>
-                  </p>
-                </div>
-              )}
+            <div
+              className="flex-1 overflow-y-auto px-4 py-4 space-y-3 bg-(--pc-background)"
+              aria-busy={isLoading}
+            >
+              {messages.length === 0 &&
+                (emptyGreeting || emptyStarters.length ? (
+                  <div className="mt-2 space-y-3">
+                    {emptyGreeting && (
+                      <div className="max-w-[80%] rounded-2xl px-4 py-2 text-xs leading-relaxed bg-(--pc-surface) text-(--pc-text) border border-(--pc-border)">
+                        {emptyGreeting}
+                      </div>
+                    )}
+                    {emptyStarters.length > 0 && (
+                      <QuickReplies
+                        options={emptyStarters}
+                        label={strings.suggestions}
+                        onSelect={(text) => sendMessage(text)}
+                      />
+                    )}
+                  </div>
+                ) : (
+                  <div className="text-center text-(--pc-muted) text-xs mt-6 px-3">
+                    <p>{strings.emptyState}</p>
+                  </div>
+                ))}
 
               {messages.map((msg, i) => (
                 <div
@@ -151,22 +745,88 @@ export function AIChat({ endpoint = '/api/chat' }: AIChatProps) {
                     msg.role === 'user' ? 'justify-end' : 'justify-start'
                   }`}
                 >
-                  <div
-                    className={`max-w-[80%] rounded-2xl px-4 py-2 text-xs leading-relaxed ${
-                      msg.role === 'user'
-                        ? 'bg-black text-white'
-                        : 'bg-white text-black border border-neutral-200'
-                    }`}
-                  >
-                    {msg.content}
+                  <div className="max-w-[80%] space-y-1.5">
+                    <div
+                      className={`rounded-2xl px-4 py-2 text-xs leading-relaxed ${
+                        msg.role === 'user'
+                          ? 'bg-(--pc-accent) text-(--pc-accent-text)'
+                          : 'bg-(--pc-surface) text-(--pc-text) border border-(--pc-border)'
+                      }`}
+                    >
+                      <span className="sr-only">
+                        {msg.role === 'user' ? strings.you : strings.assistant}{' '}
+                      </span>
+                      {msg.role === 'assistant' ? (
+                        <Markdown content={msg.content} />
+                      ) : (
+                        msg.content
+                      )}
+                    </div>
+
+                    {msg.citations && msg.citations.length > 0 && (
+                      <div
+                        role="group"
+                        className="flex flex-wrap gap-1"
+                        aria-label={strings.sources}
+                      >
+                        {msg.citations.map((citation) => (
+                          <button
+                            key={`${citation.project}-${citation.id}`}
+                            type="button"
+                            onClick={() => openCitation(citation)}
+                            disabled={isLoading}
+                            title={`${citation.project} · ${citation.type}`}
+                            className="inline-flex items-center gap-1 rounded-full border border-(--pc-border) bg-(--pc-surface) px-2 py-0.5 text-[10px] text-(--pc-muted) hover:border-(--pc-text) hover:text-(--pc-text) disabled:opacity-40"
+                          >
+                            <FileText className="h-3 w-3" />
+                            {citation.title ?? citation.project}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    {msg.action?.type === 'contact_form' && (
+                      <ContactForm
+                        endpoint={contactEndpoint ?? defaultContactUrl(endpoint)}
+                        intent={msg.action.intent}
+                        strings={strings}
+                        language={replyLanguage ?? DEFAULT_LANGUAGE}
+                        sessionId={sessionIdRef.current}
+                        transcript={messages
+                          .slice(0, i + 1)
+                          .map(({ role, content }) => ({ role, content }))}
+                      />
+                    )}
+
+                    {msg.retryable && i === messages.length - 1 && !isLoading && (
+                      <button
+                        type="button"
+                        onClick={() => retryMessage(i)}
+                        className="inline-flex items-center gap-1 rounded-full border border-(--pc-border) bg-(--pc-surface) px-3 py-1 text-[11px] text-(--pc-text) hover:border-(--pc-accent) focus:outline-none focus-visible:ring-2 focus-visible:ring-(--pc-accent) focus-visible:ring-offset-1 transition-colors motion-reduce:transition-none"
+                      >
+                        <RotateCcw className="h-3 w-3" />
+                        {strings.retry}
+                      </button>
+                    )}
+
+                    {msg.suggestions &&
+                      msg.suggestions.length > 0 &&
+                      i === messages.length - 1 &&
+                      !isLoading && (
+                        <QuickReplies
+                          options={msg.suggestions}
+                          label={strings.suggestions}
+                          onSelect={(text) => sendMessage(text)}
+                        />
+                      )}
                   </div>
                 </div>
               ))}
 
-              {isLoading && (
+              {isLoading && messages[messages.length - 1]?.role !== 'assistant' && (
                 <div className="flex justify-start">
-                  <div className="bg-white border border-neutral-200 rounded-2xl px-3 py-2">
-                    <Loader2 className="h-4 w-4 animate-spin text-neutral-500" />
+                  <div className="bg-(--pc-surface) border border-(--pc-border) rounded-2xl px-3 py-2">
+                    <Loader2 className="h-4 w-4 motion-safe:animate-spin text-(--pc-muted)" />
                   </div>
                 </div>
               )}
@@ -175,26 +835,44 @@ export function AIChat({ endpoint = '/api/chat' }: AIChatProps) {
             </div>
 
             {/* Input */}
-            <div className="border-t border-neutral-200 px-3 py-3 bg-white">
-              <div className="flex items-center gap-2">
-                <input
-                  type="text"
+            <div className="border-t border-(--pc-border) px-3 py-3 bg-(--pc-surface)">
+              <div className="flex items-end gap-2">
+                {/* Stays enabled while an answer streams so focus isn't lost;
+                    sendMessage ignores Enter until the answer is done */}
+                <textarea
+                  ref={inputRef}
+                  rows={1}
                   value={input}
                   onChange={(e) => setInput(e.target.value)}
                   onKeyDown={handleKeyDown}
-                  placeholder="Ask a question about the work…"
-                  className="flex-1 rounded-full border border-neutral-200 px-4 py-2 text-xs focus:outline-none focus:border-black"
-                  disabled={isLoading}
+                  placeholder={placeholder ?? strings.placeholder}
+                  aria-label={strings.messageLabel}
+                  aria-describedby={hintId}
+                  className="flex-1 resize-none field-sizing-content max-h-28 rounded-2xl border border-(--pc-border) bg-transparent px-4 py-2 text-xs placeholder:text-(--pc-muted) focus:outline-none focus:border-(--pc-text)"
                 />
-                <button
-                  type="button"
-                  onClick={sendMessage}
-                  disabled={!input.trim() || isLoading}
-                  className="h-9 w-9 rounded-full bg-black text-white flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed"
-                  aria-label="Send message"
-                >
-                  <Send className="h-4 w-4" />
-                </button>
+                <span id={hintId} className="sr-only">
+                  {strings.keyboardHint}
+                </span>
+                {isLoading ? (
+                  <button
+                    type="button"
+                    onClick={stopMessage}
+                    className="h-9 w-9 shrink-0 rounded-full bg-(--pc-accent) text-(--pc-accent-text) flex items-center justify-center focus:outline-none focus-visible:ring-2 focus-visible:ring-(--pc-accent) focus-visible:ring-offset-2"
+                    aria-label={strings.stop}
+                  >
+                    <Square className="h-3.5 w-3.5 fill-current" />
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => sendMessage()}
+                    disabled={!input.trim()}
+                    className="h-9 w-9 shrink-0 rounded-full bg-(--pc-accent) text-(--pc-accent-text) flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed focus:outline-none focus-visible:ring-2 focus-visible:ring-(--pc-accent) focus-visible:ring-offset-2"
+                    aria-label={strings.send}
+                  >
+                    <Send className="h-4 w-4" />
+                  </button>
+                )}
               </div>
             </div>
 
@@ -207,6 +885,68 @@ export function AIChat({ endpoint = '/api/chat' }: AIChatProps) {
           </motion.div>
         )}
       </AnimatePresence>
-    </>
+    </div>
   );
-}
\ No newline at end of file
+}
+
+// --- One-click replies: starter prompts and follow-up suggestions ---
+function QuickReplies({
+  options,
+  label,
+  onSelect,
+}: {
+  options: string[];
+  label: string;
+  onSelect: (text: string) => void;
+}) {
+  return (
+    <div role="group" className="flex flex-wrap gap-1.5" aria-label={label}>
+      {options.map((option) => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => onSelect(option)}
+          className="rounded-full border border-(--pc-accent) bg-(--pc-surface) px-3 py-1 text-[11px] text-(--pc-text) hover:bg-(--pc-accent) hover:text-(--pc-accent-text) focus:outline-none focus-visible:ring-2 focus-visible:ring-(--pc-accent) focus-visible:ring-offset-1 transition-colors motion-reduce:transition-none"
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// --- Parse the route's server-sent events into typed payloads ---
+async function* readEventStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<StreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const data = rawEvent
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+
+        if (data) yield JSON.parse(data) as StreamEvent;
+
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useId, useRef, useState, type FormEvent } from 'react';
+import { Loader2 } from 'lucide-react';
+import type {
+  ContactErrorResponse,
+  ContactField,
+  ContactIntent,
+  ContactRequest,
+  ContactResponse,
+  TranscriptMessage,
+} from '../lib/contact/types';
+import type { Language } from '../lib/i18n';
+import type { WidgetStrings } from '../lib/i18n/strings';
+
+type ContactFormProps = {
+  endpoint: string;
+  intent: ContactIntent;
+  strings: WidgetStrings;
+  language: Language;
+  sessionId: string | null;
+  /** Sent along when the server has no stored session */
+  transcript: TranscriptMessage[];
+};
+
+const inputClass =
+  'w-full rounded-xl border border-(--pc-border) bg-transparent px-3 py-1.5 text-xs text-(--pc-text) focus:outline-none focus:border-(--pc-text) aria-invalid:border-red-500';
+
+// --- Inline lead form: posts to /api/contact with the chat as context ---
+export function ContactForm({
+  endpoint,
+  intent,
+  strings,
+  language,
+  sessionId,
+  transcript,
+}: ContactFormProps) {
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [notice, setNotice] = useState('');
+  const [errors, setErrors] = useState<Partial<Record<ContactField, string>>>({});
+  // Forms sent within a moment of appearing are dropped as bots
+  const [shownAt] = useState(() => Date.now());
+  const formRef = useRef<HTMLFormElement | null>(null);
+  const id = useId();
+
+  const submit = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (status !== 'idle') return;
+
+    const data = new FormData(e.currentTarget);
+    const value = (name: string) => String(data.get(name) ?? '');
+    const request: ContactRequest = {
+      name: value('name'),
+      email: value('email'),
+      company: value('company'),
+      message: value('message'),
+      intent,
+      sessionId,
+      transcript,
+      language,
+      website: value('website'),
+      elapsedMs: Date.now() - shownAt,
+    };
+
+    setStatus('sending');
+    setNotice('');
+    setErrors({});
+
+    try {
+      const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+      const body = (await res.json().catch(() => null)) as
+        | ContactResponse
+        | ContactErrorResponse
+        | null;
+
+      if (body?.ok) {
+        setStatus('sent');
+        setNotice(body.response);
+        return;
+      }
+
+      setStatus('idle');
+      if (body?.error === 'invalid' && body.fields) {
+        setErrors(body.fields);
+        setNotice(strings.contactInvalid);
+        const firstInvalid = Object.keys(body.fields)[0];
+        formRef.current
+          ?.querySelector<HTMLElement>(`[name="${firstInvalid}"]`)
+          ?.focus();
+      } else {
+        setNotice(body?.error === 'rate_limited' ? body.response : strings.contactError);
+      }
+    } catch {
+      setStatus('idle');
+      setNotice(strings.contactError);
+    }
+  };
+
+  if (status === 'sent') {
+    return (
+      <p
+        role="status"
+        className="rounded-2xl border border-(--pc-border) bg-(--pc-surface) px-4 py-2 text-xs text-(--pc-text)"
+      >
+        {notice}
+      </p>
+    );
+  }
+
+  const fields: { name: ContactField; label: string; type?: string; required?: boolean }[] = [
+    { name: 'name', label: strings.contactName, required: true },
+    { name: 'email', label: strings.contactEmail, type: 'email', required: true },
+    { name: 'company', label: `${strings.contactCompany} (${strings.optional})` },
+  ];
+
+  return (
+    <form
+      ref={formRef}
+      onSubmit={submit}
+      aria-label={strings.contactForm}
+      noValidate
+      className="space-y-2 rounded-2xl border border-(--pc-border) bg-(--pc-surface) p-3 text-(--pc-text)"
+    >
+      {fields.map((field) => (
+        <div key={field.name} className="space-y-0.5">
+          <label htmlFor={`${id}-${field.name}`} className="text-[11px] font-medium">
+            {field.label}
+          </label>
+          <input
+            id={`${id}-${field.name}`}
+            name={field.name}
+            type={field.type ?? 'text'}
+            required={field.required}
+            autoComplete={field.name === 'company' ? 'organization' : field.name}
+            aria-invalid={Boolean(errors[field.name])}
+            aria-describedby={errors[field.name] ? `${id}-${field.name}-error` : undefined}
+            className={inputClass}
+          />
+          {errors[field.name] && (
+            <p id={`${id}-${field.name}-error`} className="text-[11px] text-red-600">
+              {errors[field.name]}
+            </p>
+          )}
+        </div>
+      ))}
+
+      <div className="space-y-0.5">
+        <label htmlFor={`${id}-message`} className="text-[11px] font-medium">
+          {strings.contactMessage}
+        </label>
+        <textarea
+          id={`${id}-message`}
+          name="message"
+          required
+          rows={3}
+          aria-invalid={Boolean(errors.message)}
+          aria-describedby={errors.message ? `${id}-message-error` : undefined}
+          className={`${inputClass} resize-none`}
+        />
+        {errors.message && (
+          <p id={`${id}-message-error`} className="text-[11px] text-red-600">
+            {errors.message}
+          </p>
+        )}
+      </div>
+
+      {/* Honeypot: hidden from people and assistive tech, tempting to bots */}
+      <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+        <label>
+          Website
+          <input name="website" type="text" tabIndex={-1} autoComplete="off" />
+        </label>
+      </div>
+
+      {notice && (
+        <p role="alert" className="text-[11px] text-red-600">
+          {notice}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={status === 'sending'}
+        className="inline-flex items-center gap-1.5 rounded-full bg-(--pc-accent) px-4 py-1.5 text-xs font-medium text-(--pc-accent-text) disabled:opacity-60 focus:outline-none focus-visible:ring-2 focus-visible:ring-(--pc-accent) focus-visible:ring-offset-1"
+      >
+        {status === 'sending' && <Loader2 className="h-3 w-3 motion-safe:animate-spin" />}
+        {status === 'sending' ? strings.contactSending : strings.contactSubmit}
+      </button>
+    </form>
+  );
+}
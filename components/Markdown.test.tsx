@@ -0,0 +1,94 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import { Markdown, safeHref } from './Markdown';
+
+const render = (content: string) => renderToStaticMarkup(<Markdown content={content} />);
+
+describe('safeHref', () => {
+  it('keeps absolute http(s) and mailto links', () => {
+    expect(safeHref('https://example.com/a?b=1')).toBe('https://example.com/a?b=1');
+    expect(safeHref('http://example.com')).toBe('http://example.com/');
+    expect(safeHref('mailto:hi@example.com')).toBe('mailto:hi@example.com');
+  });
+
+  it('drops javascript:, data:, relative and unparsable URLs', () => {
+    expect(safeHref('javascript:alert(1)')).toBeNull();
+    expect(safeHref('  JaVaScRiPt:alert(1)')).toBeNull();
+    expect(safeHref('data:text/html,<script>alert(1)</script>')).toBeNull();
+    expect(safeHref('/admin')).toBeNull();
+    expect(safeHref('../secrets')).toBeNull();
+    expect(safeHref('not a url')).toBeNull();
+  });
+});
+
+describe('Markdown links', () => {
+  it('renders safe links with a new-tab, no-referrer anchor', () => {
+    const html = render('See [the case study](https://example.com/satori).');
+    expect(html).toContain(
+      '<a href="https://example.com/satori" target="_blank" rel="noopener noreferrer nofollow"'
+    );
+    expect(html).toContain('>the case study</a>');
+  });
+
+  it.each([
+    ['javascript:', '[click me](javascript:alert(document.cookie))'],
+    ['data:', '[click me](data:text/html;base64,PHNjcmlwdD4=)'],
+    ['relative', '[click me](/admin/knowledge)'],
+  ])('shows %s links as plain text', (_, markdown) => {
+    const html = render(markdown);
+    expect(html).not.toContain('<a');
+    expect(html).toContain('click me');
+  });
+
+  it('does not autolink a bare URL inside a link label', () => {
+    const html = render('[https://a.com](https://b.com)');
+    expect(html.match(/<a /g)).toHaveLength(1);
+    expect(html).toContain('href="https://b.com/"');
+    expect(html).not.toContain('href="https://a.com');
+  });
+
+  it('autolinks bare URLs, leaving trailing punctuation outside', () => {
+    const html = render('More at https://example.com/work.');
+    expect(html).toContain('<a href="https://example.com/work"');
+    expect(html).toMatch(/<\/a>\.<\/span>/);
+  });
+});
+
+describe('Markdown raw HTML', () => {
+  it('shows <script> as text instead of running it', () => {
+    const html = render('<script>alert("hi")</script>');
+    expect(html).not.toContain('<script');
+    expect(html).toContain('&lt;script&gt;alert(&quot;hi&quot;)&lt;/script&gt;');
+  });
+
+  it('escapes HTML attributes and tags in every block kind', () => {
+    const html = render(
+      [
+        '# <img src=x onerror=alert(1)>',
+        '',
+        '- <iframe src="https://evil.example"></iframe>',
+        '',
+        '**<b onclick="x()">bold</b>**',
+      ].join('\n')
+    );
+    expect(html).not.toMatch(/<(?:img|iframe|b)\b/);
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).toContain('&lt;iframe');
+  });
+});
+
+describe('Markdown code fences', () => {
+  it('renders fenced code verbatim', () => {
+    const html = render('```\n**not bold** <b>\n```');
+    expect(html).toBe(
+      '<div class="space-y-2 break-words"><pre class="overflow-x-auto rounded-lg bg-current/10 px-3 py-2 font-mono text-[0.95em]"><code>**not bold** &lt;b&gt;</code></pre></div>'
+    );
+  });
+
+  it('runs an unterminated fence to the end of the answer', () => {
+    const html = render('Here:\n\n```js\nconst a = "[x](javascript:y)";\nstill code');
+    expect(html).toContain('<p><span>Here:</span></p>');
+    expect(html).toContain('<code>const a = &quot;[x](javascript:y)&quot;;\nstill code</code>');
+    expect(html).not.toContain('<a');
+  });
+});
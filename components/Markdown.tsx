@@ -0,0 +1,218 @@
+import type { ReactNode } from 'react';
+
+// A deliberately small Markdown renderer for assistant replies. It builds React
+// elements directly (never HTML strings), so anything the model writes,
+// including <script> tags or raw HTML, is shown as text. Supported: paragraphs,
+// headings, bullet and numbered lists, fenced code, **bold**, *italic*,
+// `inline code` and links.
+
+type Block =
+  | { kind: 'paragraph'; lines: string[] }
+  | { kind: 'heading'; text: string }
+  | { kind: 'list'; ordered: boolean; start: number; items: string[] }
+  | { kind: 'code'; code: string };
+
+const FENCE = /^\s*```/;
+const HEADING = /^\s*#{1,6}\s+(.*)$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*(\d+)[.)]\s+(.*)$/;
+
+// --- Block structure ---
+function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let current: Block | null = null;
+
+  const flush = () => {
+    if (current) blocks.push(current);
+    current = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE.test(lines[i])) code.push(lines[i]);
+      blocks.push({ kind: 'code', code: code.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      flush();
+      blocks.push({ kind: 'heading', text: heading[1] });
+      continue;
+    }
+
+    const bullet = line.match(BULLET);
+    const numbered = bullet ? null : line.match(NUMBERED);
+    if (bullet || numbered) {
+      const ordered = Boolean(numbered);
+      const text = bullet ? bullet[1] : numbered![2];
+      if (current?.kind !== 'list' || current.ordered !== ordered) {
+        flush();
+        current = { kind: 'list', ordered, start: numbered ? Number(numbered[1]) : 1, items: [] };
+      }
+      current.items.push(text);
+      continue;
+    }
+
+    // An indented line right after a list item continues that item
+    if (current?.kind === 'list' && /^\s+/.test(line)) {
+      current.items[current.items.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+
+    if (current?.kind !== 'paragraph') {
+      flush();
+      current = { kind: 'paragraph', lines: [] };
+    }
+    current.lines.push(line.trim());
+  }
+
+  flush();
+  return blocks;
+}
+
+// --- Links ---
+const SAFE_PROTOCOLS = new Set(['http:', 'https:', 'mailto:']);
+
+// Only absolute http(s) and mailto links survive; javascript:, data:, relative
+// paths and anything unparsable are rendered as plain text instead.
+export function safeHref(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    return SAFE_PROTOCOLS.has(parsed.protocol) ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function renderLink(label: ReactNode, url: string, key: string): ReactNode {
+  const href = safeHref(url);
+  if (!href) return <span key={key}>{label}</span>;
+  return (
+    <a
+      key={key}
+      href={href}
+      target="_blank"
+      rel="noopener noreferrer nofollow"
+      className="underline underline-offset-2 hover:opacity-70"
+    >
+      {label}
+    </a>
+  );
+}
+
+// --- Inline formatting ---
+// Order matters: code spans win over everything, links before emphasis so
+// asterisks inside URLs are left alone.
+const INLINE =
+  /`([^`\n]+)`|\[([^\]\n]+)\]\(([^()\s]+)\)|\*\*([^*\n]+)\*\*|__([^_\n]+)__|\*([^*\n]+)\*|(https?:\/\/[^\s<>()"']+|mailto:[^\s<>()"']+)/g;
+
+// `autolink` is off inside a link's label: a bare URL there would nest an <a>
+// in an <a> and show a different address than the one it opens
+function renderInline(text: string, keyPrefix: string, autolink = true): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  let n = 0;
+
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index ?? 0;
+    if (index > last) nodes.push(text.slice(last, index));
+    const key = `${keyPrefix}-${n++}`;
+    const [whole, code, label, url, strong, strongAlt, em, bare] = match;
+
+    if (code !== undefined) {
+      nodes.push(
+        <code key={key} className="rounded bg-current/10 px-1 py-0.5 font-mono text-[0.95em]">
+          {code}
+        </code>
+      );
+    } else if (label !== undefined) {
+      nodes.push(renderLink(renderInline(label, key, false), url, key));
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push(
+        <strong key={key} className="font-semibold">
+          {renderInline(strong ?? strongAlt, key, autolink)}
+        </strong>
+      );
+    } else if (em !== undefined) {
+      nodes.push(<em key={key}>{renderInline(em, key, autolink)}</em>);
+    } else if (bare !== undefined && autolink) {
+      // Sentence punctuation right after a URL isn't part of it
+      const trimmed = bare.replace(/[.,;:!?'"]+$/, '');
+      nodes.push(renderLink(trimmed, trimmed, key));
+      if (trimmed.length < bare.length) nodes.push(bare.slice(trimmed.length));
+    } else {
+      nodes.push(whole);
+    }
+
+    last = index + whole.length;
+  }
+
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+// --- Component ---
+export function Markdown({ content }: { content: string }) {
+  const blocks = parseBlocks(content);
+
+  return (
+    <div className="space-y-2 break-words">
+      {blocks.map((block, i) => {
+        const key = `b${i}`;
+        switch (block.kind) {
+          case 'heading':
+            return (
+              <p key={key} className="font-semibold">
+                {renderInline(block.text, key)}
+              </p>
+            );
+          case 'code':
+            return (
+              <pre
+                key={key}
+                className="overflow-x-auto rounded-lg bg-current/10 px-3 py-2 font-mono text-[0.95em]"
+              >
+                <code>{block.code}</code>
+              </pre>
+            );
+          case 'list': {
+            const items = block.items.map((item, j) => (
+              <li key={`${key}-${j}`}>{renderInline(item, `${key}-${j}`)}</li>
+            ));
+            return block.ordered ? (
+              <ol key={key} start={block.start} className="list-decimal space-y-1 pl-4">
+                {items}
+              </ol>
+            ) : (
+              <ul key={key} className="list-disc space-y-1 pl-4">
+                {items}
+              </ul>
+            );
+          }
+          case 'paragraph':
+            return (
+              <p key={key}>
+                {block.lines.map((line, j) => (
+                  <span key={`${key}-${j}`}>
+                    {j > 0 && <br />}
+                    {renderInline(line, `${key}-${j}`)}
+                  </span>
+                ))}
+              </p>
+            );
+        }
+      })}
+    </div>
+  );
+}
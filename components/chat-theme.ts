@@ -0,0 +1,150 @@
+import type { CSSProperties } from 'react';
+
+// --- Look and placement of the AIChat widget ---
+// Colors become CSS variables (--pc-accent, --pc-surface, ...) on the widget's
+// root, and every class in AIChat reads them, so a brand color is one prop
+// (or one attribute on the embed) instead of a fork.
+
+export type ChatColors = {
+  /** Launcher, header, user bubbles and buttons */
+  accent: string;
+  /** Text and icons drawn on the accent color */
+  accentText: string;
+  /** Behind the messages */
+  background: string;
+  /** Assistant bubbles, the input area and chips */
+  surface: string;
+  text: string;
+  mutedText: string;
+  border: string;
+};
+
+export type ColorScheme = 'light' | 'dark' | 'auto';
+
+export type ChatTheme = {
+  /** 'auto' follows the visitor's system setting */
+  colorScheme?: ColorScheme;
+  /** Overrides for the light palette */
+  colors?: Partial<ChatColors>;
+  /** Overrides for the dark palette; the accent colors default to `colors` */
+  darkColors?: Partial<ChatColors>;
+  fontFamily?: string;
+};
+
+export type ChatPosition = 'bottom-right' | 'bottom-left';
+
+/** Chat window size in pixels; it still shrinks to fit small screens */
+export type ChatSize = { width?: number; height?: number };
+
+export const LAUNCHER_ICONS = ['chat', 'sparkles', 'help', 'bot'] as const;
+export type LauncherIcon = (typeof LAUNCHER_ICONS)[number];
+
+export const DEFAULT_SIZE: Required<ChatSize> = { width: 384, height: 520 };
+
+export const LIGHT_COLORS: ChatColors = {
+  accent: '#000000',
+  accentText: '#ffffff',
+  background: '#fafafa',
+  surface: '#ffffff',
+  text: '#000000',
+  mutedText: '#737373',
+  border: '#e5e5e5',
+};
+
+export const DARK_COLORS: ChatColors = {
+  accent: '#ffffff',
+  accentText: '#0a0a0a',
+  background: '#0a0a0a',
+  surface: '#171717',
+  text: '#f5f5f5',
+  mutedText: '#a3a3a3',
+  border: '#262626',
+};
+
+const COLOR_VARIABLES: Record<keyof ChatColors, string> = {
+  accent: '--pc-accent',
+  accentText: '--pc-accent-text',
+  background: '--pc-background',
+  surface: '--pc-surface',
+  text: '--pc-text',
+  mutedText: '--pc-muted',
+  border: '--pc-border',
+};
+
+// A brand accent works on both backgrounds; the rest of the palette doesn't
+const SHARED_IN_DARK: (keyof ChatColors)[] = ['accent', 'accentText'];
+
+// CSS variables for the widget root
+export function themeStyle(theme: ChatTheme, dark: boolean): CSSProperties {
+  const colorFor = (name: keyof ChatColors) =>
+    dark
+      ? theme.darkColors?.[name] ??
+        (SHARED_IN_DARK.includes(name) ? theme.colors?.[name] : undefined) ??
+        DARK_COLORS[name]
+      : theme.colors?.[name] ?? LIGHT_COLORS[name];
+
+  const style: Record<string, string> = { colorScheme: dark ? 'dark' : 'light' };
+  for (const [name, variable] of Object.entries(COLOR_VARIABLES)) {
+    style[variable] = colorFor(name as keyof ChatColors);
+  }
+  if (theme.fontFamily) style.fontFamily = theme.fontFamily;
+  return style as CSSProperties;
+}
+
+// --- Parsing embed attributes (?accent-color=...) ---
+// Query strings are untrusted: anything that doesn't parse is dropped and the
+// default is used.
+
+const COLOR_PATTERN =
+  /^(?:#[0-9a-f]{3,8}|(?:rgb|rgba|hsl|hsla|oklch|oklab)\([\d\s.,%/+-]+\)|[a-z]{3,20})$/i;
+
+export function parseColor(value: string | undefined): string | undefined {
+  const color = value?.trim();
+  return color && COLOR_PATTERN.test(color) ? color : undefined;
+}
+
+export function parseColorScheme(value: string | undefined): ColorScheme {
+  return value === 'light' || value === 'dark' ? value : 'auto';
+}
+
+export function parsePosition(value: string | undefined): ChatPosition {
+  return value === 'bottom-left' ? 'bottom-left' : 'bottom-right';
+}
+
+export function parseLauncherIcon(value: string | undefined): LauncherIcon | undefined {
+  return (LAUNCHER_ICONS as readonly string[]).includes(value ?? '')
+    ? (value as LauncherIcon)
+    : undefined;
+}
+
+// Pixels, kept within what fits on a phone and a desktop screen
+export function parseDimension(
+  value: string | undefined,
+  min: number,
+  max: number
+): number | undefined {
+  const pixels = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(pixels) ? Math.min(max, Math.max(min, pixels)) : undefined;
+}
+
+// Avatars may be absolute http(s) URLs or paths on this app
+export function parseImageUrl(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  if (value.startsWith('/') && !value.startsWith('//')) return value;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// "Who is she?|Show me a project" → starter prompts
+export function parsePrompts(value: string | undefined): string[] | undefined {
+  const prompts = (value ?? '')
+    .split('|')
+    .map((prompt) => prompt.trim())
+    .filter(Boolean)
+    .slice(0, 6);
+  return prompts.length ? prompts : undefined;
+}
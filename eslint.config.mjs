@@ -12,6 +12,8 @@ const eslintConfig = defineConfig([
     "out/**",
     "build/**",
     "next-env.d.ts",
+    // Generated by npm run build:widget
+    "public/portfolio-chat.js",
   ]),
 ]);
 
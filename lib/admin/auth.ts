@@ -0,0 +1,70 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+
+// --- Environment variables ---
+// ADMIN_SECRET: shared password for /admin. Admin pages stay locked when unset.
+const ADMIN_SECRET = process.env.ADMIN_SECRET;
+
+export const ADMIN_COOKIE = "portfolio_admin";
+const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+
+export function isAdminConfigured(): boolean {
+  return Boolean(ADMIN_SECRET);
+}
+
+// The cookie holds when it was issued and an HMAC of that time keyed with
+// the secret, never the secret itself. Changing ADMIN_SECRET signs everyone
+// out, and a copied cookie stops working once it's older than the max age.
+function sessionToken(secret: string, issuedAt: number): string {
+  const signature = createHmac("sha256", secret)
+    .update(`portfolio-admin-session:${issuedAt}`)
+    .digest("hex");
+  return `${issuedAt}.${signature}`;
+}
+
+function isValidSessionToken(token: string, secret: string): boolean {
+  const issuedAt = Number(token.split(".")[0]);
+  if (!Number.isSafeInteger(issuedAt)) return false;
+  const age = Date.now() - issuedAt;
+  if (age < 0 || age > SESSION_MAX_AGE_SECONDS * 1000) return false;
+  return safeEqual(token, sessionToken(secret, issuedAt));
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function isValidAdminSecret(candidate: string): boolean {
+  return Boolean(ADMIN_SECRET) && safeEqual(candidate, ADMIN_SECRET!);
+}
+
+export async function isAdmin(): Promise<boolean> {
+  if (!ADMIN_SECRET) return false;
+  const token = (await cookies()).get(ADMIN_COOKIE)?.value;
+  return Boolean(token) && isValidSessionToken(token!, ADMIN_SECRET);
+}
+
+// --- Gate a page or server action; sends visitors to the login form ---
+export async function requireAdmin(nextPath: string): Promise<void> {
+  if (!(await isAdmin())) {
+    redirect(`/admin/login?next=${encodeURIComponent(nextPath)}`);
+  }
+}
+
+export async function startAdminSession(): Promise<void> {
+  if (!ADMIN_SECRET) return;
+  (await cookies()).set(ADMIN_COOKIE, sessionToken(ADMIN_SECRET, Date.now()), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/admin",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+}
+
+export async function endAdminSession(): Promise<void> {
+  (await cookies()).delete({ name: ADMIN_COOKIE, path: "/admin" });
+}
@@ -0,0 +1,43 @@
+import { createHash } from "node:crypto";
+
+const REDACTIONS: [pattern: RegExp, replacement: string][] = [
+  [/[\w.+-]+@[\w-]+\.[\w.-]+/g, "[email]"],
+  [/\bhttps?:\/\/\S+/gi, "[url]"],
+  [/\+?\d[\d\s().-]{7,}\d/g, "[phone]"],
+  [/\b\d{5,}\b/g, "[number]"],
+];
+
+const MAX_QUESTION_CHARS = 500;
+
+// --- Strip contact details and long numbers before a question is stored ---
+export function anonymizeQuestion(question: string): string {
+  let text = question.trim().slice(0, MAX_QUESTION_CHARS);
+  for (const [pattern, replacement] of REDACTIONS) {
+    text = text.replace(pattern, replacement);
+  }
+  return text;
+}
+
+export function hashSessionId(
+  sessionId: string | null | undefined,
+  salt: string
+): string | null {
+  if (!sessionId) return null;
+  return createHash("sha256")
+    .update(`${salt}:${sessionId}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// Phrases the model uses when the portfolio doesn't cover a question
+const MISSING_INFO_PATTERNS = [
+  /\bI (?:do not|don[’']t) (?:have|know|see)\b/i,
+  /\b(?:isn[’']t|is not|wasn[’']t|not) (?:in|covered in|part of|mentioned in) (?:the|her|his|their|my) (?:portfolio|knowledge|data)/i,
+  /\bno (?:information|details|data|info) (?:on|about|for)\b/i,
+  /\bI couldn[’']t (?:find|generate)\b/i,
+  /\bnot sure\b/i,
+];
+
+export function admitsMissingInfo(answer: string): boolean {
+  return MISSING_INFO_PATTERNS.some((pattern) => pattern.test(answer));
+}
@@ -0,0 +1,104 @@
+import { randomUUID } from "node:crypto";
+import type { PortfolioRow } from "../knowledge/types";
+import type { Citation } from "../chat/types";
+import {
+  admitsMissingInfo,
+  anonymizeQuestion,
+  hashSessionId,
+} from "./anonymize";
+import { createLocalAnalyticsStore } from "./stores/local";
+import { createSupabaseAnalyticsStore } from "./stores/supabase";
+import type { AnalyticsStore } from "./types";
+
+export type { AnalyticsStore, TurnRecord } from "./types";
+
+// --- Environment variables ---
+// ANALYTICS_STORE: "local" (default) | "supabase" | "off"
+const ANALYTICS_STORE =
+  process.env.ANALYTICS_STORE?.trim().toLowerCase() || "local";
+const ANALYTICS_FILE =
+  process.env.ANALYTICS_FILE?.trim() || ".data/chat-turns.jsonl";
+const SUPABASE_ANALYTICS_TABLE =
+  process.env.SUPABASE_ANALYTICS_TABLE?.trim() || "chat-turns";
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+// Salt for session hashes; set it so hashes can't be matched across deployments
+const ANALYTICS_SALT = process.env.ANALYTICS_SALT || "portfolio-ai-chat";
+
+type StoreFactory = () => AnalyticsStore;
+
+// Register new backends here
+const STORES: Record<string, StoreFactory> = {
+  local: () => createLocalAnalyticsStore({ filePath: ANALYTICS_FILE }),
+  supabase: () => {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error(
+        "ANALYTICS_STORE=supabase needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY."
+      );
+    }
+    return createSupabaseAnalyticsStore({
+      url: SUPABASE_URL,
+      key: SUPABASE_SERVICE_ROLE_KEY,
+      table: SUPABASE_ANALYTICS_TABLE,
+    });
+  },
+};
+
+let activeStore: AnalyticsStore | null | undefined;
+
+// Null when analytics are off or misconfigured
+export function getAnalyticsStore(): AnalyticsStore | null {
+  if (activeStore !== undefined) return activeStore;
+
+  if (ANALYTICS_STORE === "off") {
+    activeStore = null;
+    return activeStore;
+  }
+
+  const factory = STORES[ANALYTICS_STORE];
+  try {
+    if (!factory) {
+      throw new Error(
+        `Unknown ANALYTICS_STORE "${ANALYTICS_STORE}". Expected one of: off, ${Object.keys(STORES).join(", ")}.`
+      );
+    }
+    activeStore = factory();
+  } catch (err) {
+    console.error("[analytics] Disabled:", err);
+    activeStore = null;
+  }
+  return activeStore;
+}
+
+type TurnInput = {
+  sessionId: string | null;
+  question: string;
+  scopedRows: PortfolioRow[];
+  matchedKnowledge: boolean;
+  answer: string;
+  citations: Citation[];
+  latencyMs: number;
+  streamed: boolean;
+};
+
+// --- Record a chat turn without slowing down or failing the reply ---
+export function recordTurn(input: TurnInput): void {
+  const store = getAnalyticsStore();
+  if (!store) return;
+
+  store
+    .record({
+      id: randomUUID(),
+      at: new Date().toISOString(),
+      sessionHash: hashSessionId(input.sessionId, ANALYTICS_SALT),
+      question: anonymizeQuestion(input.question),
+      scopedRowIds: input.scopedRows.map((row) => row.id),
+      scopedProjects: [...new Set(input.scopedRows.map((row) => row.project))],
+      matchedKnowledge: input.matchedKnowledge,
+      citedProjects: [...new Set(input.citations.map((c) => c.project))],
+      latencyMs: input.latencyMs,
+      admittedMissingInfo: admitsMissingInfo(input.answer),
+      streamed: input.streamed,
+    })
+    .catch((err) => console.error(`[analytics] ${store.name} write failed:`, err));
+}
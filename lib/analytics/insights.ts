@@ -0,0 +1,111 @@
+import { tokenize } from "../retrieval/text";
+import type { TurnRecord } from "./types";
+
+export type CountedItem = {
+  label: string;
+  count: number;
+};
+
+export type KnowledgeGap = {
+  topic: string;
+  count: number;
+  examples: string[];
+};
+
+export type Insights = {
+  totalTurns: number;
+  sessions: number;
+  medianLatencyMs: number | null;
+  missingInfoRate: number;
+  topQuestions: CountedItem[];
+  gaps: KnowledgeGap[];
+  projectInterest: CountedItem[];
+};
+
+const TOP_N = 15;
+const MAX_EXAMPLES = 3;
+
+// Group near-identical questions ("Show me the projects!" / "show me the projects")
+function questionKey(question: string): string {
+  return question
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function topCounts(counts: Map<string, number>, n = TOP_N): CountedItem[] {
+  return [...counts]
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+    .slice(0, n);
+}
+
+function increment(counts: Map<string, number>, key: string, by = 1) {
+  counts.set(key, (counts.get(key) ?? 0) + by);
+}
+
+// --- Summarize recorded turns for the /admin/insights page ---
+export function buildInsights(turns: TurnRecord[]): Insights {
+  const questions = new Map<string, number>();
+  const questionLabels = new Map<string, string>();
+  const gapTopics = new Map<string, number>();
+  const gapExamples = new Map<string, string[]>();
+  const projects = new Map<string, number>();
+  const sessions = new Set<string>();
+  let missing = 0;
+
+  for (const turn of turns) {
+    const key = questionKey(turn.question);
+    if (key) {
+      increment(questions, key);
+      if (!questionLabels.has(key)) questionLabels.set(key, turn.question);
+    }
+    if (turn.sessionHash) sessions.add(turn.sessionHash);
+    if (turn.admittedMissingInfo) missing++;
+
+    // A gap: retrieval found nothing, or the model said the portfolio lacks it
+    if (!turn.matchedKnowledge || turn.admittedMissingInfo) {
+      // Redaction placeholders ("[email]") aren't topics
+      const terms = tokenize(turn.question.replace(/\[\w+\]/g, " "));
+      for (const term of new Set(terms)) {
+        increment(gapTopics, term);
+        const examples = gapExamples.get(term) ?? [];
+        if (examples.length < MAX_EXAMPLES && !examples.includes(turn.question)) {
+          examples.push(turn.question);
+        }
+        gapExamples.set(term, examples);
+      }
+    }
+
+    // Cited projects are what the answer was about; fall back to what was
+    // retrieved when nothing was cited
+    const interest = turn.citedProjects.length
+      ? turn.citedProjects
+      : turn.matchedKnowledge
+      ? turn.scopedProjects
+      : [];
+    interest.forEach((project) => increment(projects, project));
+  }
+
+  const latencies = turns.map((t) => t.latencyMs).sort((a, b) => a - b);
+
+  return {
+    totalTurns: turns.length,
+    sessions: sessions.size,
+    medianLatencyMs: latencies.length
+      ? latencies[Math.floor(latencies.length / 2)]
+      : null,
+    missingInfoRate: turns.length ? missing / turns.length : 0,
+    topQuestions: topCounts(questions).map(({ label, count }) => ({
+      label: questionLabels.get(label) ?? label,
+      count,
+    })),
+    gaps: topCounts(gapTopics).map(({ label, count }) => ({
+      topic: label,
+      count,
+      examples: gapExamples.get(label) ?? [],
+    })),
+    projectInterest: topCounts(projects, Number.POSITIVE_INFINITY),
+  };
+}
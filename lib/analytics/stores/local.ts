@@ -0,0 +1,48 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import type { AnalyticsStore, TurnRecord } from "../types";
+
+type LocalAnalyticsOptions = {
+  /** JSON Lines file; relative to the project root. */
+  filePath: string;
+};
+
+// --- One JSON object per line, appended per turn ---
+export function createLocalAnalyticsStore({
+  filePath,
+}: LocalAnalyticsOptions): AnalyticsStore {
+  const resolved = path.resolve(process.cwd(), filePath);
+
+  return {
+    name: `local:${filePath}`,
+    async record(turn) {
+      await mkdir(path.dirname(resolved), { recursive: true });
+      await appendFile(resolved, `${JSON.stringify(turn)}\n`, "utf8");
+    },
+    async list({ since, limit } = {}) {
+      let text: string;
+      try {
+        text = await readFile(resolved, "utf8");
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw err;
+      }
+
+      const turns: TurnRecord[] = [];
+      for (const line of text.split("\n")) {
+        if (!line.trim()) continue;
+        try {
+          turns.push(JSON.parse(line) as TurnRecord);
+        } catch {
+          // Skip a line torn by a crash mid-write
+        }
+      }
+
+      const filtered = since
+        ? turns.filter((t) => new Date(t.at) >= since)
+        : turns;
+      filtered.reverse();
+      return limit ? filtered.slice(0, limit) : filtered;
+    },
+  };
+}
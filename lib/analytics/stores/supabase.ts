@@ -0,0 +1,85 @@
+import { createClient } from "@supabase/supabase-js";
+import type { AnalyticsStore, TurnRecord } from "../types";
+
+type SupabaseAnalyticsOptions = {
+  url: string;
+  /** Service-role key: the table should not be writable or readable by anon. */
+  key: string;
+  table: string;
+};
+
+// Columns mirror TurnRecord (snake_case); arrays are jsonb or text[].
+type TurnRow = {
+  id: string;
+  at: string;
+  session_hash: string | null;
+  question: string;
+  scoped_row_ids: (number | string | null)[];
+  scoped_projects: string[];
+  matched_knowledge: boolean;
+  cited_projects: string[];
+  latency_ms: number;
+  admitted_missing_info: boolean;
+  streamed: boolean;
+};
+
+function toRow(turn: TurnRecord): TurnRow {
+  return {
+    id: turn.id,
+    at: turn.at,
+    session_hash: turn.sessionHash,
+    question: turn.question,
+    scoped_row_ids: turn.scopedRowIds,
+    scoped_projects: turn.scopedProjects,
+    matched_knowledge: turn.matchedKnowledge,
+    cited_projects: turn.citedProjects,
+    latency_ms: turn.latencyMs,
+    admitted_missing_info: turn.admittedMissingInfo,
+    streamed: turn.streamed,
+  };
+}
+
+function fromRow(row: TurnRow): TurnRecord {
+  return {
+    id: row.id,
+    at: row.at,
+    sessionHash: row.session_hash,
+    question: row.question,
+    scopedRowIds: row.scoped_row_ids ?? [],
+    scopedProjects: row.scoped_projects ?? [],
+    matchedKnowledge: row.matched_knowledge,
+    citedProjects: row.cited_projects ?? [],
+    latencyMs: row.latency_ms,
+    admittedMissingInfo: row.admitted_missing_info,
+    streamed: row.streamed,
+  };
+}
+
+// --- Turns in a Supabase table ---
+export function createSupabaseAnalyticsStore({
+  url,
+  key,
+  table,
+}: SupabaseAnalyticsOptions): AnalyticsStore {
+  const supabase = createClient(url, key, { auth: { persistSession: false } });
+
+  return {
+    name: `supabase:${table}`,
+    async record(turn) {
+      const { error } = await supabase.from(table).insert(toRow(turn));
+      if (error) throw new Error(`Supabase error: ${error.message}`);
+    },
+    async list({ since, limit = 5000 } = {}) {
+      let query = supabase
+        .from(table)
+        .select("*")
+        .order("at", { ascending: false })
+        .limit(limit);
+      if (since) query = query.gte("at", since.toISOString());
+
+      const { data, error } = await query;
+      if (error) throw new Error(`Supabase error: ${error.message}`);
+      return ((data ?? []) as TurnRow[]).map(fromRow);
+    },
+  };
+}
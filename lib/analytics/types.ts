@@ -0,0 +1,26 @@
+// One chat turn, stripped of anything that identifies the visitor
+export type TurnRecord = {
+  id: string;
+  /** ISO timestamp. */
+  at: string;
+  /** Salted hash of the chat session, so turns can be grouped but not traced. */
+  sessionHash: string | null;
+  /** The question with emails, phone numbers, URLs and long numbers redacted. */
+  question: string;
+  scopedRowIds: (number | string | null)[];
+  scopedProjects: string[];
+  /** False when retrieval found nothing relevant and fell back to an overview. */
+  matchedKnowledge: boolean;
+  citedProjects: string[];
+  latencyMs: number;
+  /** The answer said the portfolio doesn't cover this. */
+  admittedMissingInfo: boolean;
+  streamed: boolean;
+};
+
+export interface AnalyticsStore {
+  readonly name: string;
+  record(turn: TurnRecord): Promise<void>;
+  /** Most recent turns first. */
+  list(options?: { since?: Date; limit?: number }): Promise<TurnRecord[]>;
+}
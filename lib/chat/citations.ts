@@ -0,0 +1,68 @@
+import { isSummary } from "../knowledge/schema";
+import type { PortfolioRow } from "../knowledge/types";
+import { fold, mentions, tokenize } from "../retrieval/text";
+import type { Citation } from "./types";
+
+const MAX_CITATIONS = 6;
+
+// Share of a row's distinct content terms that must show up in the answer
+const CONTENT_OVERLAP_THRESHOLD = 0.3;
+
+// Titles shorter than this ("AI", "UX") match too much to count as a reference
+const MIN_TITLE_LENGTH = 4;
+
+// Titles count when the answer names them as whole words
+const namedIn = (text: string, name: string | null | undefined) =>
+  Boolean(name && name.length >= MIN_TITLE_LENGTH && mentions(text, name));
+
+export function toCitation(row: PortfolioRow): Citation {
+  return {
+    id: row.id,
+    project: row.project,
+    type: row.type,
+    title: row.title,
+  };
+}
+
+// --- Which scoped rows did the answer actually draw on? ---
+// A row counts when the answer names its title, when it names the row's
+// project and the row is that project's summary, or when most of the row's
+// distinctive wording shows up in the answer.
+export function extractCitations(
+  answer: string,
+  scopedRows: PortfolioRow[]
+): Citation[] {
+  const text = fold(answer);
+  const answerTerms = new Set(tokenize(answer));
+
+  // Display names for each project, taken from its summary rows
+  const projectNames = new Map<string, string[]>();
+  for (const row of scopedRows) {
+    const names = projectNames.get(row.project) ?? [row.project];
+    if (isSummary(row) && row.title) names.push(row.title);
+    projectNames.set(row.project, names);
+  }
+
+  const projectMentioned = (project: string) =>
+    (projectNames.get(project) ?? []).some((name) => namedIn(text, name));
+
+  const contentOverlap = (row: PortfolioRow) => {
+    const terms = new Set(tokenize(row.content));
+    if (!terms.size) return 0;
+    let shared = 0;
+    terms.forEach((term) => {
+      if (answerTerms.has(term)) shared++;
+    });
+    return shared / terms.size;
+  };
+
+  return scopedRows
+    .filter(
+      (row) =>
+        namedIn(text, row.title) ||
+        (isSummary(row) && projectMentioned(row.project)) ||
+        contentOverlap(row) >= CONTENT_OVERLAP_THRESHOLD
+    )
+    .slice(0, MAX_CITATIONS)
+    .map(toCitation);
+}
@@ -0,0 +1,149 @@
+import { DEFAULT_LANGUAGE, type Language } from "../i18n";
+import { isSummary } from "../knowledge/schema";
+import type { PortfolioRow } from "../knowledge/types";
+import type { Persona } from "../prompt/persona";
+import type { ProjectSummary } from "../prompt/system-prompt";
+import { fold, mentions } from "../retrieval/text";
+
+// --- Answers without the model, for when it's down ---
+// Only the questions the knowledge rows answer on their own: the project
+// list, the bio and "tell me about <project>". Everything else still gets
+// an error with a Retry button; a canned guess would be worse.
+
+export type DegradedIntent = "project" | "bio" | "projects" | "greeting";
+
+export type DegradedAnswer = {
+  intent: DegradedIntent;
+  response: string;
+  /** Rows the answer was taken from, for citations. */
+  rows: PortfolioRow[];
+};
+
+// Bio rows shown, summary first
+const MAX_BIO_ROWS = 2;
+
+const BIO_TYPES = ["summary", "project_summary", "background", "bio"];
+
+type Phrases = {
+  /** Opens every degraded answer, so it doesn't pass for the usual kind. */
+  note: string;
+  /** Closes it. */
+  retry: string;
+  projectsIntro: (name: string) => string;
+  whichOne: string;
+};
+
+const PHRASES: Record<Language, Phrases> = {
+  en: {
+    note: "My AI model isn’t responding right now, so here’s a quick answer straight from the portfolio.",
+    retry: "Try again in a moment for a fuller answer.",
+    projectsIntro: (name) => `Here are ${name}’s projects:`,
+    whichOne: "Which one do you want to hear about?",
+  },
+  es: {
+    note: "Mi modelo de IA no responde en este momento, así que aquí va una respuesta rápida directo del portafolio.",
+    retry: "Vuelve a intentarlo en un momento para una respuesta más completa.",
+    projectsIntro: (name) => `Estos son los proyectos de ${name}:`,
+    whichOne: "¿Sobre cuál quieres saber más?",
+  },
+};
+
+// Matched on folded text (lowercase, no accents)
+const INTENT_PATTERNS: [intent: Exclude<DegradedIntent, "project">, pattern: RegExp][] = [
+  // "about her" only at the end: "tell me about her projects" is a list
+  ["bio", /\bwho\s+(?:is|are)\b|\babout\s+(?:her|him|them|you(?:rself)?)\W*$|\b(?:bio|background|experience)\b/],
+  ["bio", /\bquien\s+(?:es|eres)\b|\bsobre\s+(?:ella|el|ti)\W*$|\b(?:biografia|trayectoria|experiencia)\b/],
+  ["projects", /\b(?:projects|case studies|portfolio|what else)\b|\b(?:worked|work)\s+on\b/],
+  ["projects", /\b(?:proyectos|portafolio|que mas)\b|\btrabajado\b/],
+  ["greeting", /^\s*(?:hi|hello|hey|hola|buenas|buenos dias)\b|\bwhat (?:can|should) i ask\b|\bque puedo preguntar\b/],
+];
+
+// "this project" on a case study page
+const THIS_PROJECT = /\b(?:this|the)\s+(?:project|case study)\b|\beste\s+(?:proyecto|caso)\b/;
+
+const wrap = (body: string, phrases: Phrases) =>
+  [phrases.note, body.trim(), phrases.retry].join("\n\n");
+
+type DegradedInput = {
+  message: string;
+  /** Rows in the visitor's language. */
+  knowledge: PortfolioRow[];
+  persona: Pick<Persona, "name" | "aboutProject" | "greeting" | "greetings">;
+  projects: ProjectSummary[];
+  language?: Language;
+  /** Project of the case study page the widget is on. */
+  focusProject?: string;
+};
+
+// --- An answer from the rows alone, or null when the question needs the model ---
+export function degradedAnswer({
+  message,
+  knowledge,
+  persona,
+  projects,
+  language = DEFAULT_LANGUAGE,
+  focusProject,
+}: DegradedInput): DegradedAnswer | null {
+  const phrases = PHRASES[language];
+  const text = fold(message);
+
+  // A named project (or "this project" on its page): its summary row
+  const named =
+    projects.find((p) => [p.id, p.title].some((name) => mentions(text, name))) ??
+    (THIS_PROJECT.test(text) ? projects.find((p) => p.id === focusProject) : undefined);
+  if (named) {
+    const summary = knowledge.find((row) => row.project === named.id && isSummary(row));
+    if (summary) {
+      const heading = `**${named.title}**${named.oneLiner ? `: ${named.oneLiner}` : ""}`;
+      return {
+        intent: "project",
+        response: wrap(`${heading}\n\n${summary.content}`, phrases),
+        rows: [summary],
+      };
+    }
+  }
+
+  const intent = INTENT_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+
+  if (intent === "bio") {
+    const rows = knowledge
+      .filter(
+        (row) => row.project === persona.aboutProject && BIO_TYPES.includes(row.type.toLowerCase())
+      )
+      .sort((a, b) => Number(isSummary(b)) - Number(isSummary(a)))
+      .slice(0, MAX_BIO_ROWS);
+    if (!rows.length) return null;
+    return {
+      intent,
+      response: wrap(rows.map((row) => row.content.trim()).join("\n\n"), phrases),
+      rows,
+    };
+  }
+
+  if (intent === "projects") {
+    if (!projects.length) return null;
+    const list = projects.map(
+      (p) => `- **${p.title}**${p.oneLiner ? `: ${p.oneLiner}` : ""}`
+    );
+    return {
+      intent,
+      response: wrap(
+        [phrases.projectsIntro(persona.name), ...list, "", phrases.whichOne].join("\n"),
+        phrases
+      ),
+      rows: knowledge.filter(
+        (row) => isSummary(row) && projects.some((p) => p.id === row.project)
+      ),
+    };
+  }
+
+  if (intent === "greeting") {
+    return {
+      intent,
+      response: wrap(persona.greetings[language] ?? persona.greeting, phrases),
+      rows: [],
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,125 @@
+import { DEFAULT_LANGUAGE, type Language } from "../i18n";
+import { localizeRows } from "../knowledge/localize";
+import type { PortfolioRow } from "../knowledge/types";
+import type { ChatMessage, GenerationSettings } from "../llm/types";
+import { planContext, promptBudget, type ContextPlan } from "../prompt/budget";
+import { loadPersona, type Persona } from "../prompt/persona";
+import {
+  buildSystemPrompt,
+  deriveProjects,
+  type ProjectSummary,
+} from "../prompt/system-prompt";
+import {
+  focusRows,
+  scopeKnowledge,
+  wantsWiderScope,
+  type FocusMode,
+  type ScopeResult,
+} from "../retrieval";
+
+export type HistoryMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+// The case study page the widget sits on
+export type ChatFocus = {
+  project: string;
+  mode: FocusMode;
+};
+
+type ChatTurnInput = {
+  message: string;
+  history: HistoryMessage[];
+  /** Summary of turns older than `history` (e.g. stored with the session). */
+  summary?: string;
+  /** The full knowledge base (already loaded). */
+  knowledge: PortfolioRow[];
+  /** The prompt budget depends on the model and how long its answer may be. */
+  settings: Pick<GenerationSettings, "model" | "maxTokens">;
+  /** Language to answer in; rows are shown in it where translated. */
+  language?: Language;
+  /** Keep retrieval on one project unless the visitor asks about more. */
+  focus?: ChatFocus;
+};
+
+export type PreparedTurn = {
+  /** `rows` are the ones that fit the budget (long ones excerpted), localized. */
+  scope: ScopeResult;
+  persona: Persona;
+  /** Every valid project, not just the scoped ones. */
+  projects: ProjectSummary[];
+  systemPrompt: string;
+  /** Ready for `LLMProvider.complete` / `stream`. */
+  messages: ChatMessage[];
+  usage: ContextPlan["usage"];
+};
+
+// --- Everything between "visitor asked X" and "call the model" ---
+// Shared by the chat route and the admin preview so both see the same prompt.
+export async function prepareChatTurn({
+  message,
+  history,
+  summary = "",
+  knowledge,
+  settings,
+  language = DEFAULT_LANGUAGE,
+  focus,
+}: ChatTurnInput): Promise<PreparedTurn> {
+  const persona = await loadPersona();
+  const projects = deriveProjects(localizeRows(knowledge, language), persona);
+
+  // 1. Scope knowledge to the question (translations are indexed too), then
+  // swap in the translated fields. On a case study page, that project comes
+  // first unless the visitor asks about other work (titles in either language).
+  const focused = focus && projects.find((p) => p.id === focus.project);
+  const widened = focused
+    ? wantsWiderScope(message, focused.id, [
+        ...projects,
+        ...deriveProjects(knowledge, persona),
+      ])
+    : false;
+  const staysFocused = focused && !widened;
+  const scope = await scopeKnowledge(
+    message,
+    staysFocused && focus.mode === "restrict"
+      ? focusRows(knowledge, focused.id, persona.aboutProject)
+      : knowledge,
+    staysFocused ? { focusProject: focused.id } : {}
+  );
+  const rows = localizeRows(scope.rows, language);
+
+  // 2. Fit persona instructions, rows and history into the model's budget
+  const plan = planContext({
+    buildPrompt: (scopedRows, conversationSummary) =>
+      buildSystemPrompt({
+        persona,
+        projects,
+        scopedRows,
+        conversationSummary,
+        language,
+        focus: focused ? { project: focused, widened } : undefined,
+      }),
+    rows,
+    history,
+    summary,
+    message,
+    budget: promptBudget(settings),
+  });
+
+  // 3. Messages for the model
+  const messages: ChatMessage[] = [
+    { role: "system", content: plan.systemPrompt },
+    ...plan.history,
+    { role: "user", content: message },
+  ];
+
+  return {
+    scope: { ...scope, rows: plan.rows },
+    persona,
+    projects,
+    systemPrompt: plan.systemPrompt,
+    messages,
+    usage: plan.usage,
+  };
+}
@@ -0,0 +1,275 @@
+import { DEFAULT_LANGUAGE, type Language } from "../i18n";
+import type { PortfolioRow } from "../knowledge/types";
+import type { Persona } from "../prompt/persona";
+import { deriveProjects, type ProjectSummary } from "../prompt/system-prompt";
+
+const MAX_SUGGESTIONS = 3;
+const MAX_STARTERS = 4;
+
+// Longer "choices" are usually a whole clause, not something to click
+const MAX_CHOICE_CHARS = 48;
+
+type Phrases = {
+  /** Follow-ups offered for a project, by the row types it has. */
+  followUps: [type: string, question: (title: string) => string][];
+  tellMeAbout: (title: string) => string;
+  whoIs: (name: string) => string;
+  approach: (name: string) => string;
+  whatCanIAsk: string;
+  /** Starter on a case study page that leads back to the whole portfolio. */
+  otherWork: (name: string) => string;
+  /** Greeting on a case study page. */
+  projectGreeting: (title: string, name: string) => string;
+  /** Words that introduce the choices in "You want more on the problem, ...?" */
+  choiceLeadIn: RegExp;
+  /** Joins the last choice: "the process, or the impact". */
+  or: string;
+};
+
+const PHRASES: Record<Language, Phrases> = {
+  en: {
+    followUps: [
+      ["problem", (title) => `What problem was ${title} solving?`],
+      ["process", (title) => `What was the process behind ${title}?`],
+      ["method", (title) => `Which methods went into ${title}?`],
+      ["outcome", (title) => `What was the impact of ${title}?`],
+    ],
+    tellMeAbout: (title) => `Tell me about ${title}`,
+    whoIs: (name) => `Who is ${name}?`,
+    approach: (name) => `How does ${name} approach design?`,
+    whatCanIAsk: "What questions can I ask?",
+    otherWork: (name) => `What else has ${name} worked on?`,
+    projectGreeting: (title, name) =>
+      `Hi! You’re looking at ${title}. Ask me anything about it, or about the rest of ${name}’s work.`,
+    choiceLeadIn:
+      /^.*\b(?:on|about|into|explore|see|hear|with|like|either|from|is it|do you want)\s+/i,
+    or: "or",
+  },
+  es: {
+    followUps: [
+      ["problem", (title) => `¿Qué problema resolvía ${title}?`],
+      ["process", (title) => `¿Cómo fue el proceso de ${title}?`],
+      ["method", (title) => `¿Qué métodos se usaron en ${title}?`],
+      ["outcome", (title) => `¿Qué impacto tuvo ${title}?`],
+    ],
+    tellMeAbout: (title) => `Cuéntame sobre ${title}`,
+    whoIs: (name) => `¿Quién es ${name}?`,
+    approach: (name) => `¿Cómo aborda ${name} el diseño?`,
+    whatCanIAsk: "¿Qué puedo preguntar?",
+    otherWork: (name) => `¿En qué más ha trabajado ${name}?`,
+    projectGreeting: (title, name) =>
+      `¡Hola! Estás viendo ${title}. Pregúntame lo que quieras sobre este proyecto o sobre el resto del trabajo de ${name}.`,
+    choiceLeadIn:
+      /^.*\b(?:sobre|de|en|ver|explorar|conocer|saber más|quieres|prefieres|te cuento)\s+/i,
+    or: "o",
+  },
+};
+
+const stripMarkdown = (text: string) => text.replace(/[*_`]+/g, "").trim();
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+// --- "problem, process, or impact?" → ["The problem", "The process", "The impact"] ---
+function choicesFromQuestion(answer: string, phrases: Phrases): string[] {
+  const text = stripMarkdown(answer);
+  const end = text.lastIndexOf("?");
+  if (end === -1) return [];
+
+  // Back to the start of that sentence ("Satori 2.0" doesn't end one)
+  const before = text.slice(0, end);
+  const start = Math.max(
+    0,
+    ...["\n", ". ", "! ", "? ", "¿"].map((boundary) => {
+      const index = before.lastIndexOf(boundary);
+      return index === -1 ? 0 : index + boundary.length;
+    })
+  );
+  const body = before.slice(start).trim();
+  const or = ` ${phrases.or} `;
+  const orIndex = body.toLowerCase().lastIndexOf(or);
+  if (orIndex === -1) return [];
+
+  const parts = body
+    .slice(0, orIndex)
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (!parts.length) return [];
+
+  parts[0] = parts[0].replace(phrases.choiceLeadIn, "");
+  const choices = [...parts, body.slice(orIndex + or.length).trim()]
+    .map((choice) => choice.replace(/^(?:or|and|o|y)\s+/i, "").trim())
+    .filter(Boolean);
+
+  if (choices.length < 2 || choices.some((c) => c.length > MAX_CHOICE_CHARS)) {
+    return [];
+  }
+  return choices.map(capitalize);
+}
+
+// --- A bullet list of projects followed by "Which one ...?" ---
+function projectsFromList(
+  answer: string,
+  projects: ProjectSummary[],
+  phrases: Phrases
+): string[] {
+  const listed: string[] = [];
+
+  for (const line of answer.split("\n")) {
+    const item = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (!item) continue;
+
+    const text = stripMarkdown(item[1]).toLowerCase();
+    const project = projects.find(
+      (p) =>
+        text.startsWith(p.title.toLowerCase()) || text.startsWith(p.id.toLowerCase())
+    );
+    if (project && !listed.includes(project.title)) listed.push(project.title);
+  }
+
+  return listed.map(phrases.tellMeAbout);
+}
+
+// --- Fallback: follow-ups for the project the answer focused on ---
+function followUpsFromRows(
+  scopedRows: PortfolioRow[],
+  knowledge: PortfolioRow[],
+  projects: ProjectSummary[],
+  phrases: Phrases
+): string[] {
+  const counts = new Map<string, number>();
+  for (const row of scopedRows) {
+    counts.set(row.project, (counts.get(row.project) ?? 0) + 1);
+  }
+
+  const focus = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .map(([id]) => projects.find((p) => p.id === id))
+    .find(Boolean);
+
+  const suggestions: string[] = [];
+
+  if (focus) {
+    const types = new Set(
+      knowledge
+        .filter((row) => row.project === focus.id)
+        .map((row) => row.type.toLowerCase())
+    );
+    for (const [type, question] of phrases.followUps) {
+      if (types.has(type)) suggestions.push(question(focus.title));
+    }
+    suggestions.splice(MAX_SUGGESTIONS - 1);
+  }
+
+  // Point to one highlighted project that isn't already in the conversation
+  const highlighted = knowledge.find(
+    (row) =>
+      row.is_highlight &&
+      row.project !== focus?.id &&
+      !counts.has(row.project) &&
+      projects.some((p) => p.id === row.project)
+  );
+  const next = projects.find((p) => p.id === highlighted?.project);
+  if (next) suggestions.push(phrases.tellMeAbout(next.title));
+
+  return suggestions;
+}
+
+type SuggestionInput = {
+  answer: string;
+  /** The visitor's question; never suggested back to them. */
+  question: string;
+  scopedRows: PortfolioRow[];
+  knowledge: PortfolioRow[];
+  persona: Pick<Persona, "aboutProject">;
+  language?: Language;
+};
+
+// --- Quick replies for the end of an answer ---
+// Prefer what the model itself offered (a choice question or a list of
+// projects); otherwise suggest follow-ups based on the rows it used.
+export function extractSuggestions({
+  answer,
+  question,
+  scopedRows,
+  knowledge,
+  persona,
+  language = DEFAULT_LANGUAGE,
+}: SuggestionInput): string[] {
+  const phrases = PHRASES[language];
+  const projects = deriveProjects(knowledge, persona);
+
+  let candidates = choicesFromQuestion(answer, phrases);
+  if (!candidates.length) candidates = projectsFromList(answer, projects, phrases);
+  if (!candidates.length) {
+    candidates = followUpsFromRows(scopedRows, knowledge, projects, phrases);
+  }
+
+  const asked = question.trim().toLowerCase();
+  return [...new Set(candidates)]
+    .filter((s) => s.toLowerCase() !== asked)
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+// --- Greeting for a case study page ---
+export function projectGreeting(
+  project: ProjectSummary,
+  persona: Pick<Persona, "name">,
+  language: Language = DEFAULT_LANGUAGE
+): string {
+  return PHRASES[language].projectGreeting(project.title, persona.name);
+}
+
+// --- Empty-state prompts built from the knowledge base ---
+// With `focusProject` (a case study page) they're about that project, plus
+// one way out to the rest of the portfolio.
+export function buildStarters(
+  knowledge: PortfolioRow[],
+  persona: Pick<Persona, "name" | "aboutProject">,
+  language: Language = DEFAULT_LANGUAGE,
+  focusProject?: string
+): string[] {
+  const phrases = PHRASES[language];
+  const starters: string[] = [];
+  const projects = deriveProjects(knowledge, persona);
+
+  const focus = projects.find((p) => p.id === focusProject);
+  if (focus) {
+    const types = new Set(
+      knowledge
+        .filter((row) => row.project === focus.id)
+        .map((row) => row.type.toLowerCase())
+    );
+    starters.push(phrases.tellMeAbout(focus.title));
+    for (const [type, question] of phrases.followUps) {
+      if (types.has(type)) starters.push(question(focus.title));
+    }
+    starters.splice(MAX_STARTERS - 1);
+    starters.push(phrases.otherWork(persona.name));
+    return starters;
+  }
+
+  if (knowledge.some((row) => row.project === persona.aboutProject)) {
+    starters.push(phrases.whoIs(persona.name));
+  }
+
+  // Highlighted case studies first, then the rest alphabetically
+  const highlighted = new Set(
+    knowledge.filter((row) => row.is_highlight).map((row) => row.project)
+  );
+  const featured = [
+    ...projects.filter((p) => highlighted.has(p.id)),
+    ...projects.filter((p) => !highlighted.has(p.id)),
+  ];
+  for (const project of featured.slice(0, 2)) {
+    starters.push(phrases.tellMeAbout(project.title));
+  }
+
+  if (knowledge.some((row) => ["process", "method"].includes(row.type.toLowerCase()))) {
+    starters.push(phrases.approach(persona.name));
+  }
+  starters.push(phrases.whatCanIAsk);
+
+  return starters.slice(0, MAX_STARTERS);
+}
@@ -0,0 +1,81 @@
+import type { ContactIntent } from "../contact/types";
+import type { Language } from "../i18n";
+
+// Shared by the /api/chat route and the AIChat widget
+
+// A knowledge row the answer was based on
+export type Citation = {
+  id: number | string | null;
+  project: string;
+  type: string;
+  title: string | null;
+};
+
+// Something the widget should show under the answer, beyond text
+export type ChatAction = { type: "contact_form"; intent: ContactIntent };
+
+// JSON body of a non-streaming reply
+export type ChatResponse = {
+  /** Present when server-side sessions are on; send it back with the next message. */
+  sessionId?: string;
+  response: string;
+  citations: Citation[];
+  /** Quick replies the visitor can send with one click. */
+  suggestions: string[];
+  /** Language the answer is in. */
+  language: Language;
+  action?: ChatAction;
+  /** Answered from the knowledge rows because the model was unavailable; worth retrying. */
+  degraded?: true;
+};
+
+// GET /api/chat: what the widget shows before the first message
+export type ChatIntro = {
+  greeting: string;
+  starters: string[];
+  language: Language;
+};
+
+export type ChatErrorCode =
+  | "bad_request"
+  | "origin_not_allowed"
+  | "not_found"
+  | "unknown_project"
+  | "payload_too_large"
+  | "rate_limited"
+  | "misconfigured"
+  /** The model provider is rate limiting us. */
+  | "model_busy"
+  /** The model provider is down or timed out, even after retries and the fallback. */
+  | "model_unavailable"
+  /** The model provider refused the request; retrying won't help. */
+  | "model_rejected"
+  | "server_error";
+
+// GET /api/chat/session?id=…: a stored conversation to restore
+export type ChatSessionResponse = {
+  sessionId: string;
+  messages: {
+    role: "user" | "assistant";
+    content: string;
+    citations?: Citation[];
+    suggestions?: string[];
+  }[];
+};
+
+// JSON body of a rejected or failed request
+export type ChatErrorResponse = {
+  response: string;
+  error: ChatErrorCode;
+  retryAfterSeconds?: number;
+  /** Sending the same message again may work. */
+  retryable?: boolean;
+};
+
+// Shape of one `data:` line in streaming mode (text/event-stream). The
+// `done` response is the final text: it replaces the deltas when guardrails
+// repaired or regenerated the answer.
+export type StreamEvent =
+  | { type: "delta"; content: string }
+  | ({ type: "done" } & ChatResponse)
+  | { type: "error"; message: string; error?: ChatErrorCode; retryable?: boolean };
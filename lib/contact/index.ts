@@ -0,0 +1,95 @@
+import { readNumberEnv } from "../env";
+import { createLocalLeadSink } from "./sinks/local";
+import { createSmtpLeadSink } from "./sinks/smtp";
+import { createSupabaseLeadSink } from "./sinks/supabase";
+import type { LeadSink } from "./types";
+
+export { contactReply, detectContactIntent } from "./intent";
+export { MIN_FILL_MS, sanitizeTranscript, validateContact } from "./validate";
+export type {
+  ContactErrorResponse,
+  ContactField,
+  ContactIntent,
+  ContactRequest,
+  ContactResponse,
+  Lead,
+  LeadSink,
+  TranscriptMessage,
+} from "./types";
+
+// --- Environment variables ---
+// CONTACT_SINK: "local" (default) | "supabase" | "smtp" | "off". With "off"
+// the chat never offers the contact form.
+const CONTACT_SINK = process.env.CONTACT_SINK?.trim().toLowerCase() || "local";
+const LEADS_FILE = process.env.LEADS_FILE?.trim() || ".data/leads.jsonl";
+const SUPABASE_LEADS_TABLE = process.env.SUPABASE_LEADS_TABLE?.trim() || "leads";
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+// Defaults match Mailpit / MailHog running locally
+const SMTP_HOST = process.env.SMTP_HOST?.trim() || "localhost";
+const SMTP_PORT = readNumberEnv("SMTP_PORT", 1025);
+const SMTP_TIMEOUT_MS = readNumberEnv("SMTP_TIMEOUT_MS", 10_000);
+const CONTACT_EMAIL_FROM =
+  process.env.CONTACT_EMAIL_FROM?.trim() || "Portfolio chat <portfolio-chat@localhost>";
+// Comma-separated
+const CONTACT_EMAIL_TO = process.env.CONTACT_EMAIL_TO?.trim() || "";
+
+type SinkFactory = () => LeadSink;
+
+// Register new backends here
+const SINKS: Record<string, SinkFactory> = {
+  local: () => createLocalLeadSink({ filePath: LEADS_FILE }),
+  supabase: () => {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error(
+        "CONTACT_SINK=supabase needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY."
+      );
+    }
+    return createSupabaseLeadSink({
+      url: SUPABASE_URL,
+      key: SUPABASE_SERVICE_ROLE_KEY,
+      table: SUPABASE_LEADS_TABLE,
+    });
+  },
+  smtp: () => {
+    const to = CONTACT_EMAIL_TO.split(",")
+      .map((address) => address.trim())
+      .filter(Boolean);
+    if (!to.length) {
+      throw new Error("CONTACT_SINK=smtp needs CONTACT_EMAIL_TO.");
+    }
+    return createSmtpLeadSink({
+      host: SMTP_HOST,
+      port: SMTP_PORT,
+      from: CONTACT_EMAIL_FROM,
+      to,
+      timeoutMs: SMTP_TIMEOUT_MS,
+    });
+  },
+};
+
+let activeSink: LeadSink | null | undefined;
+
+// Null when lead capture is off or misconfigured
+export function getLeadSink(): LeadSink | null {
+  if (activeSink !== undefined) return activeSink;
+
+  if (CONTACT_SINK === "off") {
+    activeSink = null;
+    return activeSink;
+  }
+
+  const factory = SINKS[CONTACT_SINK];
+  try {
+    if (!factory) {
+      throw new Error(
+        `Unknown CONTACT_SINK "${CONTACT_SINK}". Expected one of: off, ${Object.keys(SINKS).join(", ")}.`
+      );
+    }
+    activeSink = factory();
+  } catch (err) {
+    console.error("[contact] Disabled:", err);
+    activeSink = null;
+  }
+  return activeSink;
+}
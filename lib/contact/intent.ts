@@ -0,0 +1,83 @@
+import { DEFAULT_LANGUAGE, type Language } from "../i18n";
+import type { Persona } from "../prompt/persona";
+import type { ContactIntent } from "./types";
+
+// Like the injection screen, these are deliberately narrow: "how did she
+// contact participants?" or "what was her hiring process?" are questions
+// about the work and must still reach the model.
+const INTENT_PATTERNS: [intent: ContactIntent, pattern: RegExp][] = [
+  [
+    "hire",
+    /\b(?:want|like|looking|hoping|interested|love)\b[^.?!\n]{0,20}\bto (?:hire|recruit|bring (?:her|him|them|you) on)\b/i,
+  ],
+  ["hire", /\b(?:hire|recruit|headhunt)\s+(?:her|him|them|you)\b/i],
+  [
+    "hire",
+    /\b(?:is|are)\s+(?:she|he|they|you)\s+(?:open|available|looking)\b[^.?!\n]{0,30}\b(?:work|roles?|jobs?|opportunit(?:y|ies)|freelance|contracts?|positions?|hire)\b/i,
+  ],
+  ["hire", /\b(?:we(?:'re| are)|i(?:'m| am))\s+hiring\b/i],
+  ["hire", /\bavailable for (?:hire|work|freelance|contract)\b/i],
+  [
+    "contact",
+    /\b(?:how|where)\s+(?:can|do|could|should|would|may)\s+(?:i|we)\b[^.?!\n]{0,25}\b(?:contact|reach|get in touch|email|connect|talk|speak)\b/i,
+  ],
+  [
+    "contact",
+    /\b(?:i|we)(?:'d| would)?\s+(?:like|want|love)\s+to\s+(?:contact|reach|get in touch|connect with|(?:talk|speak|chat) (?:to|with) (?:her|him|them|you)|(?:set up|book|schedule) a (?:call|chat|meeting))\b/i,
+  ],
+  [
+    "contact",
+    /\b(?:her|his|their|your)\s+(?:email|e-mail|contact(?: info| information| details)?|phone number)\b/i,
+  ],
+  ["contact", /\b(?:get in touch|contact (?:her|him|them|you))\b/i],
+  // Spanish
+  [
+    "hire",
+    /\b(?:quiero|queremos|quisiera|quisiéramos|me gustaría|nos gustaría)\b[^.?!\n]{0,20}\bcontratar(?:la|lo|te)?\b/i,
+  ],
+  ["hire", /\bcontrat(?:arla|arlo|arte)\b/i],
+  [
+    "hire",
+    /\b(?:está|estás)\s+disponible\b[^.?!\n]{0,30}\b(?:trabajo|proyectos?|ofertas?|puestos?|contrat\w*)\b/i,
+  ],
+  ["hire", /\b(?:estamos|estoy)\s+contratando\b/i],
+  [
+    "contact",
+    /\b(?:contactarla|contactarlo|contactarte|escribirle|ponerme en contacto|ponernos en contacto)\b/i,
+  ],
+  ["contact", /\bsu\s+(?:correo|email|e-mail|contacto|teléfono)\b/i],
+  ["contact", /\b(?:cómo|como|dónde|donde)\b[^.?!\n]{0,20}\b(?:contacto|contactar)\b/i],
+];
+
+// --- Does the visitor want to hire or reach the portfolio owner? ---
+export function detectContactIntent(message: string): ContactIntent | null {
+  const text = message.replace(/[’‘]/g, "'");
+  for (const [intent, pattern] of INTENT_PATTERNS) {
+    if (pattern.test(text)) return intent;
+  }
+  return null;
+}
+
+const REPLIES: Record<Language, Record<ContactIntent, (name: string) => string>> = {
+  en: {
+    hire: (name) =>
+      `That’s great to hear! Leave your details below and I’ll pass them straight to ${name}, along with what we talked about here.`,
+    contact: (name) =>
+      `The quickest way to reach ${name} is the form below. I’ll send it along with this conversation so you don’t have to repeat yourself.`,
+  },
+  es: {
+    hire: (name) =>
+      `¡Qué buena noticia! Deja tus datos abajo y se los paso directo a ${name}, junto con lo que hablamos aquí.`,
+    contact: (name) =>
+      `La forma más rápida de contactar a ${name} es el formulario de abajo. Lo envío junto con esta conversación para que no tengas que repetir nada.`,
+  },
+};
+
+// What the chat says above the contact form
+export function contactReply(
+  persona: Pick<Persona, "name">,
+  intent: ContactIntent,
+  language: Language = DEFAULT_LANGUAGE
+): string {
+  return REPLIES[language][intent](persona.name);
+}
@@ -0,0 +1,35 @@
+import { accessSync, constants, mkdirSync } from "node:fs";
+import { appendFile } from "node:fs/promises";
+import path from "node:path";
+import type { LeadSink } from "../types";
+
+type LocalLeadSinkOptions = {
+  /** JSON Lines file; relative to the project root. */
+  filePath: string;
+};
+
+// --- One JSON object per line, appended per lead ---
+// Throws up front when the directory can't be written (read-only or
+// serverless filesystems), so lead capture is disabled and the chat never
+// offers a form whose leads would be lost.
+export function createLocalLeadSink({ filePath }: LocalLeadSinkOptions): LeadSink {
+  const resolved = path.resolve(process.cwd(), filePath);
+  const directory = path.dirname(resolved);
+
+  try {
+    mkdirSync(directory, { recursive: true });
+    accessSync(directory, constants.W_OK);
+  } catch (err) {
+    throw new Error(
+      `CONTACT_SINK=local can't write ${filePath} (${(err as Error).message}). Use supabase or smtp on hosts without a writable disk.`,
+      { cause: err }
+    );
+  }
+
+  return {
+    name: `local:${filePath}`,
+    async save(lead) {
+      await appendFile(resolved, `${JSON.stringify(lead)}\n`, "utf8");
+    },
+  };
+}
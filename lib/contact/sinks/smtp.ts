@@ -0,0 +1,171 @@
+import { createConnection, type Socket } from "node:net";
+import { hostname } from "node:os";
+import type { Lead, LeadSink } from "../types";
+
+type SmtpLeadSinkOptions = {
+  host: string;
+  port: number;
+  from: string;
+  to: string[];
+  timeoutMs: number;
+};
+
+// --- Email each lead through a plain SMTP server ---
+// No TLS or AUTH: meant for a local stand-in (Mailpit, MailHog, smtp4dev) or a
+// relay on a private network that forwards to a real inbox.
+export function createSmtpLeadSink(options: SmtpLeadSinkOptions): LeadSink {
+  return {
+    name: `smtp:${options.host}:${options.port}`,
+    async save(lead) {
+      await sendMail(options, formatEmail(lead, options));
+    },
+  };
+}
+
+// Plain-text summary: the details first, then the chat for context
+export function formatLeadText(lead: Lead): string {
+  const lines = [
+    lead.intent === "hire"
+      ? "New hiring request from the portfolio chat"
+      : "New message from the portfolio chat",
+    "",
+    `Name: ${lead.name}`,
+    `Email: ${lead.email}`,
+    ...(lead.company ? [`Company: ${lead.company}`] : []),
+    ...(lead.origin ? [`Site: ${lead.origin}`] : []),
+    `Language: ${lead.language}`,
+    "",
+    "Message:",
+    lead.message,
+  ];
+
+  if (lead.transcript.length) {
+    lines.push("", "Conversation:");
+    for (const message of lead.transcript) {
+      lines.push(`${message.role === "user" ? "Visitor" : "Assistant"}: ${message.content}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+// Header values can't contain line breaks; non-ASCII is encoded (RFC 2047)
+function header(value: string): string {
+  const flat = value.replace(/[\r\n]+/g, " ");
+  return /^[\x20-\x7e]*$/.test(flat)
+    ? flat
+    : `=?UTF-8?B?${Buffer.from(flat, "utf8").toString("base64")}?=`;
+}
+
+function formatEmail(lead: Lead, { from, to }: Pick<SmtpLeadSinkOptions, "from" | "to">) {
+  const subject =
+    lead.intent === "hire"
+      ? `Hiring request from ${lead.name}`
+      : `Message from ${lead.name}`;
+  const body = Buffer.from(formatLeadText(lead), "utf8")
+    .toString("base64")
+    .replace(/.{76}/g, "$&\r\n");
+
+  const data = [
+    `From: ${header(from)}`,
+    `To: ${to.map(header).join(", ")}`,
+    `Reply-To: ${header(lead.email)}`,
+    `Subject: ${header(subject)}`,
+    `Date: ${new Date(lead.at).toUTCString()}`,
+    `Message-ID: <${lead.id}@${header(hostname())}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+
+  return { from, to, data };
+}
+
+// Resolves with the last line of each server reply ("250 OK"), in order
+function replyReader(socket: Socket) {
+  let buffer = "";
+  let failure: Error | null = null;
+  const replies: string[] = [];
+  let waiter: { resolve: (line: string) => void; reject: (err: Error) => void } | null =
+    null;
+
+  const settle = () => {
+    if (!waiter) return;
+    const current = waiter;
+    if (replies.length) {
+      waiter = null;
+      current.resolve(replies.shift()!);
+    } else if (failure) {
+      waiter = null;
+      current.reject(failure);
+    }
+  };
+
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    let end = buffer.indexOf("\n");
+    while (end !== -1) {
+      const line = buffer.slice(0, end).replace(/\r$/, "");
+      buffer = buffer.slice(end + 1);
+      // "250-..." continues a reply; "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) replies.push(line);
+      end = buffer.indexOf("\n");
+    }
+    settle();
+  });
+
+  const fail = (err: Error) => {
+    failure ??= err;
+    settle();
+  };
+  socket.on("error", fail);
+  socket.on("close", () => fail(new Error("SMTP server closed the connection")));
+
+  return () =>
+    new Promise<string>((resolve, reject) => {
+      waiter = { resolve, reject };
+      settle();
+    });
+}
+
+async function sendMail(
+  { host, port, timeoutMs }: SmtpLeadSinkOptions,
+  { from, to, data }: { from: string; to: string[]; data: string }
+): Promise<void> {
+  const socket = createConnection({ host, port });
+  socket.setEncoding("utf8");
+  socket.setTimeout(timeoutMs, () =>
+    socket.destroy(new Error(`SMTP server didn't answer within ${timeoutMs}ms`))
+  );
+  const nextReply = replyReader(socket);
+
+  const expect = async (code: string, step: string) => {
+    const reply = await nextReply();
+    if (!reply.startsWith(code)) throw new Error(`SMTP ${step} failed: ${reply}`);
+  };
+  const command = async (line: string, code: string, step: string) => {
+    socket.write(`${line}\r\n`);
+    await expect(code, step);
+  };
+
+  try {
+    await expect("220", "greeting");
+    await command(`EHLO ${hostname()}`, "250", "EHLO");
+    await command(`MAIL FROM:<${address(from)}>`, "250", "MAIL FROM");
+    for (const recipient of to) {
+      await command(`RCPT TO:<${address(recipient)}>`, "25", "RCPT TO");
+    }
+    await command("DATA", "354", "DATA");
+    // Base64 bodies never start a line with ".", so no dot-stuffing needed
+    await command(`${data}\r\n.`, "250", "message");
+    socket.write("QUIT\r\n");
+  } finally {
+    socket.end();
+  }
+}
+
+// "Portfolio <chat@example.com>" → "chat@example.com"
+function address(value: string): string {
+  return (value.match(/<([^>]+)>/)?.[1] ?? value).trim();
+}
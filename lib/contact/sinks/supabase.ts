@@ -0,0 +1,57 @@
+import { createClient } from "@supabase/supabase-js";
+import type { Lead, LeadSink } from "../types";
+
+type SupabaseLeadSinkOptions = {
+  url: string;
+  /** Service-role key: leads hold personal data, so anon must not read them. */
+  key: string;
+  table: string;
+};
+
+// Columns mirror Lead (snake_case); transcript is jsonb.
+type LeadRow = {
+  id: string;
+  at: string;
+  name: string;
+  email: string;
+  company: string | null;
+  message: string;
+  intent: string;
+  language: string;
+  transcript: Lead["transcript"];
+  session_id: string | null;
+  origin: string | null;
+};
+
+function toRow(lead: Lead): LeadRow {
+  return {
+    id: lead.id,
+    at: lead.at,
+    name: lead.name,
+    email: lead.email,
+    company: lead.company,
+    message: lead.message,
+    intent: lead.intent,
+    language: lead.language,
+    transcript: lead.transcript,
+    session_id: lead.sessionId,
+    origin: lead.origin,
+  };
+}
+
+// --- Leads in a Supabase table ---
+export function createSupabaseLeadSink({
+  url,
+  key,
+  table,
+}: SupabaseLeadSinkOptions): LeadSink {
+  const supabase = createClient(url, key, { auth: { persistSession: false } });
+
+  return {
+    name: `supabase:${table}`,
+    async save(lead) {
+      const { error } = await supabase.from(table).insert(toRow(lead));
+      if (error) throw new Error(`Supabase error: ${error.message}`);
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import type { Language } from "../i18n";
+
+// Shared by the /api/contact route, the lead sinks and the AIChat widget
+
+/** "hire": the visitor wants to offer work. "contact": any other way of reaching out. */
+export type ContactIntent = "hire" | "contact";
+
+export type TranscriptMessage = {
+  role: "user" | "assistant";
+  content: string;
+};
+
+export type ContactField = "name" | "email" | "company" | "message";
+
+// Body of POST /api/contact
+export type ContactRequest = {
+  name: string;
+  email: string;
+  company?: string;
+  message: string;
+  intent?: ContactIntent;
+  /** The chat session; its stored conversation becomes the transcript. */
+  sessionId?: string | null;
+  /** Only used when the server has no stored session. */
+  transcript?: TranscriptMessage[];
+  language?: Language;
+  /** Honeypot: hidden from people, so only bots fill it in. */
+  website?: string;
+  /** Milliseconds between showing the form and sending it. */
+  elapsedMs?: number;
+};
+
+export type ContactResponse = {
+  ok: true;
+  /** Thank-you text to show in place of the form. */
+  response: string;
+};
+
+export type ContactErrorResponse = {
+  ok: false;
+  response: string;
+  error:
+    | "bad_request"
+    | "invalid"
+    | "origin_not_allowed"
+    | "payload_too_large"
+    | "rate_limited"
+    | "unavailable"
+    | "server_error";
+  /** Per-field problems when `error` is "invalid". */
+  fields?: Partial<Record<ContactField, string>>;
+  retryAfterSeconds?: number;
+};
+
+// --- What gets stored ---
+export type Lead = {
+  id: string;
+  /** ISO timestamp. */
+  at: string;
+  name: string;
+  email: string;
+  company: string | null;
+  message: string;
+  intent: ContactIntent;
+  language: Language;
+  /** The chat so far, oldest first, so the reply can pick up where it left off. */
+  transcript: TranscriptMessage[];
+  sessionId: string | null;
+  /** Site the widget was embedded on. */
+  origin: string | null;
+};
+
+export interface LeadSink {
+  readonly name: string;
+  save(lead: Lead): Promise<void>;
+}
@@ -0,0 +1,115 @@
+import { DEFAULT_LANGUAGE, isLanguage, type Language } from "../i18n";
+import type {
+  ContactField,
+  ContactIntent,
+  TranscriptMessage,
+} from "./types";
+
+// Field lengths the form allows
+export const CONTACT_FIELD_LIMITS: Record<ContactField, number> = {
+  name: 100,
+  email: 200,
+  company: 120,
+  message: 2000,
+};
+
+// Forms sent faster than a person can type are treated as bots
+export const MIN_FILL_MS = 3000;
+
+const EMAIL_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]{2,}$/;
+
+const MESSAGES: Record<
+  Language,
+  { required: string; tooLong: (max: number) => string; email: string }
+> = {
+  en: {
+    required: "Please fill this in.",
+    tooLong: (max) => `Please keep this under ${max} characters.`,
+    email: "That doesn’t look like an email address.",
+  },
+  es: {
+    required: "Completa este campo.",
+    tooLong: (max) => `Usa menos de ${max} caracteres.`,
+    email: "Eso no parece un correo electrónico.",
+  },
+};
+
+export type ContactDetails = {
+  name: string;
+  email: string;
+  company: string | null;
+  message: string;
+  intent: ContactIntent;
+  language: Language;
+};
+
+export type ContactValidation =
+  | { ok: true; details: ContactDetails }
+  | { ok: false; errors: Partial<Record<ContactField, string>> };
+
+// Everything but the message is a single line
+const field = (raw: Record<string, unknown>, name: ContactField) => {
+  const value = typeof raw[name] === "string" ? raw[name].trim() : "";
+  return name === "message" ? value : value.replace(/\s+/g, " ");
+};
+
+// --- Check the visitor's details; messages are in the visitor's language ---
+export function validateContact(raw: Record<string, unknown>): ContactValidation {
+  const language = isLanguage(raw.language) ? raw.language : DEFAULT_LANGUAGE;
+  const text = MESSAGES[language];
+  const errors: Partial<Record<ContactField, string>> = {};
+
+  const values = {
+    name: field(raw, "name"),
+    email: field(raw, "email"),
+    company: field(raw, "company"),
+    message: field(raw, "message"),
+  };
+
+  for (const name of Object.keys(values) as ContactField[]) {
+    if (name !== "company" && !values[name]) errors[name] = text.required;
+    else if (values[name].length > CONTACT_FIELD_LIMITS[name]) {
+      errors[name] = text.tooLong(CONTACT_FIELD_LIMITS[name]);
+    }
+  }
+  if (!errors.email && !EMAIL_PATTERN.test(values.email)) {
+    errors.email = text.email;
+  }
+
+  if (Object.keys(errors).length) return { ok: false, errors };
+
+  return {
+    ok: true,
+    details: {
+      ...values,
+      company: values.company || null,
+      intent: raw.intent === "hire" ? "hire" : "contact",
+      language,
+    },
+  };
+}
+
+// --- A client-sent transcript, trimmed to the most recent messages that fit ---
+export function sanitizeTranscript(
+  raw: unknown,
+  { maxMessages, maxChars }: { maxMessages: number; maxChars: number }
+): TranscriptMessage[] {
+  if (!Array.isArray(raw)) return [];
+
+  const messages: TranscriptMessage[] = raw
+    .map((m: { role?: unknown; content?: unknown }) => ({
+      role: m?.role === "assistant" ? ("assistant" as const) : ("user" as const),
+      content: String(m?.content ?? "").trim(),
+    }))
+    .filter((m) => m.content)
+    .slice(-maxMessages);
+
+  let chars = 0;
+  const kept: TranscriptMessage[] = [];
+  for (const message of [...messages].reverse()) {
+    chars += message.content.length;
+    if (chars > maxChars) break;
+    kept.unshift(message);
+  }
+  return kept;
+}
@@ -0,0 +1,6 @@
+// --- Read a numeric env var, falling back when unset or not a number ---
+export function readNumberEnv(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const parsed = raw === undefined || raw.trim() === "" ? NaN : Number(raw);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
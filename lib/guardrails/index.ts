@@ -0,0 +1,112 @@
+import { DEFAULT_LANGUAGE, type Language } from "../i18n";
+import type { Persona } from "../prompt/persona";
+import type { ProjectSummary } from "../prompt/system-prompt";
+import {
+  describeViolation,
+  repairAnswer,
+  validateAnswer,
+  type Violation,
+} from "./output";
+
+export { refusalMessage, screenInput } from "./input";
+export type { InjectionReason, InputScreen } from "./input";
+export { describeViolation, repairAnswer, validateAnswer } from "./output";
+export type { Violation } from "./output";
+
+// --- Environment variables ---
+// GUARDRAILS: "on" (default: screen input, repair, regenerate once) |
+// "repair" (no extra model calls) | "off"
+const GUARDRAILS = process.env.GUARDRAILS?.trim().toLowerCase() || "on";
+
+export const guardrailsEnabled = GUARDRAILS !== "off";
+
+export type GuardedAnswer = {
+  answer: string;
+  /** What the first answer got wrong (empty when it passed). */
+  violations: Violation[];
+  action: "passed" | "repaired" | "regenerated" | "replaced";
+};
+
+type GuardAnswerInput = {
+  answer: string;
+  projects: ProjectSummary[];
+  persona: Pick<Persona, "name" | "aboutProject" | "notProjects">;
+  /** Asks the model again with `correction` added to the conversation. */
+  regenerate?: (correction: string) => Promise<string>;
+  /** Language of the last-resort answer. */
+  language?: Language;
+};
+
+function correctionFor(violations: Violation[], projects: ProjectSummary[]): string {
+  return [
+    "Your last answer broke these rules:",
+    ...violations.map((v) => `- ${describeViolation(v)}`),
+    `The only projects are: ${projects.map((p) => `${p.title} (${p.id})`).join(", ")}.`,
+    "Answer the same question again, following every rule. Reply with the answer only.",
+  ].join("\n");
+}
+
+const SAFE_ANSWER: Record<Language, { intro: (name: string) => string; question: string }> = {
+  en: {
+    intro: (name) => `I’d rather not guess on that one. Here’s what I can tell you about in ${name}’s portfolio:`,
+    question: "Which one do you want to explore?",
+  },
+  es: {
+    intro: (name) => `Prefiero no adivinar con esa. Esto es lo que te puedo contar del portafolio de ${name}:`,
+    question: "¿Cuál quieres explorar?",
+  },
+};
+
+// Last resort when neither repair nor a second try produced a clean answer
+function safeAnswer(
+  projects: ProjectSummary[],
+  persona: Pick<Persona, "name">,
+  language: Language
+): string {
+  const { intro, question } = SAFE_ANSWER[language];
+  const titles = projects.slice(0, 4).map((p) => `- ${p.title}`);
+  return [intro(persona.name), "", ...titles, "", question].join("\n");
+}
+
+// --- Validate a finished answer; repair or regenerate it when it breaks the rules ---
+// Repair comes first because it costs nothing; the model is asked again only
+// when repair can't fix everything.
+export async function guardAnswer({
+  answer,
+  projects,
+  persona,
+  regenerate,
+  language = DEFAULT_LANGUAGE,
+}: GuardAnswerInput): Promise<GuardedAnswer> {
+  const context = { projects, persona };
+  const violations = guardrailsEnabled ? validateAnswer(answer, context) : [];
+  if (!violations.length) return { answer, violations, action: "passed" };
+
+  const repaired = repairAnswer(answer, violations);
+  if (repaired && !validateAnswer(repaired, context).length) {
+    return { answer: repaired, violations, action: "repaired" };
+  }
+
+  if (GUARDRAILS === "on" && regenerate) {
+    try {
+      const retry = (await regenerate(correctionFor(violations, projects))).trim();
+      const retryViolations = validateAnswer(retry, context);
+      if (retry && !retryViolations.length) {
+        return { answer: retry, violations, action: "regenerated" };
+      }
+
+      const retryRepaired = repairAnswer(retry, retryViolations);
+      if (retryRepaired && !validateAnswer(retryRepaired, context).length) {
+        return { answer: retryRepaired, violations, action: "repaired" };
+      }
+    } catch (err) {
+      console.error("[guardrails] Regeneration failed:", err);
+    }
+  }
+
+  return {
+    answer: safeAnswer(projects, persona, language),
+    violations,
+    action: "replaced",
+  };
+}
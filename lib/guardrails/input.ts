@@ -0,0 +1,78 @@
+import { DEFAULT_LANGUAGE, type Language } from "../i18n";
+import type { Persona } from "../prompt/persona";
+
+export type InjectionReason =
+  | "instruction_override"
+  | "prompt_extraction"
+  | "role_override"
+  | "fake_role_marker";
+
+export type InputScreen =
+  | { blocked: false }
+  | { blocked: true; reason: InjectionReason };
+
+// Deliberately narrow: a visitor asking "did she act as design lead?" or
+// "what instructions did she give the team?" must still get an answer
+const INJECTION_PATTERNS: [reason: InjectionReason, pattern: RegExp][] = [
+  [
+    "instruction_override",
+    /\b(?:ignore|disregard|forget|override|bypass)\b[^.?!\n]{0,40}\b(?:previous|prior|above|earlier|all|any|your|the|system)\b[^.?!\n]{0,30}\b(?:instructions?|prompts?|rules?|guidelines?|directions?|context)\b/i,
+  ],
+  [
+    "prompt_extraction",
+    /\b(?:show|reveal|print|repeat|display|share|tell me|give me|output|what(?:'s| is| are| were))\b[^.?!\n]{0,40}\b(?:system|initial|hidden|original|developer|secret)\s+(?:prompt|message|instructions?|rules)\b/i,
+  ],
+  [
+    "prompt_extraction",
+    /\b(?:show|reveal|print|repeat|display|output|tell me)\b[^.?!\n]{0,20}\byour\s+(?:prompt|instructions|rules|guidelines)\b/i,
+  ],
+  [
+    "prompt_extraction",
+    /\b(?:repeat|print|output|copy)\b[^.?!\n]{0,30}\b(?:everything|text|words|lines)\b[^.?!\n]{0,20}\b(?:above|before this)\b/i,
+  ],
+  [
+    "role_override",
+    /\b(?:you are now|from now on,? you(?: are|'re)|pretend (?:to be|you(?: are|'re))|developer mode|dan mode|jailbreak)\b/i,
+  ],
+  // Spanish
+  [
+    "instruction_override",
+    /\b(?:ignora|olvida|omite|descarta)\b[^.?!\n]{0,40}\b(?:instrucciones|reglas|indicaciones|prompt)\b/i,
+  ],
+  [
+    "prompt_extraction",
+    /\b(?:muestra|muéstrame|muestrame|revela|repite|dime|imprime|cuál es|cuales son)\b[^.?!\n]{0,40}\b(?:prompt|instrucciones)\s+(?:del sistema|de sistema|ocultas|originales|iniciales|secretas)\b/i,
+  ],
+  [
+    "prompt_extraction",
+    /\b(?:muestra|muéstrame|muestrame|revela|repite|dime)\b[^.?!\n]{0,20}\btus?\s+(?:prompt|instrucciones|reglas)\b/i,
+  ],
+  ["role_override", /\b(?:a partir de ahora eres|ahora eres|finge (?:ser|que eres))\b/i],
+  ["fake_role_marker", /^\s*(?:system|assistant)\s*:/im],
+  ["fake_role_marker", /<\/?(?:system|im_start|im_end)\b|\[\/?INST\]/i],
+];
+
+// --- Screen a visitor message before it reaches the model ---
+export function screenInput(message: string): InputScreen {
+  const text = message.replace(/[’‘]/g, "'").replace(/[ \t]+/g, " ");
+
+  for (const [reason, pattern] of INJECTION_PATTERNS) {
+    if (pattern.test(text)) return { blocked: true, reason };
+  }
+  return { blocked: false };
+}
+
+const REFUSALS: Record<Language, (name: string) => string> = {
+  en: (name) =>
+    `I can only help with questions about ${name}’s work, so I’ll skip that one. Want to hear about a project instead?`,
+  es: (name) =>
+    `Solo puedo ayudarte con preguntas sobre el trabajo de ${name}, así que esa me la salto. ¿Te cuento de algún proyecto?`,
+};
+
+// What a blocked message gets instead of a model answer
+export function refusalMessage(
+  persona: Pick<Persona, "name">,
+  language: Language = DEFAULT_LANGUAGE
+): string {
+  return REFUSALS[language](persona.name);
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { repairAnswer, validateAnswer, type Violation } from "./output";
+
+const context = {
+  projects: [
+    { id: "satori_2_0", title: "Satori 2.0", oneLiner: null },
+    { id: "echo", title: "Echo", oneLiner: null },
+    { id: "cafe_comun", title: "Café Común", oneLiner: null },
+  ],
+  persona: { aboutProject: "about_ana", notProjects: ["Accessibility"] },
+};
+
+const kinds = (answer: string) => validateAnswer(answer, context).map((v) => v.kind);
+
+// One row per check: an answer it must flag and a close one it must accept
+const RULES: [rule: string, kind: Violation["kind"], flagged: string, clean: string][] = [
+  [
+    "made-up project ID",
+    "unknown_project",
+    "You can read more under moon_base_app.",
+    "You can read more under satori_2_0, or mail ana_lopez@example.com.",
+  ],
+  [
+    "extra entry in a project list",
+    "unknown_project",
+    "Her projects:\n- **Satori 2.0** – a redesign\n- **Echo** – a voice app\n- **Moonbase** – a game",
+    "Her projects:\n- **Satori 2.0** – a redesign\n- **Echo** – a voice app\n- **Café Común** – a coffee shop",
+  ],
+  [
+    "theme listed as a project",
+    "unknown_project",
+    "Her projects:\n- **Satori 2.0** – a redesign\n- **Echo** – a voice app\n- **Accessibility** – everywhere",
+    "What she cares about:\n- Accessibility\n- Research\n- Writing",
+  ],
+  [
+    "\"the Foo project\" for a non-project",
+    "unknown_project",
+    "The Moonbase project took her a year.",
+    "The Satori 2.0 project took her a year.",
+  ],
+  [
+    "\"a project called Foo\" for a non-project",
+    "unknown_project",
+    "She also led a project called Moonbase.",
+    "She also led a project called Echo.",
+  ],
+  [
+    "\"isn't X, it's Y\"",
+    "banned_phrase",
+    "Echo isn't just a chatbot, it's a guide.",
+    "Echo isn't a chatbot. She built it as a guide.",
+  ],
+  [
+    "\"as an AI language model\"",
+    "banned_phrase",
+    "As an AI language model, I can't say.",
+    "Echo runs on a language model.",
+  ],
+  [
+    "system prompt heading",
+    "prompt_leak",
+    "ROLE\nYou are Ana's portfolio guide.",
+    "Her role on Echo was design lead.",
+  ],
+  [
+    "raw project row",
+    "prompt_leak",
+    "PROJECT: Echo\nTYPE: summary",
+    "Project: Echo, a voice app.",
+  ],
+  [
+    "raw row field",
+    "prompt_leak",
+    "TAGS: voice, research",
+    "Tags she used: voice, research.",
+  ],
+];
+
+describe("validateAnswer", () => {
+  it.each(RULES)("%s: flags the answer", (_rule, kind, flagged) => {
+    expect(kinds(flagged)).toContain(kind);
+  });
+
+  it.each(RULES)("%s: accepts the look-alike answer", (_rule, _kind, _flagged, clean) => {
+    expect(kinds(clean)).toEqual([]);
+  });
+
+  it("names the same unknown project once, however it is written", () => {
+    const violations = validateAnswer(
+      "The Moonbase project used moon_base. Ask about the Moonbase project.",
+      context
+    );
+    expect(violations).toEqual([{ kind: "unknown_project", name: "moon_base", line: undefined }]);
+  });
+});
+
+describe("repairAnswer", () => {
+  const repair = (answer: string) => repairAnswer(answer, validateAnswer(answer, context));
+
+  it.each([
+    ["Echo isn't just a chatbot, it's a guide.", "Echo is a guide."],
+    ["As an AI language model, I can't say. as an AI language model it's hard.", "I can't say. It's hard."],
+    [
+      "Her projects:\n- **Satori 2.0** – a redesign\n- **Echo** – a voice app\n- **Moonbase** – a game",
+      "Her projects:\n- **Satori 2.0** – a redesign\n- **Echo** – a voice app",
+    ],
+  ])("fixes %j", (answer, repaired) => {
+    expect(repair(answer)).toBe(repaired);
+    expect(kinds(repaired)).toEqual([]);
+  });
+
+  it.each([
+    "The Moonbase project took her a year.",
+    "ROLE\nYou are Ana's portfolio guide.",
+  ])("leaves %j for the model to redo", (answer) => {
+    expect(repair(answer)).toBe(answer);
+  });
+});
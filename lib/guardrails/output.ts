@@ -0,0 +1,177 @@
+import type { Persona } from "../prompt/persona";
+import type { ProjectSummary } from "../prompt/system-prompt";
+
+export type Violation =
+  /** The answer presents something as a project that isn't one. */
+  | { kind: "unknown_project"; name: string; line?: string }
+  | { kind: "banned_phrase"; phrase: string }
+  /** The answer quotes the system prompt or raw knowledge rows. */
+  | { kind: "prompt_leak" };
+
+type BannedPhrase = {
+  name: string;
+  pattern: RegExp;
+  /** Rewrites the phrasing away, when that can be done without the model. */
+  repair?: (text: string) => string;
+};
+
+// "It isn't just a chatbot, it's a guide" → "It is a guide"
+const ISNT_X_ITS_Y =
+  /\b([\w.]+)\s+(?:isn['’]t|is not)\s+(?:just |only |simply |merely )?[^.!?\n,;—–]{1,60}?\s*[,;—–-]+\s*(?:it|this|that|she|he|they)(?:['’]s| is)\b/gi;
+const AS_AN_AI = /\bas an AI language model\b,?\s*/gi;
+
+// --- Phrasings the persona forbids ---
+const BANNED_PHRASES: BannedPhrase[] = [
+  {
+    name: "isn't X, it's Y",
+    pattern: ISNT_X_ITS_Y,
+    repair: (text) => text.replace(ISNT_X_ITS_Y, (_match, subject: string) => `${subject} is`),
+  },
+  {
+    name: "as an AI language model",
+    pattern: AS_AN_AI,
+    repair: (text) =>
+      text
+        .replace(AS_AN_AI, "")
+        .replace(/(^|[.!?]\s+)([a-z])/g, (_m, lead: string, c: string) => lead + c.toUpperCase()),
+  },
+];
+
+// System prompt headings and raw row fields never belong in an answer
+const PROMPT_LEAK_PATTERNS = [
+  /^(?:ROLE|TONE|DATA MODEL|PROJECT LIST BEHAVIOR|ANSWER PATTERNS|FORMATTING|HONESTY|LANGUAGE|PAGE CONTEXT)\s*$/m,
+  /^PROJECT: .+\nTYPE: /m,
+  /^(?:TAGS|TOOLS_METHODS|ONE_LINER|DEPTH): /m,
+];
+
+// "the Foo project", "a case study called Foo"
+const PROJECT_REFERENCES = [
+  /\b[Tt]he\s+[“"*]*([A-Z][^”"*.,!?\n]{1,40}?)[”"*]*\s+(?:project|case study)\b/g,
+  /\b(?:project|case study)\s+(?:called|named|titled)\s+[“"*]*([^”"*.,!?\n]{2,40}?)[”"*]*(?=[\s.,!?]|$)/gi,
+];
+
+// snake_case words look like project IDs to a reader
+const PROJECT_ID = /\b[a-z0-9]+(?:_[a-z0-9]+)+\b/g;
+
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/;
+
+type ValidationContext = {
+  projects: ProjectSummary[];
+  persona: Pick<Persona, "aboutProject" | "notProjects">;
+};
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[*_`“”"]/g, "").replace(/\s+/g, " ").trim();
+
+// A name counts as a project when it contains a project's ID or title, or
+// is the start of one: "Satori" and "the Satori 2.0 redesign" both pass
+function knownProject(
+  name: string,
+  { projects, persona }: ValidationContext
+): boolean {
+  const n = normalize(name);
+  if (persona.notProjects.some((theme) => normalize(theme) === n)) return false;
+  if (n.length < 3) return true;
+  return projects.some((p) =>
+    [p.id, p.id.replace(/_/g, " "), p.title].some((candidate) => {
+      const c = normalize(candidate);
+      return n.includes(c) || c.startsWith(n);
+    })
+  );
+}
+
+// The name a list item leads with: "**Foo** – …", "Foo: …", "Foo — …"
+function leadingName(item: string): string {
+  const bold = item.match(/^\*\*([^*]+)\*\*/);
+  if (bold) return bold[1];
+  return item.split(/\s+[–—-]\s+|:\s/)[0];
+}
+
+// --- Check an answer against the portfolio and the persona's style rules ---
+export function validateAnswer(
+  answer: string,
+  context: ValidationContext
+): Violation[] {
+  const { projects, persona } = context;
+  const violations: Violation[] = [];
+  const unknown = new Set<string>();
+  const flag = (name: string, line?: string) => {
+    const key = normalize(name);
+    if (unknown.has(key)) return;
+    unknown.add(key);
+    violations.push({ kind: "unknown_project", name: name.trim(), line });
+  };
+
+  // Project IDs that aren't real
+  const validIds = new Set([...projects.map((p) => p.id), persona.aboutProject]);
+  const withoutLinks = answer.replace(/\S+:\/\/\S+|[\w.+-]+@[\w-]+\.[\w.-]+/g, "");
+  for (const [id] of withoutLinks.matchAll(PROJECT_ID)) {
+    if (!validIds.has(id)) flag(id);
+  }
+
+  // A list of projects with an extra entry in it
+  const items = answer
+    .split("\n")
+    .map((line) => ({ line, item: line.match(LIST_ITEM)?.[1] }))
+    .filter((entry): entry is { line: string; item: string } => Boolean(entry.item));
+  const listed = items.filter(({ item }) => knownProject(leadingName(item), context));
+  const isProjectList = listed.length >= 2 && listed.length * 2 >= items.length;
+  if (isProjectList) {
+    for (const { line, item } of items) {
+      const name = leadingName(item);
+      if (!knownProject(name, context)) flag(name, line);
+    }
+  }
+
+  // "the Foo project" where Foo isn't one
+  for (const pattern of PROJECT_REFERENCES) {
+    for (const [, name] of answer.matchAll(pattern)) {
+      if (!knownProject(name, context)) flag(name);
+    }
+  }
+
+  for (const { name, pattern } of BANNED_PHRASES) {
+    if (answer.match(pattern)) violations.push({ kind: "banned_phrase", phrase: name });
+  }
+
+  if (PROMPT_LEAK_PATTERNS.some((pattern) => pattern.test(answer))) {
+    violations.push({ kind: "prompt_leak" });
+  }
+
+  return violations;
+}
+
+// --- Fix what can be fixed without the model ---
+// Banned phrasings are rewritten and made-up entries are dropped from project
+// lists. Anything else (an invented project mid-sentence, a leaked prompt) is
+// left alone; validate again to see whether the repair was enough.
+export function repairAnswer(answer: string, violations: Violation[]): string {
+  let text = answer;
+
+  for (const violation of violations) {
+    if (violation.kind === "banned_phrase") {
+      const phrase = BANNED_PHRASES.find((p) => p.name === violation.phrase);
+      if (phrase?.repair) text = phrase.repair(text);
+    } else if (violation.kind === "unknown_project" && violation.line) {
+      const line = violation.line;
+      text = text
+        .split("\n")
+        .filter((l) => l !== line)
+        .join("\n");
+    }
+  }
+
+  return text.trim();
+}
+
+// For the regeneration prompt: what the last answer got wrong
+export function describeViolation(violation: Violation): string {
+  switch (violation.kind) {
+    case "unknown_project":
+      return `It mentioned "${violation.name}" as a project, but that is not one of the valid project IDs.`;
+    case "banned_phrase":
+      return `It used the phrasing "${violation.phrase}".`;
+    case "prompt_leak":
+      return "It repeated your instructions or raw knowledge rows.";
+  }
+}
@@ -0,0 +1,118 @@
+// Languages the chat can answer in. Shared by the server and the widget, so
+// nothing here may depend on Node APIs.
+
+export const LANGUAGES = ["en", "es"] as const;
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+/** What a client may ask for: a fixed language, or detect it per message. */
+export type LanguagePreference = Language | "auto";
+
+// Used in the system prompt ("Answer in Spanish")
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  es: "Spanish",
+};
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && (LANGUAGES as readonly string[]).includes(value);
+}
+
+// "es-MX" → "es"; anything unsupported → null
+export function toLanguage(value: string | null | undefined): Language | null {
+  const code = value?.trim().toLowerCase().split(/[-_]/)[0];
+  return isLanguage(code) ? code : null;
+}
+
+export function parseLanguagePreference(value: unknown): LanguagePreference {
+  return typeof value === "string" ? toLanguage(value) ?? "auto" : "auto";
+}
+
+// --- Per-message language detection ---
+// Counts common function words of each language. Short or mixed messages
+// ("hi", "Satori 2.0?") are undecided and return null so the caller can fall
+// back to the conversation or the browser's language.
+const WORDS: Record<Language, Set<string>> = {
+  en: new Set(
+    `the and is are was were what how who why which where when about her she his
+    he it its this that these those of to in for on with from can could does did
+    do you your me my tell show give work works worked projects project any have
+    has hi hello hey thanks thank please would like there`.split(/\s+/)
+  ),
+  es: new Set(
+    `el la los las un una unos unas y es son fue era que qué como cómo quien quién
+    quienes cuál cual cuáles donde dónde cuando cuándo por para con sin sobre del
+    al de en su sus ella él lo le les me mi tu tus puedes puede hizo hace tiene
+    trabajo trabajos proyectos proyecto hola gracias cuéntame cuentame dime
+    muéstrame muestrame háblame hablame más mas muy también tambien pero este esta
+    estos estas eso hay algún algun alguna`.split(/\s+/)
+  ),
+};
+
+const SPANISH_MARKS = /[¿¡ñ]/i;
+
+export function detectLanguage(text: string): Language | null {
+  const words = text.toLowerCase().match(/[\p{L}]+/gu) ?? [];
+  const scores: Record<Language, number> = { en: 0, es: 0 };
+
+  for (const word of words) {
+    for (const language of LANGUAGES) {
+      if (WORDS[language].has(word)) scores[language] += 1;
+    }
+  }
+  if (SPANISH_MARKS.test(text)) scores.es += 2;
+
+  if (scores.es === scores.en) return null;
+  return scores.es > scores.en ? "es" : "en";
+}
+
+// First supported language in an Accept-Language header, by preference order
+export function languageFromHeader(header: string | null): Language | null {
+  if (!header) return null;
+
+  const ranked = header
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.find((p) => p.trim().startsWith("q="));
+      return { tag, weight: q ? Number(q.trim().slice(2)) || 0 : 1 };
+    })
+    .sort((a, b) => b.weight - a.weight);
+
+  for (const { tag } of ranked) {
+    const language = toLanguage(tag);
+    if (language) return language;
+  }
+  return null;
+}
+
+type ResolveLanguageInput = {
+  preference: LanguagePreference;
+  message: string;
+  /** Earlier visitor messages, oldest first. */
+  previousMessages?: string[];
+  acceptLanguage?: string | null;
+};
+
+// --- Which language to answer in ---
+// A fixed preference always wins. Otherwise: the message itself, then the
+// visitor's most recent message with a clear language, then the browser.
+export function resolveLanguage({
+  preference,
+  message,
+  previousMessages = [],
+  acceptLanguage = null,
+}: ResolveLanguageInput): Language {
+  if (preference !== "auto") return preference;
+
+  const detected = detectLanguage(message);
+  if (detected) return detected;
+
+  for (const previous of [...previousMessages].reverse()) {
+    const language = detectLanguage(previous);
+    if (language) return language;
+  }
+
+  return languageFromHeader(acceptLanguage) ?? DEFAULT_LANGUAGE;
+}
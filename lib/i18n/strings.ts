@@ -0,0 +1,134 @@
+import type { Language } from "./index";
+
+// Every piece of text the chat widget shows or announces. To add a language,
+// add it to LANGUAGES and give it an entry here; TypeScript points out
+// anything missing.
+export type WidgetStrings = {
+  title: string;
+  subtitle: string;
+  openChat: string;
+  closeChat: string;
+  newChat: string;
+  newChatHint: string;
+  placeholder: string;
+  /** Accessible name of the message box. */
+  messageLabel: string;
+  /** Read after the message box's name by screen readers. */
+  keyboardHint: string;
+  send: string;
+  stop: string;
+  emptyState: string;
+  sources: string;
+  suggestions: string;
+  /** Screen-reader prefixes for each message bubble. */
+  you: string;
+  assistant: string;
+  /** Announced while an answer is on its way. */
+  replying: string;
+  noResponse: string;
+  error: string;
+  /** The model provider is rate limiting the site. */
+  modelBusy: string;
+  /** The model refused the question; retrying the same words won't help. */
+  modelRejected: string;
+  /** Button under a failed or degraded answer that asks again. */
+  retry: string;
+  originNotAllowed: string;
+  rateLimited: (waitSeconds: number | null) => string;
+  /** Sent when a source chip without a case-study URL is clicked. */
+  askAboutSource: (title: string) => string;
+  // Contact form shown for hiring and contact requests
+  contactForm: string;
+  contactName: string;
+  contactEmail: string;
+  contactCompany: string;
+  contactMessage: string;
+  optional: string;
+  contactSubmit: string;
+  contactSending: string;
+  contactInvalid: string;
+  contactError: string;
+};
+
+export const WIDGET_STRINGS: Record<Language, WidgetStrings> = {
+  en: {
+    title: "Ask my portfolio anything",
+    subtitle: "Projects, process, tools, background.",
+    openChat: "Open portfolio chat",
+    closeChat: "Close chat",
+    newChat: "Start a new chat",
+    newChatHint: "New chat",
+    placeholder: "Ask a question about the work…",
+    messageLabel: "Your question",
+    keyboardHint: "Enter sends, Shift+Enter adds a new line, Escape closes the chat.",
+    send: "Send message",
+    stop: "Stop generating",
+    emptyState: "Ask about projects, process, tools or background.",
+    sources: "Sources",
+    suggestions: "Suggested replies",
+    you: "You:",
+    assistant: "Assistant:",
+    replying: "Writing an answer…",
+    noResponse: "No response received.",
+    error: "Sorry, something went wrong on my end. Mind trying that again in a bit?",
+    modelBusy: "Lots of people are asking me things right now. Give me a moment and try again.",
+    modelRejected: "I couldn't answer that one. Could you ask it another way?",
+    retry: "Try again",
+    originNotAllowed: "This chat isn't set up for this site yet, so I can't answer here.",
+    rateLimited: (wait) =>
+      wait
+        ? `You're asking faster than I can keep up! Give me about ${wait} second${wait === 1 ? "" : "s"} and try again.`
+        : "You're asking faster than I can keep up! Give me a moment and try again.",
+    askAboutSource: (title) => `Tell me more about ${title}`,
+    contactForm: "Contact form",
+    contactName: "Name",
+    contactEmail: "Email",
+    contactCompany: "Company",
+    contactMessage: "Message",
+    optional: "optional",
+    contactSubmit: "Send",
+    contactSending: "Sending…",
+    contactInvalid: "Please check the highlighted fields.",
+    contactError: "Your message couldn't be sent. Please try again in a bit.",
+  },
+  es: {
+    title: "Pregúntale a mi portafolio",
+    subtitle: "Proyectos, proceso, herramientas, trayectoria.",
+    openChat: "Abrir el chat del portafolio",
+    closeChat: "Cerrar el chat",
+    newChat: "Empezar un chat nuevo",
+    newChatHint: "Chat nuevo",
+    placeholder: "Haz una pregunta sobre el trabajo…",
+    messageLabel: "Tu pregunta",
+    keyboardHint: "Enter envía, Mayús+Enter añade una línea, Escape cierra el chat.",
+    send: "Enviar mensaje",
+    stop: "Detener la respuesta",
+    emptyState: "Pregunta por proyectos, proceso, herramientas o trayectoria.",
+    sources: "Fuentes",
+    suggestions: "Respuestas sugeridas",
+    you: "Tú:",
+    assistant: "Asistente:",
+    replying: "Escribiendo una respuesta…",
+    noResponse: "No llegó ninguna respuesta.",
+    error: "Perdón, algo falló de mi lado. ¿Lo intentas de nuevo en un momento?",
+    modelBusy: "Mucha gente me está preguntando cosas ahora mismo. Dame un momento y vuelve a intentarlo.",
+    modelRejected: "No pude responder eso. ¿Me lo preguntas de otra forma?",
+    retry: "Reintentar",
+    originNotAllowed: "Este chat todavía no está configurado para este sitio, así que no puedo responder aquí.",
+    rateLimited: (wait) =>
+      wait
+        ? `¡Vas más rápido que yo! Dame unos ${wait} segundo${wait === 1 ? "" : "s"} y vuelve a intentarlo.`
+        : "¡Vas más rápido que yo! Dame un momento y vuelve a intentarlo.",
+    askAboutSource: (title) => `Cuéntame más sobre ${title}`,
+    contactForm: "Formulario de contacto",
+    contactName: "Nombre",
+    contactEmail: "Correo electrónico",
+    contactCompany: "Empresa",
+    contactMessage: "Mensaje",
+    optional: "opcional",
+    contactSubmit: "Enviar",
+    contactSending: "Enviando…",
+    contactInvalid: "Revisa los campos marcados.",
+    contactError: "No se pudo enviar tu mensaje. Inténtalo de nuevo en un momento.",
+  },
+};
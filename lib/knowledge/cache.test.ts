@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createKnowledgeCache } from "./cache";
+import type { PortfolioRow } from "./types";
+
+const row = (content: string): PortfolioRow =>
+  ({ id: 1, project: "satori_2_0", type: "summary", title: "Satori 2.0", content }) as PortfolioRow;
+
+// A load() whose calls resolve when the test says so
+function controlledLoad() {
+  const pending: { resolve: (rows: PortfolioRow[]) => void; reject: (err: Error) => void }[] = [];
+  const load = vi.fn(
+    () =>
+      new Promise<PortfolioRow[]>((resolve, reject) => {
+        pending.push({ resolve, reject });
+      })
+  );
+  return { load, pending };
+}
+
+const options = { ttlMs: 60_000, backoffBaseMs: 1000, backoffMaxMs: 10_000 };
+
+describe("createKnowledgeCache", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("shares one fetch between concurrent readers", async () => {
+    const { load, pending } = controlledLoad();
+    const cache = createKnowledgeCache(load, options);
+
+    const reads = [cache.get(), cache.get()];
+    pending[0].resolve([row("v1")]);
+
+    expect(await Promise.all(reads)).toEqual([[row("v1")], [row("v1")]]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("never keeps a fetch that started before revalidate()", async () => {
+    const { load, pending } = controlledLoad();
+    const cache = createKnowledgeCache(load, options);
+
+    // A reader's fetch is in flight, then the admin saves and revalidates
+    const read = cache.get();
+    const revalidated = cache.revalidate();
+    expect(load).toHaveBeenCalledTimes(2);
+
+    // The old fetch lands last-read data first; it must not become the snapshot
+    pending[0].resolve([row("before the save")]);
+    pending[1].resolve([row("after the save")]);
+
+    expect(await revalidated).toMatchObject({ rowCount: 1, changed: true });
+    expect(await read).toEqual([row("after the save")]);
+    expect(await cache.get()).toEqual([row("after the save")]);
+  });
+
+  it("hands a superseded fetch's callers the newer result, even when it finishes first", async () => {
+    const { load, pending } = controlledLoad();
+    const cache = createKnowledgeCache(load, options);
+
+    const read = cache.get();
+    const revalidated = cache.revalidate();
+    pending[1].resolve([row("after the save")]);
+    await revalidated;
+    pending[0].resolve([row("before the save")]);
+
+    expect(await read).toEqual([row("after the save")]);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("ignores failures of a superseded fetch", async () => {
+    const { load, pending } = controlledLoad();
+    const cache = createKnowledgeCache(load, options);
+
+    const read = cache.get();
+    const revalidated = cache.revalidate();
+    pending[0].reject(new Error("timeout"));
+    pending[1].resolve([row("after the save")]);
+
+    await expect(revalidated).resolves.toMatchObject({ changed: true });
+    expect(await read).toEqual([row("after the save")]);
+    expect(cache.status().consecutiveFailures).toBe(0);
+  });
+});
@@ -0,0 +1,163 @@
+import { createHash } from "node:crypto";
+import type { PortfolioRow } from "./types";
+
+export type KnowledgeSnapshot = {
+  rows: PortfolioRow[];
+  /** Short content hash; changes whenever any row changes. */
+  version: string;
+  loadedAt: number;
+};
+
+export type KnowledgeCacheStatus = {
+  version: string | null;
+  rowCount: number;
+  loadedAt: number | null;
+  stale: boolean;
+  consecutiveFailures: number;
+  retryAt: number | null;
+};
+
+export type RevalidateResult = {
+  version: string;
+  rowCount: number;
+  changed: boolean;
+};
+
+type KnowledgeCacheOptions = {
+  /** How long a snapshot counts as fresh. */
+  ttlMs: number;
+  /** First retry delay after a failed fetch; doubles per failure. */
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+};
+
+export type KnowledgeCache = {
+  /** Fresh rows, or the last good snapshot while a refresh runs in the background. */
+  get(): Promise<PortfolioRow[]>;
+  /**
+   * Fetch now, ignoring TTL and backoff. A fetch already running may predate
+   * the change being announced, so a new one starts and wins. Throws when the
+   * fetch fails.
+   */
+  revalidate(): Promise<RevalidateResult>;
+  status(): KnowledgeCacheStatus;
+};
+
+export function hashRows(rows: PortfolioRow[]): string {
+  return createHash("sha256")
+    .update(JSON.stringify(rows))
+    .digest("hex")
+    .slice(0, 12);
+}
+
+// --- TTL cache with stale-while-revalidate and exponential backoff ---
+export function createKnowledgeCache(
+  load: () => Promise<PortfolioRow[]>,
+  { ttlMs, backoffBaseMs, backoffMaxMs }: KnowledgeCacheOptions
+): KnowledgeCache {
+  let snapshot: KnowledgeSnapshot | null = null;
+  let inFlight: { generation: number; promise: Promise<RevalidateResult> } | null = null;
+  // Bumped by revalidate(): a fetch that started before the bump may have
+  // missed the edit that prompted it, so it never becomes the snapshot
+  let generation = 0;
+  // The newest fetch, settled or not: what a superseded one resolves to
+  let latest: Promise<RevalidateResult> | null = null;
+  let consecutiveFailures = 0;
+  let retryAt = 0;
+
+  const isStale = () => !snapshot || Date.now() - snapshot.loadedAt > ttlMs;
+
+  const refresh = (): Promise<RevalidateResult> => {
+    // Concurrent callers share one fetch, as long as it's current
+    if (inFlight?.generation === generation) return inFlight.promise;
+
+    const started = Date.now();
+    const mine = generation;
+    const superseded = () => mine !== generation;
+
+    const promise: Promise<RevalidateResult> = load()
+      .then((rows) => {
+        // Outdated before it finished: hand callers the newer fetch instead
+        if (superseded()) return latest!;
+
+        const version = hashRows(rows);
+        const changed = version !== snapshot?.version;
+
+        // Keep the same array when nothing changed so indexes and embeddings
+        // cached against it stay warm
+        snapshot = {
+          rows: changed || !snapshot ? rows : snapshot.rows,
+          version,
+          loadedAt: Date.now(),
+        };
+        consecutiveFailures = 0;
+        retryAt = 0;
+
+        console.log(
+          `[knowledge] Loaded ${rows.length} rows (version ${version}${changed ? "" : ", unchanged"}) in (ms):`,
+          Date.now() - started
+        );
+
+        return { version, rowCount: rows.length, changed };
+      })
+      .catch((err) => {
+        if (superseded()) return latest!;
+
+        consecutiveFailures++;
+        const delay = Math.min(
+          backoffBaseMs * 2 ** (consecutiveFailures - 1),
+          backoffMaxMs
+        );
+        retryAt = Date.now() + delay;
+
+        console.error(
+          `[knowledge] Fetch failed (${consecutiveFailures} in a row); retrying after ${delay}ms:`,
+          err
+        );
+        throw err;
+      })
+      .finally(() => {
+        if (inFlight?.promise === promise) inFlight = null;
+      });
+
+    inFlight = { generation: mine, promise };
+    latest = promise;
+    return promise;
+  };
+
+  return {
+    async get() {
+      if (!isStale()) return snapshot!.rows;
+
+      // Still backing off from a failed fetch: serve whatever we have
+      if (Date.now() < retryAt) return snapshot?.rows ?? [];
+
+      if (snapshot) {
+        // Stale-while-revalidate: answer now, refresh in the background
+        refresh().catch(() => {});
+        return snapshot.rows;
+      }
+
+      try {
+        await refresh();
+        return snapshot!.rows;
+      } catch {
+        return [];
+      }
+    },
+    revalidate() {
+      generation++;
+      return refresh();
+    },
+    status() {
+      return {
+        version: snapshot?.version ?? null,
+        rowCount: snapshot?.rows.length ?? 0,
+        loadedAt: snapshot?.loadedAt ?? null,
+        stale: isStale(),
+        consecutiveFailures,
+        retryAt: retryAt > Date.now() ? retryAt : null,
+      };
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { estimateTokens } from "../prompt/tokens";
+
+// About what one row gets when a dozen share the default knowledge budget
+// (PROMPT_BUDGET_TOKENS 6000, 60% for knowledge), so chunks arrive whole
+// instead of being excerpted
+export const DEFAULT_CHUNK_TOKENS = 300;
+
+const SENTENCE = /[^.!?]+(?:[.!?]+["'”’)\]]*|$)\s*/g;
+
+// Pieces of at most `maxChars`: sentences, and words for run-on text
+function pieces(paragraph: string, maxChars: number): string[] {
+  if (paragraph.length <= maxChars) return [paragraph];
+
+  const parts: string[] = [];
+  for (const sentence of paragraph.match(SENTENCE) ?? [paragraph]) {
+    let rest = sentence.trim();
+    while (rest.length > maxChars) {
+      const cut = rest.lastIndexOf(" ", maxChars);
+      const end = cut > 0 ? cut : maxChars;
+      parts.push(rest.slice(0, end).trim());
+      rest = rest.slice(end).trim();
+    }
+    if (rest) parts.push(rest);
+  }
+  return parts;
+}
+
+// --- Split long content into prompt-sized chunks, on paragraph boundaries ---
+// Paragraphs are packed together up to the limit; a paragraph that's too long
+// on its own is split between sentences. Short content comes back as is.
+export function chunkContent(content: string, maxTokens = DEFAULT_CHUNK_TOKENS): string[] {
+  const text = content.trim();
+  if (estimateTokens(text) <= maxTokens) return [text];
+
+  // estimateTokens is ~4 characters per token
+  const maxChars = maxTokens * 4;
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+
+    // A long paragraph comes back as sentences, rejoined with a space
+    pieces(trimmed, maxChars).forEach((piece, index) => {
+      const separator = !current ? "" : index === 0 ? "\n\n" : " ";
+      if (current && current.length + separator.length + piece.length > maxChars) {
+        chunks.push(current);
+        current = piece;
+      } else {
+        current += separator + piece;
+      }
+    });
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
@@ -0,0 +1,97 @@
+import { readNumberEnv } from "../env";
+import { createKnowledgeCache } from "./cache";
+import { createLocalKnowledgeSource } from "./sources/local";
+import { createSupabaseKnowledgeSource } from "./sources/supabase";
+import type { KnowledgeSource, PortfolioRow } from "./types";
+
+export type { KnowledgeSource, PortfolioRow, PortfolioRowInput } from "./types";
+export type { KnowledgeCacheStatus, RevalidateResult } from "./cache";
+
+// --- Environment variables ---
+// KNOWLEDGE_SOURCE: "supabase" | "local". When unset, Supabase is used if its
+// env vars exist, otherwise the local file.
+const KNOWLEDGE_SOURCE = process.env.KNOWLEDGE_SOURCE?.trim().toLowerCase();
+const KNOWLEDGE_FILE =
+  process.env.KNOWLEDGE_FILE?.trim() || "data/portfolio-knowledge.json";
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const SUPABASE_KNOWLEDGE_TABLE =
+  process.env.SUPABASE_KNOWLEDGE_TABLE?.trim() || "portfolio-knowledge";
+// Seconds a loaded snapshot is served before a background refresh
+const KNOWLEDGE_CACHE_TTL_SECONDS = readNumberEnv(
+  "KNOWLEDGE_CACHE_TTL_SECONDS",
+  300
+);
+
+type SourceFactory = () => KnowledgeSource;
+
+// Register new backends here; the chat route only ever sees `KnowledgeSource`.
+const SOURCES: Record<string, SourceFactory> = {
+  supabase: () => {
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+      throw new Error(
+        "KNOWLEDGE_SOURCE=supabase needs NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY."
+      );
+    }
+    return createSupabaseKnowledgeSource({
+      url: SUPABASE_URL,
+      key: SUPABASE_ANON_KEY,
+      table: SUPABASE_KNOWLEDGE_TABLE,
+      writeKey: SUPABASE_SERVICE_ROLE_KEY,
+    });
+  },
+  local: () => createLocalKnowledgeSource({ filePath: KNOWLEDGE_FILE }),
+};
+
+function resolveSourceName(): string {
+  if (KNOWLEDGE_SOURCE) return KNOWLEDGE_SOURCE;
+  if (SUPABASE_URL && SUPABASE_ANON_KEY) return "supabase";
+
+  console.warn(
+    `[knowledge] Supabase env vars missing; reading knowledge from ${KNOWLEDGE_FILE}. Set KNOWLEDGE_SOURCE to choose explicitly.`
+  );
+  return "local";
+}
+
+let activeSource: KnowledgeSource | null = null;
+
+export function getKnowledgeSource(): KnowledgeSource {
+  if (activeSource) return activeSource;
+
+  const name = resolveSourceName();
+  const factory = SOURCES[name];
+
+  if (!factory) {
+    throw new Error(
+      `Unknown KNOWLEDGE_SOURCE "${name}". Expected one of: ${Object.keys(SOURCES).join(", ")}.`
+    );
+  }
+
+  activeSource = factory();
+  return activeSource;
+}
+
+// In-memory cache so we don't hit the source every turn
+const knowledgeCache = createKnowledgeCache(
+  () => getKnowledgeSource().load(),
+  {
+    ttlMs: KNOWLEDGE_CACHE_TTL_SECONDS * 1000,
+    backoffBaseMs: 5_000,
+    backoffMaxMs: 5 * 60_000,
+  }
+);
+
+// --- Current knowledge (cached, refreshed after the TTL) ---
+export function loadAllKnowledge(): Promise<PortfolioRow[]> {
+  return knowledgeCache.get();
+}
+
+// --- Refetch now, e.g. from the revalidate webhook or after an edit ---
+export function revalidateKnowledge() {
+  return knowledgeCache.revalidate();
+}
+
+export function getKnowledgeCacheStatus() {
+  return knowledgeCache.status();
+}
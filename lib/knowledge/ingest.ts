@@ -0,0 +1,192 @@
+import { chunkContent, DEFAULT_CHUNK_TOKENS } from "./chunk";
+import { TRANSLATION_KEYS } from "./localize";
+import { isSummary, SUMMARY_TYPES, validatePortfolioRow } from "./schema";
+import type { PortfolioRow, PortfolioRowInput } from "./types";
+
+// A raw row from a Markdown section or CSV line, before validation
+export type IngestRecord = {
+  /** Where it came from, for messages: "work/satori.md#memory-controls", "rows.csv:4". */
+  source: string;
+  fields: Record<string, unknown>;
+};
+
+export type IngestIssue = { source: string; message: string };
+
+export type IngestChange =
+  | { kind: "create"; source: string; row: PortfolioRowInput }
+  | {
+      kind: "update";
+      source: string;
+      row: PortfolioRowInput;
+      before: PortfolioRow;
+      /** Fields whose value changes. */
+      fields: string[];
+    }
+  | { kind: "unchanged"; source: string; row: PortfolioRowInput; before: PortfolioRow };
+
+export type IngestPlan = {
+  changes: IngestChange[];
+  /** Rows of the imported projects that the import doesn't have (anymore). */
+  stale: PortfolioRow[];
+  /** Any error blocks the whole import. */
+  errors: IngestIssue[];
+  /** Worth a look (unknown types, projects without a summary, …); don't block. */
+  warnings: IngestIssue[];
+};
+
+type IngestOptions = {
+  /** Longer content is split into several rows. */
+  chunkTokens?: number;
+  /** Stale rows will be deleted, so they don't count towards a project's summary. */
+  prune?: boolean;
+};
+
+// Fields compared to decide whether a row changed
+const COMPARED_FIELDS = [
+  "project",
+  "type",
+  "title",
+  "content",
+  "tags",
+  "role",
+  "pillar",
+  "medium",
+  "aspect",
+  "audience",
+  "tools_methods",
+  "one_liner",
+  "is_highlight",
+  "depth",
+  ...TRANSLATION_KEYS,
+] as const;
+
+// A row is the same row when project, type and title match; chunk titles are
+// numbered, so re-importing a long section lines up part by part
+const rowKey = (row: Pick<PortfolioRow, "project" | "type" | "title">) =>
+  [row.project, row.type.toLowerCase(), (row.title ?? "").trim().toLowerCase()].join("\u0000");
+
+const hasTranslatedContent = (row: PortfolioRowInput) =>
+  TRANSLATION_KEYS.some((key) => key.startsWith("content_") && row[key]);
+
+function changedFields(before: PortfolioRow, after: PortfolioRowInput): string[] {
+  return COMPARED_FIELDS.filter((field) => (before[field] ?? null) !== (after[field] ?? null));
+}
+
+// --- Validate, chunk and match imported records against the current rows ---
+export function planIngest(
+  records: IngestRecord[],
+  existing: PortfolioRow[],
+  { chunkTokens = DEFAULT_CHUNK_TOKENS, prune = false }: IngestOptions = {}
+): IngestPlan {
+  const errors: IngestIssue[] = [];
+  const warnings: IngestIssue[] = [];
+  const rows: { source: string; row: PortfolioRowInput }[] = [];
+
+  // 1. Schema check, then split long content
+  for (const { source, fields } of records) {
+    const validation = validatePortfolioRow(fields);
+    warnings.push(...validation.warnings.map((message) => ({ source, message })));
+    if (!validation.ok) {
+      for (const [field, message] of Object.entries(validation.errors)) {
+        errors.push({ source, message: `${field}: ${message}` });
+      }
+      continue;
+    }
+
+    const { row } = validation;
+    const chunks = chunkContent(row.content, chunkTokens);
+    if (chunks.length === 1) {
+      rows.push({ source, row });
+      continue;
+    }
+    // Translations can't be split to match, so these stay whole
+    if (hasTranslatedContent(row)) {
+      warnings.push({
+        source,
+        message: `Content is about ${chunks.length} chunks long but has translations, so it wasn't split. Consider shortening it.`,
+      });
+      rows.push({ source, row });
+      continue;
+    }
+
+    chunks.forEach((content, index) => {
+      const part = `(${index + 1}/${chunks.length})`;
+      rows.push({
+        source,
+        row: {
+          ...row,
+          // Only the first part can keep an id from the file
+          id: index === 0 ? row.id : null,
+          title: row.title ? `${row.title} ${part}` : part,
+          content,
+        },
+      });
+    });
+  }
+
+  // 2. Match against what the source has now
+  const byId = new Map(existing.map((row) => [String(row.id), row]));
+  const byKey = new Map(existing.map((row) => [rowKey(row), row]));
+  const seen = new Map<string, string>();
+  const matched = new Set<PortfolioRow>();
+  const changes: IngestChange[] = [];
+
+  for (const { source, row } of rows) {
+    const key = rowKey(row);
+    const duplicate = seen.get(key);
+    if (duplicate) {
+      errors.push({
+        source,
+        message: `Same project, type and title as ${duplicate}. Give one of them a different title.`,
+      });
+      continue;
+    }
+    seen.set(key, source);
+
+    if (row.id !== null && !byId.has(String(row.id))) {
+      warnings.push({
+        source,
+        message: `No row with id ${row.id} in the source; it will be added as a new row.`,
+      });
+    }
+    const before =
+      (row.id !== null ? byId.get(String(row.id)) : undefined) ?? byKey.get(key);
+    if (!before) {
+      changes.push({ kind: "create", source, row: { ...row, id: null } });
+      continue;
+    }
+
+    // Translations added in the admin editor survive a re-import without them
+    matched.add(before);
+    const translations = Object.fromEntries(
+      TRANSLATION_KEYS.filter((k) => before[k] && !row[k]).map((k) => [k, before[k]])
+    );
+    const next: PortfolioRowInput = { ...translations, ...row, id: before.id };
+    const fields = changedFields(before, next);
+    changes.push(
+      fields.length
+        ? { kind: "update", source, row: next, before, fields }
+        : { kind: "unchanged", source, row: next, before }
+    );
+  }
+
+  // 3. Rows the import dropped, and projects left without a summary row
+  const projects = new Set(rows.map(({ row }) => row.project));
+  const stale = existing.filter((row) => projects.has(row.project) && !matched.has(row));
+
+  for (const project of projects) {
+    const kept = [
+      ...rows.filter(({ row }) => row.project === project).map(({ row }) => row),
+      ...(prune ? [] : stale.filter((row) => row.project === project)),
+    ];
+    if (!kept.some(isSummary)) {
+      const source = rows.find(({ row }) => row.project === project)!.source;
+      warnings.push({
+        source,
+        message: `Project "${project}" has no ${SUMMARY_TYPES.join(" or ")} row, so the chat won't list it as a project.`,
+      });
+    }
+  }
+
+  return { changes, stale, errors, warnings };
+}
@@ -0,0 +1,33 @@
+import { DEFAULT_LANGUAGE, LANGUAGES, type Language } from "../i18n";
+import type { LocalizedField, PortfolioRow, TranslationKey } from "./types";
+
+export const LOCALIZED_FIELDS: readonly LocalizedField[] = ["title", "one_liner", "content"];
+
+// Every `<field>_<language>` column a row may carry
+export const TRANSLATION_KEYS = LANGUAGES.filter((l) => l !== DEFAULT_LANGUAGE).flatMap(
+  (language) => LOCALIZED_FIELDS.map((field) => `${field}_${language}` as TranslationKey)
+);
+
+// All translations of one field, e.g. for indexing a row in every language
+export function translationsOf(row: PortfolioRow, field: LocalizedField): string[] {
+  return LANGUAGES.filter((l) => l !== DEFAULT_LANGUAGE)
+    .map((language) => row[`${field}_${language}` as TranslationKey])
+    .filter((text): text is string => Boolean(text));
+}
+
+// --- The row as the model should see it in `language` ---
+// Translated fields replace the English ones; untranslated fields stay English.
+export function localizeRow(row: PortfolioRow, language: Language): PortfolioRow {
+  if (language === DEFAULT_LANGUAGE) return row;
+
+  const localized = { ...row };
+  for (const field of LOCALIZED_FIELDS) {
+    const translation = row[`${field}_${language}` as TranslationKey];
+    if (translation) localized[field] = translation;
+  }
+  return localized;
+}
+
+export function localizeRows(rows: PortfolioRow[], language: Language): PortfolioRow[] {
+  return language === DEFAULT_LANGUAGE ? rows : rows.map((row) => localizeRow(row, language));
+}
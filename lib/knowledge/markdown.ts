@@ -0,0 +1,168 @@
+// --- Markdown case studies → raw knowledge records ---
+//
+//   ---
+//   project: satori_2_0
+//   title: Satori 2.0
+//   pillar: AI for wellbeing
+//   tags: [ai coach, memory, trust]
+//   is_highlight: true
+//   ---
+//   Intro paragraphs become the summary row (front matter `type` overrides).
+//
+//   ## Why the first coach failed
+//   Each "##" section is a row of its own, typed from its heading…
+//
+//   ## Memory controls {type=process depth=deep_dive}
+//   …or from attributes after it.
+//
+// Front matter fields apply to every row of the file, except type, depth,
+// one_liner and is_highlight, which describe the intro (sections default to
+// `section_depth`, or supporting_detail). A section's attributes override
+// anything for that row.
+
+export type MarkdownRecord = {
+  /** Heading anchor the record came from ("" for the intro). */
+  section: string;
+  fields: Record<string, string>;
+};
+
+// Headings that name a row type, English and Spanish
+const SECTION_TYPES: [type: string, heading: RegExp][] = [
+  ["problem", /\b(?:problem|challenge|brief|problema|reto|desafío)\b/i],
+  ["process", /\b(?:process|approach|proceso|enfoque)\b/i],
+  ["method", /\b(?:methods?|tools|métodos?|herramientas)\b/i],
+  ["outcome", /\b(?:outcomes?|impact|results?|resultados?|impacto)\b/i],
+  ["insight", /\b(?:insights?|lessons?|learnings?|aprendizajes?)\b/i],
+  ["quote", /\b(?:quotes?|testimonials?|testimonios?)\b/i],
+  ["background", /\b(?:background|antecedentes)\b/i],
+];
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+const HEADING_ATTRIBUTES = /\s*\{([^{}]*)\}\s*$/;
+
+const unquote = (value: string) => value.trim().replace(/^(["'])(.*)\1$/, "$2");
+
+// Flat "key: value" YAML: scalars, [a, b] lists and "- item" lists. Lists are
+// stored the way the knowledge table keeps tags: comma-separated.
+function parseFrontMatter(text: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  let listKey: string | null = null;
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.trim().startsWith("#")) continue;
+
+    const item = line.match(/^\s+-\s+(.*)$/) ?? line.match(/^-\s+(.*)$/);
+    if (item && listKey) {
+      fields[listKey] = [fields[listKey], unquote(item[1])].filter(Boolean).join(", ");
+      continue;
+    }
+
+    const pair = line.match(/^([A-Za-z_][\w-]*)\s*:\s*(.*)$/);
+    if (!pair) throw new Error(`Can't read front matter line "${line.trim()}".`);
+
+    const key = pair[1].toLowerCase();
+    const value = pair[2].replace(/\s+#.*$/, "").trim();
+    listKey = value ? null : key;
+
+    const list = value.match(/^\[(.*)\]$/);
+    fields[key] = list
+      ? list[1].split(",").map(unquote).filter(Boolean).join(", ")
+      : unquote(value);
+  }
+
+  return fields;
+}
+
+// `{type=process depth=deep_dive}` → { type: "process", depth: "deep_dive" }
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, key, quoted, bare] of text.matchAll(/([\w-]+)=(?:"([^"]*)"|(\S+))/g)) {
+    attributes[key.toLowerCase()] = quoted ?? bare;
+  }
+  return attributes;
+}
+
+const anchor = (heading: string) =>
+  heading
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+
+// An untyped heading that names no known type keeps its own name as the type,
+// so validation flags it instead of it quietly becoming something else
+function sectionType(heading: string): string {
+  return (
+    SECTION_TYPES.find(([, pattern]) => pattern.test(heading))?.[0] ??
+    anchor(heading).replace(/-/g, "_")
+  );
+}
+
+export function parseMarkdownCaseStudy(text: string): MarkdownRecord[] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const match = input.match(FRONT_MATTER);
+  const defaults = match ? parseFrontMatter(match[1]) : {};
+  const body = match ? input.slice(match[0].length) : input;
+
+  // Split on "## " headings outside code fences; deeper headings stay in content
+  const sections: { heading: string | null; lines: string[] }[] = [
+    { heading: null, lines: [] },
+  ];
+  let inFence = false;
+  for (const line of body.split(/\r?\n/)) {
+    if (/^\s*(?:```|~~~)/.test(line)) inFence = !inFence;
+    const heading = !inFence && line.match(/^##\s+(.+?)\s*#*\s*$/);
+    if (heading) sections.push({ heading: heading[1], lines: [] });
+    else sections[sections.length - 1].lines.push(line);
+  }
+
+  const {
+    section_depth: sectionDepth,
+    type,
+    depth,
+    one_liner: oneLiner,
+    is_highlight: isHighlight,
+    ...shared
+  } = defaults;
+  const records: MarkdownRecord[] = [];
+
+  for (const { heading, lines } of sections) {
+    const content = lines.join("\n").trim();
+    if (!content) continue;
+
+    if (heading === null) {
+      records.push({
+        section: "",
+        fields: {
+          ...shared,
+          type: type || "summary",
+          depth: depth || "overview",
+          one_liner: oneLiner ?? "",
+          is_highlight: isHighlight ?? "",
+          content,
+        },
+      });
+      continue;
+    }
+
+    const attributes = heading.match(HEADING_ATTRIBUTES);
+    const title = attributes ? heading.slice(0, attributes.index).trim() : heading;
+    const overrides = attributes ? parseAttributes(attributes[1]) : {};
+
+    records.push({
+      section: anchor(title),
+      fields: {
+        ...shared,
+        type: sectionType(title),
+        depth: sectionDepth || "supporting_detail",
+        ...overrides,
+        title,
+        content,
+      },
+    });
+  }
+
+  return records;
+}
@@ -0,0 +1,88 @@
+import { TRANSLATION_KEYS } from "./localize";
+import type { PortfolioRow } from "./types";
+
+const NULLABLE_TEXT_FIELDS = [
+  "title",
+  "tags",
+  "role",
+  "pillar",
+  "medium",
+  "aspect",
+  "audience",
+  "tools_methods",
+  "one_liner",
+  "depth",
+] as const;
+
+function toText(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  return text.length > 0 ? text : null;
+}
+
+function toBoolean(value: unknown): boolean | null {
+  if (typeof value === "boolean") return value;
+  const text = toText(value)?.toLowerCase();
+  if (!text) return null;
+  if (["true", "yes", "y", "1"].includes(text)) return true;
+  if (["false", "no", "n", "0"].includes(text)) return false;
+  return null;
+}
+
+// --- Coerce a raw record (DB row, JSON object, CSV line) into a PortfolioRow ---
+// Returns null for records without the required project / type / content.
+export function normalizeRow(
+  raw: Record<string, unknown>,
+  fallbackId: number | string | null = null
+): PortfolioRow | null {
+  const project = toText(raw.project);
+  const type = toText(raw.type);
+  const content = toText(raw.content);
+
+  if (!project || !type || !content) return null;
+
+  const row: PortfolioRow = {
+    id:
+      typeof raw.id === "number" || typeof raw.id === "string"
+        ? raw.id
+        : fallbackId,
+    project,
+    type,
+    content,
+    is_highlight: toBoolean(raw.is_highlight),
+    title: null,
+    tags: null,
+    role: null,
+    pillar: null,
+    medium: null,
+    aspect: null,
+    audience: null,
+    tools_methods: null,
+    one_liner: null,
+    depth: null,
+  };
+
+  for (const field of NULLABLE_TEXT_FIELDS) {
+    row[field] = toText(raw[field]);
+  }
+
+  // Translations are only set when present, so sources without those
+  // columns never get them written back
+  for (const key of TRANSLATION_KEYS) {
+    const text = toText(raw[key]);
+    if (text) row[key] = text;
+  }
+
+  return row;
+}
+
+export function normalizeRows(records: Record<string, unknown>[]): PortfolioRow[] {
+  const rows: PortfolioRow[] = [];
+
+  records.forEach((record, index) => {
+    const row = normalizeRow(record, index + 1);
+    if (row) rows.push(row);
+  });
+
+  return rows;
+}
@@ -0,0 +1,98 @@
+import { normalizeRow } from "./rows";
+import type { PortfolioRow, PortfolioRowInput } from "./types";
+
+// Row types the prompt and retrieval know how to use
+export const KNOWN_TYPES = [
+  "summary",
+  "project_summary",
+  "background",
+  "problem",
+  "process",
+  "method",
+  "outcome",
+  "insight",
+  "quote",
+] as const;
+
+// Types that make a project ID a real project (see deriveProjects)
+export const SUMMARY_TYPES = ["summary", "project_summary"] as const;
+
+export function isSummary(row: Pick<PortfolioRow, "type">): boolean {
+  return (SUMMARY_TYPES as readonly string[]).includes(row.type.toLowerCase());
+}
+
+export const KNOWN_DEPTHS = ["overview", "supporting_detail", "deep_dive"] as const;
+
+const PROJECT_ID_PATTERN = /^[a-z0-9]+(?:_[a-z0-9]+)*$/;
+
+export type RowValidation =
+  | { ok: true; row: PortfolioRowInput; warnings: string[] }
+  | { ok: false; errors: Partial<Record<keyof PortfolioRow, string>>; warnings: string[] };
+
+// --- Check a raw record (form data, JSON, CSV line) against the PortfolioRow schema ---
+// Errors block saving; warnings (e.g. an unfamiliar type) are worth a look.
+export function validatePortfolioRow(raw: Record<string, unknown>): RowValidation {
+  const errors: Partial<Record<keyof PortfolioRow, string>> = {};
+  const warnings: string[] = [];
+
+  const project = String(raw.project ?? "").trim();
+  const type = String(raw.type ?? "").trim().toLowerCase();
+  const content = String(raw.content ?? "").trim();
+  const depth = String(raw.depth ?? "").trim().toLowerCase();
+  const highlight = raw.is_highlight;
+
+  if (!project) {
+    errors.project = "Project ID is required.";
+  } else if (!PROJECT_ID_PATTERN.test(project)) {
+    errors.project = "Use lowercase snake_case, e.g. satori_2_0.";
+  }
+
+  if (!type) {
+    errors.type = "Type is required.";
+  } else if (!(KNOWN_TYPES as readonly string[]).includes(type)) {
+    warnings.push(`Type "${type}" isn't one of ${KNOWN_TYPES.join(", ")}.`);
+  }
+
+  if (!content) {
+    errors.content = "Content is required.";
+  }
+
+  if (depth && !(KNOWN_DEPTHS as readonly string[]).includes(depth)) {
+    errors.depth = `Depth must be one of ${KNOWN_DEPTHS.join(", ")} (or empty).`;
+  }
+
+  if (
+    highlight !== undefined &&
+    highlight !== null &&
+    highlight !== "" &&
+    typeof highlight !== "boolean" &&
+    !["true", "false", "yes", "no", "1", "0", "on"].includes(
+      String(highlight).toLowerCase()
+    )
+  ) {
+    errors.is_highlight = "Highlight must be true or false.";
+  }
+
+  if (Object.keys(errors).length) {
+    return { ok: false, errors, warnings };
+  }
+
+  const row = normalizeRow({
+    ...raw,
+    project,
+    type,
+    depth,
+    is_highlight: highlight === "on" ? true : highlight,
+  });
+
+  const id = raw.id === "" || raw.id === undefined ? null : raw.id;
+
+  return {
+    ok: true,
+    row: {
+      ...row!,
+      id: typeof id === "string" && /^\d+$/.test(id) ? Number(id) : (id as PortfolioRow["id"]),
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,101 @@
+import { readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseCsv } from "../csv";
+import { normalizeRow, normalizeRows } from "../rows";
+import type { KnowledgeSource, PortfolioRow, PortfolioRowInput } from "../types";
+
+type LocalSourceOptions = {
+  /** JSON (array of rows, or `{ rows: [...] }`) or CSV; relative to the project root. */
+  filePath: string;
+};
+
+type JsonFile = {
+  records: Record<string, unknown>[];
+  /** True when the file wraps rows as `{ rows: [...] }`; kept on write. */
+  wrapped: boolean;
+  wrapper: Record<string, unknown>;
+};
+
+// --- Knowledge rows from a JSON or CSV file on disk (offline, CI, design reviews) ---
+// JSON files are also writable (admin editor, ingestion); CSV is read-only.
+export function createLocalKnowledgeSource({
+  filePath,
+}: LocalSourceOptions): KnowledgeSource {
+  const resolved = path.resolve(process.cwd(), filePath);
+  const isCsv = resolved.toLowerCase().endsWith(".csv");
+
+  const readJson = async (): Promise<JsonFile> => {
+    const parsed: unknown = JSON.parse(await readFile(resolved, "utf8"));
+
+    if (Array.isArray(parsed)) {
+      return { records: parsed, wrapped: false, wrapper: {} };
+    }
+    if (Array.isArray((parsed as { rows?: unknown })?.rows)) {
+      const wrapper = parsed as Record<string, unknown> & { rows: Record<string, unknown>[] };
+      return { records: wrapper.rows, wrapped: true, wrapper };
+    }
+
+    throw new Error(
+      `${filePath} must contain an array of rows or an object with a "rows" array.`
+    );
+  };
+
+  const writeJson = async (file: JsonFile) => {
+    const data = file.wrapped ? { ...file.wrapper, rows: file.records } : file.records;
+    await writeFile(resolved, `${JSON.stringify(data, null, 2)}\n`, "utf8");
+  };
+
+  const assertWritable = () => {
+    if (isCsv) {
+      throw new Error(`${filePath} is a CSV file; switch KNOWLEDGE_FILE to JSON to edit rows.`);
+    }
+  };
+
+  return {
+    name: `local:${filePath}`,
+    async load(): Promise<PortfolioRow[]> {
+      if (isCsv) {
+        return normalizeRows(parseCsv(await readFile(resolved, "utf8")));
+      }
+      return normalizeRows((await readJson()).records);
+    },
+    async upsert(input: PortfolioRowInput): Promise<PortfolioRow> {
+      assertWritable();
+      const file = await readJson();
+
+      const index =
+        input.id === null
+          ? -1
+          : file.records.findIndex((r) => String(r.id) === String(input.id));
+
+      // New rows get the next numeric id, like a bigserial column
+      const id =
+        input.id ??
+        file.records.reduce(
+          (max, r) => (typeof r.id === "number" && r.id > max ? r.id : max),
+          0
+        ) + 1;
+
+      const record = { ...input, id };
+      if (index === -1) {
+        file.records.push(record);
+      } else {
+        file.records[index] = record;
+      }
+
+      await writeJson(file);
+      return normalizeRow(record)!;
+    },
+    async remove(id: number | string): Promise<void> {
+      assertWritable();
+      const file = await readJson();
+      const remaining = file.records.filter((r) => String(r.id) !== String(id));
+
+      if (remaining.length === file.records.length) {
+        throw new Error(`No row with id ${id} in ${filePath}.`);
+      }
+
+      await writeJson({ ...file, records: remaining });
+    },
+  };
+}
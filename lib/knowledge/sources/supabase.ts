@@ -0,0 +1,68 @@
+import { createClient } from "@supabase/supabase-js";
+import { normalizeRow, normalizeRows } from "../rows";
+import type { KnowledgeSource, PortfolioRow, PortfolioRowInput } from "../types";
+
+type SupabaseSourceOptions = {
+  url: string;
+  key: string;
+  table: string;
+  /** Service-role key for edits. Without it the source is read-only. */
+  writeKey?: string;
+};
+
+// --- Knowledge rows from a Supabase (Postgres) table ---
+export function createSupabaseKnowledgeSource({
+  url,
+  key,
+  table,
+  writeKey,
+}: SupabaseSourceOptions): KnowledgeSource {
+  const supabase = createClient(url, key);
+  const writer = writeKey
+    ? createClient(url, writeKey, { auth: { persistSession: false } })
+    : null;
+
+  const requireWriter = () => {
+    if (!writer) {
+      throw new Error("Editing Supabase knowledge needs SUPABASE_SERVICE_ROLE_KEY.");
+    }
+    return writer;
+  };
+
+  return {
+    name: `supabase:${table}`,
+    async load(): Promise<PortfolioRow[]> {
+      const { data, error } = await supabase
+        .from(table)
+        .select("*")
+        .order("id", { ascending: true });
+
+      if (error) {
+        throw new Error(`Supabase error: ${error.message}`);
+      }
+
+      return normalizeRows((data ?? []) as Record<string, unknown>[]);
+    },
+    async upsert(input: PortfolioRowInput): Promise<PortfolioRow> {
+      // Let the table assign ids to new rows
+      const { id, ...fields } = input;
+      const query =
+        id === null
+          ? requireWriter().from(table).insert(fields)
+          : requireWriter().from(table).update(fields).eq("id", id);
+
+      const { data, error } = await query.select("*").single();
+      if (error) {
+        throw new Error(`Supabase error: ${error.message}`);
+      }
+
+      return normalizeRow(data as Record<string, unknown>)!;
+    },
+    async remove(id: number | string): Promise<void> {
+      const { error } = await requireWriter().from(table).delete().eq("id", id);
+      if (error) {
+        throw new Error(`Supabase error: ${error.message}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import type { Language } from "../i18n";
+
+// Fields that can be translated, stored as `<field>_<language>` columns
+// (title_es, content_es, …). A missing translation falls back to the field.
+export type LocalizedField = "title" | "one_liner" | "content";
+export type TranslationKey = `${LocalizedField}_${Exclude<Language, "en">}`;
+
+// Match your actual Supabase / CSV schema
+export type PortfolioRow = {
+  id: number | string | null;
+  project: string;
+  type: string;
+  title: string | null;
+  content: string;
+  tags: string | null;
+  role: string | null;
+  pillar: string | null;
+  medium: string | null;
+  aspect: string | null;
+  audience: string | null;
+  tools_methods: string | null;
+  one_liner: string | null;
+  is_highlight: boolean | null;
+  depth: string | null;
+} & { [K in TranslationKey]?: string };
+
+// A row to create (`id` null) or replace (`id` set)
+export type PortfolioRowInput = Omit<PortfolioRow, "id"> & {
+  id: PortfolioRow["id"];
+};
+
+// Anything that can hand the chat a list of knowledge rows.
+// New backends implement this and register in `lib/knowledge/index.ts`.
+export interface KnowledgeSource {
+  /** Short name used in logs, e.g. "supabase" or "local:data/rows.csv". */
+  readonly name: string;
+  /** Fetch every row. Throw on failure; callers decide how to degrade. */
+  load(): Promise<PortfolioRow[]>;
+  /** Create or replace a row; returns it with its final id. Read-only sources omit this. */
+  upsert?(row: PortfolioRowInput): Promise<PortfolioRow>;
+  /** Delete a row by id. Read-only sources omit this. */
+  remove?(id: number | string): Promise<void>;
+}
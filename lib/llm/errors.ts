@@ -0,0 +1,76 @@
+// What went wrong with a model call, in terms the chat can act on. Providers
+// throw these instead of their SDK's errors; the raw message stays in the
+// server logs and never reaches the visitor.
+export type LLMErrorKind =
+  /** 429: the provider is busy or the quota is used up. */
+  | "rate_limited"
+  /** 5xx, refused or dropped connections: the provider is down. */
+  | "unavailable"
+  /** No answer within LLM_TIMEOUT_MS. */
+  | "timeout"
+  /** Other 4xx: the request itself is wrong (prompt too long, unknown model, bad key). */
+  | "bad_request"
+  /** The caller cancelled (the visitor pressed Stop or left). */
+  | "aborted";
+
+type LLMErrorOptions = {
+  status?: number | null;
+  retryAfterMs?: number | null;
+  cause?: unknown;
+};
+
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  /** HTTP status from the provider, when there was a response. */
+  readonly status: number | null;
+  /** How long the provider asked us to wait (Retry-After). */
+  readonly retryAfterMs: number | null;
+
+  constructor(kind: LLMErrorKind, message: string, options: LLMErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "LLMError";
+    this.kind = kind;
+    this.status = options.status ?? null;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+  }
+
+  /** Worth trying again: the same request may succeed in a moment. */
+  get retryable(): boolean {
+    return this.kind === "rate_limited" || this.kind === "unavailable" || this.kind === "timeout";
+  }
+}
+
+export function kindFromStatus(status: number): LLMErrorKind {
+  if (status === 408) return "timeout";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "unavailable";
+  return "bad_request";
+}
+
+// Retry-After is seconds or an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// --- Anything a provider threw → LLMError ---
+// Providers map their own SDK errors first; this covers fetch and the rest.
+export function toLLMError(err: unknown, signal?: AbortSignal): LLMError {
+  if (err instanceof LLMError) return err;
+
+  const message = err instanceof Error ? err.message : String(err);
+  if (signal?.aborted || (err instanceof Error && err.name === "AbortError")) {
+    return new LLMError("aborted", message, { cause: err });
+  }
+
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === "number") {
+    return new LLMError(kindFromStatus(status), message, { status, cause: err });
+  }
+
+  // fetch() rejects with a TypeError when the connection fails
+  return new LLMError("unavailable", message, { cause: err });
+}
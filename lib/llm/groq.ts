@@ -0,0 +1,73 @@
+import Groq, { APIConnectionTimeoutError, APIError, APIUserAbortError } from "groq-sdk";
+import { kindFromStatus, LLMError, parseRetryAfter, toLLMError } from "./errors";
+import type { LLMProvider } from "./types";
+
+type GroqProviderOptions = {
+  apiKey: string | undefined;
+};
+
+// Groq's errors → LLMError, keeping the status and Retry-After
+function mapGroqError(err: unknown): LLMError {
+  if (err instanceof APIUserAbortError) {
+    return new LLMError("aborted", err.message, { cause: err });
+  }
+  if (err instanceof APIConnectionTimeoutError) {
+    return new LLMError("timeout", err.message, { cause: err });
+  }
+  if (err instanceof APIError && typeof err.status === "number") {
+    return new LLMError(kindFromStatus(err.status), err.message, {
+      status: err.status,
+      retryAfterMs: parseRetryAfter(err.headers?.["retry-after"]),
+      cause: err,
+    });
+  }
+  // APIConnectionError and anything else
+  return toLLMError(err);
+}
+
+// --- Groq (default provider) ---
+export function createGroqProvider({ apiKey }: GroqProviderOptions): LLMProvider {
+  // Retries and timeouts are handled by lib/llm/resilient.ts
+  const groq = new Groq({ apiKey: apiKey || "", maxRetries: 0 });
+
+  return {
+    name: "groq",
+    configurationError() {
+      return apiKey ? null : "GROQ_API_KEY is not set.";
+    },
+    async complete({ messages, model, temperature, maxTokens, signal }) {
+      try {
+        const completion = await groq.chat.completions.create(
+          { model, messages, temperature, max_tokens: maxTokens },
+          { signal }
+        );
+        return completion.choices?.[0]?.message?.content ?? "";
+      } catch (err) {
+        throw mapGroqError(err);
+      }
+    },
+    async *stream({ messages, model, temperature, maxTokens, signal }) {
+      let completion;
+      try {
+        completion = await groq.chat.completions.create(
+          { model, messages, temperature, max_tokens: maxTokens, stream: true },
+          { signal }
+        );
+      } catch (err) {
+        throw mapGroqError(err);
+      }
+
+      try {
+        for await (const chunk of completion) {
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      } catch (err) {
+        throw mapGroqError(err);
+      } finally {
+        // Stops the upstream request if the consumer bails out early
+        completion.controller.abort();
+      }
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { readFileSync } from "node:fs";
+import { readNumberEnv } from "../env";
+import { createGroqProvider } from "./groq";
+import { createMockProvider } from "./mock";
+import { createOpenAICompatibleProvider } from "./openai-compatible";
+import { createReplayProvider } from "./replay";
+import { createResilientProvider, type ResilientTarget } from "./resilient";
+import type { GenerationSettings, LLMProvider } from "./types";
+
+export { LLMError, type LLMErrorKind } from "./errors";
+export type {
+  ChatMessage,
+  CompletionRequest,
+  GenerationSettings,
+  LLMProvider,
+} from "./types";
+
+// --- Environment variables ---
+// LLM_PROVIDER: "groq" (default) | "openai" | "ollama" | "mock" | "replay"
+const LLM_PROVIDER = process.env.LLM_PROVIDER?.trim().toLowerCase() || "groq";
+const LLM_MODEL = process.env.LLM_MODEL?.trim();
+const LLM_TEMPERATURE = readNumberEnv("LLM_TEMPERATURE", 0.3);
+const LLM_MAX_TOKENS = readNumberEnv("LLM_MAX_TOKENS", 350);
+const LLM_BASE_URL = process.env.LLM_BASE_URL?.trim();
+const LLM_API_KEY = process.env.LLM_API_KEY?.trim();
+const GROQ_API_KEY = process.env.GROQ_API_KEY;
+const MOCK_LLM_RESPONSE = process.env.MOCK_LLM_RESPONSE;
+// JSON object of question → recorded answer (see npm run eval -- --record)
+const LLM_REPLAY_FILE = process.env.LLM_REPLAY_FILE?.trim() || "eval/recordings.json";
+// Resilience: per-attempt timeout, retries with backoff, then the fallback.
+// LLM_FALLBACK_PROVIDER alone uses its default model; LLM_FALLBACK_MODEL
+// alone retries the primary provider with another model.
+const LLM_TIMEOUT_MS = readNumberEnv("LLM_TIMEOUT_MS", 20000);
+const LLM_RETRIES = readNumberEnv("LLM_RETRIES", 2);
+const LLM_RETRY_BASE_MS = readNumberEnv("LLM_RETRY_BASE_MS", 500);
+const LLM_FALLBACK_PROVIDER = process.env.LLM_FALLBACK_PROVIDER?.trim().toLowerCase();
+const LLM_FALLBACK_MODEL = process.env.LLM_FALLBACK_MODEL?.trim();
+
+type ProviderEntry = {
+  create: () => LLMProvider;
+  defaultModel: string;
+};
+
+// Register new backends here
+const PROVIDERS: Record<string, ProviderEntry> = {
+  groq: {
+    create: () => createGroqProvider({ apiKey: GROQ_API_KEY }),
+    defaultModel: "llama-3.1-8b-instant",
+  },
+  openai: {
+    create: () =>
+      createOpenAICompatibleProvider({
+        baseUrl: LLM_BASE_URL || "https://api.openai.com/v1",
+        apiKey: LLM_API_KEY,
+        requiresApiKey: !LLM_BASE_URL,
+      }),
+    defaultModel: "gpt-4o-mini",
+  },
+  // Ollama's OpenAI-compatible API; no key needed
+  ollama: {
+    create: () =>
+      createOpenAICompatibleProvider({
+        baseUrl: LLM_BASE_URL || "http://localhost:11434/v1",
+        apiKey: LLM_API_KEY,
+      }),
+    defaultModel: "llama3.1",
+  },
+  mock: {
+    create: () => createMockProvider({ response: MOCK_LLM_RESPONSE }),
+    defaultModel: "mock",
+  },
+  replay: {
+    create: () =>
+      createReplayProvider({
+        recordings: JSON.parse(readFileSync(LLM_REPLAY_FILE, "utf8")),
+        source: LLM_REPLAY_FILE,
+      }),
+    defaultModel: "replay",
+  },
+};
+
+export type LLM = {
+  provider: LLMProvider;
+  settings: GenerationSettings;
+};
+
+let activeLLM: LLM | null = null;
+
+function findProvider(name: string, variable: string): ProviderEntry {
+  const entry = PROVIDERS[name];
+  if (entry) return entry;
+  console.warn(
+    `[llm] Unknown ${variable} "${name}"; expected one of ${Object.keys(PROVIDERS).join(", ")}. Using groq.`
+  );
+  return PROVIDERS.groq;
+}
+
+// --- The provider + settings this deployment is configured for ---
+export function getLLM(): LLM {
+  if (activeLLM) return activeLLM;
+
+  const entry = findProvider(LLM_PROVIDER, "LLM_PROVIDER");
+  const primary = entry.create();
+  const targets: ResilientTarget[] = [{ provider: primary }];
+
+  if (LLM_FALLBACK_PROVIDER || LLM_FALLBACK_MODEL) {
+    const fallback = LLM_FALLBACK_PROVIDER
+      ? findProvider(LLM_FALLBACK_PROVIDER, "LLM_FALLBACK_PROVIDER")
+      : entry;
+    targets.push({
+      provider: fallback === entry ? primary : fallback.create(),
+      model: LLM_FALLBACK_MODEL || fallback.defaultModel,
+    });
+  }
+
+  for (const provider of new Set(targets.map((target) => target.provider))) {
+    const problem = provider.configurationError();
+    if (problem) console.warn(`[llm] ${provider.name} is not configured: ${problem}`);
+  }
+
+  activeLLM = {
+    provider: createResilientProvider({
+      targets,
+      timeoutMs: LLM_TIMEOUT_MS,
+      retries: Math.max(0, Math.floor(LLM_RETRIES)),
+      retryBaseMs: LLM_RETRY_BASE_MS,
+    }),
+    settings: {
+      model: LLM_MODEL || entry.defaultModel,
+      temperature: LLM_TEMPERATURE,
+      maxTokens: LLM_MAX_TOKENS,
+    },
+  };
+
+  return activeLLM;
+}
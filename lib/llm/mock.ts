@@ -0,0 +1,46 @@
+import type { CompletionRequest, LLMProvider } from "./types";
+
+type MockProviderOptions = {
+  /** Fixed reply. When omitted, the reply is derived from the prompt. */
+  response?: string;
+};
+
+// Deterministic default: restate the first knowledge row the prompt carries,
+// so tests can see retrieval results flow through to the answer.
+function replyFromPrompt({ messages }: CompletionRequest): string {
+  const system = messages.find((m) => m.role === "system")?.content ?? "";
+  const question = [...messages].reverse().find((m) => m.role === "user");
+
+  const title = system.match(/^TITLE: (.+)$/m)?.[1];
+  const content = system.match(/^CONTENT: (.+)$/m)?.[1];
+
+  if (title && content) {
+    return `${title}: ${content}`;
+  }
+  return `(mock) You asked: ${question?.content ?? ""}`;
+}
+
+// --- Mock provider for tests, CI and offline demos ---
+export function createMockProvider({
+  response,
+}: MockProviderOptions = {}): LLMProvider {
+  const reply = (request: CompletionRequest) =>
+    response ?? replyFromPrompt(request);
+
+  return {
+    name: "mock",
+    configurationError() {
+      return null;
+    },
+    async complete(request) {
+      return reply(request);
+    },
+    async *stream(request) {
+      // Word-sized chunks, like a real model
+      for (const piece of reply(request).match(/\S+\s*/g) ?? []) {
+        if (request.signal?.aborted) return;
+        yield piece;
+      }
+    },
+  };
+}
@@ -0,0 +1,90 @@
+import { kindFromStatus, LLMError, parseRetryAfter, toLLMError } from "./errors";
+import { readSSEData } from "./sse";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+type OpenAICompatibleOptions = {
+  /** Base URL including the version segment, e.g. http://localhost:11434/v1 */
+  baseUrl: string | undefined;
+  apiKey?: string;
+  /** Local servers (Ollama, llama.cpp) don't need a key. */
+  requiresApiKey?: boolean;
+};
+
+type CompletionResponse = {
+  choices?: { message?: { content?: string | null } }[];
+};
+
+type CompletionChunk = {
+  choices?: { delta?: { content?: string | null } }[];
+};
+
+// --- Any /chat/completions endpoint speaking the OpenAI protocol ---
+// Covers OpenAI itself, Ollama, llama.cpp's server, LM Studio, vLLM, etc.
+export function createOpenAICompatibleProvider({
+  baseUrl,
+  apiKey,
+  requiresApiKey = false,
+}: OpenAICompatibleOptions): LLMProvider {
+  const url = `${(baseUrl ?? "").replace(/\/+$/, "")}/chat/completions`;
+
+  const post = async (request: CompletionRequest, stream: boolean) => {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream,
+      }),
+      signal: request.signal,
+    }).catch((err) => {
+      throw toLLMError(err, request.signal);
+    });
+
+    if (!res.ok) {
+      throw new LLMError(
+        kindFromStatus(res.status),
+        `Completion request failed with status ${res.status}`,
+        { status: res.status, retryAfterMs: parseRetryAfter(res.headers.get("retry-after")) }
+      );
+    }
+    return res;
+  };
+
+  return {
+    name: `openai:${baseUrl}`,
+    configurationError() {
+      if (!baseUrl) return "LLM_BASE_URL is not set.";
+      if (requiresApiKey && !apiKey) return "LLM_API_KEY is not set.";
+      return null;
+    },
+    async complete(request) {
+      const res = await post(request, false);
+      const json = (await res.json().catch((err) => {
+        throw toLLMError(err, request.signal);
+      })) as CompletionResponse;
+      return json.choices?.[0]?.message?.content ?? "";
+    },
+    async *stream(request) {
+      const res = await post(request, true);
+      if (!res.body) throw new LLMError("unavailable", "Completion response had no body");
+
+      try {
+        for await (const data of readSSEData(res.body)) {
+          if (data === "[DONE]") return;
+          const chunk = JSON.parse(data) as CompletionChunk;
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+      } catch (err) {
+        // Dropped connections and garbled events alike: the stream is broken
+        throw toLLMError(err, request.signal);
+      }
+    },
+  };
+}
@@ -0,0 +1,56 @@
+import { LLMError } from "./errors";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+type ReplayProviderOptions = {
+  /** Visitor question → recorded answer. */
+  recordings: Record<string, string>;
+  /** Shown in errors, e.g. the recordings file path. */
+  source?: string;
+};
+
+// Questions are matched loosely so a trailing space or capital doesn't miss
+export function recordingKey(question: string): string {
+  return question.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function lastQuestion({ messages }: CompletionRequest): string {
+  return [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+}
+
+// --- Replays recorded answers: real model output, deterministic, offline ---
+// Used by the eval harness so prompt and retrieval changes can be compared
+// against the same answers.
+export function createReplayProvider({
+  recordings,
+  source = "recordings",
+}: ReplayProviderOptions): LLMProvider {
+  const answers = new Map(
+    Object.entries(recordings).map(([question, answer]) => [recordingKey(question), answer])
+  );
+
+  const reply = (request: CompletionRequest) => {
+    const question = lastQuestion(request);
+    const answer = answers.get(recordingKey(question));
+    if (answer === undefined) {
+      // Retrying won't make one appear
+      throw new LLMError("bad_request", `No recorded answer in ${source} for "${question}"`);
+    }
+    return answer;
+  };
+
+  return {
+    name: `replay:${source}`,
+    configurationError() {
+      return answers.size ? null : `${source} has no recordings`;
+    },
+    async complete(request) {
+      return reply(request);
+    },
+    async *stream(request) {
+      for (const piece of reply(request).match(/\S+\s*/g) ?? []) {
+        if (request.signal?.aborted) return;
+        yield piece;
+      }
+    },
+  };
+}
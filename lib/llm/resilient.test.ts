@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LLMError } from "./errors";
+import { createResilientProvider } from "./resilient";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+type Step = string | LLMError;
+
+// A provider that plays back one step per call: a reply or an error to throw
+function scriptedProvider(name: string, steps: Step[], configurationError: string | null = null) {
+  const calls: CompletionRequest[] = [];
+  const next = (request: CompletionRequest) => {
+    calls.push(request);
+    const step = steps.shift() ?? new LLMError("unavailable", `${name} has no more steps`);
+    if (step instanceof LLMError) throw step;
+    return step;
+  };
+  const provider: LLMProvider = {
+    name,
+    configurationError: () => configurationError,
+    async complete(request) {
+      return next(request);
+    },
+    async *stream(request) {
+      for (const chunk of next(request).split("|")) yield chunk;
+    },
+  };
+  return { provider, calls };
+}
+
+const request: CompletionRequest = {
+  model: "primary-model",
+  temperature: 0.3,
+  maxTokens: 256,
+  messages: [{ role: "user", content: "Hi" }],
+};
+
+const options = { timeoutMs: 1000, retries: 2, retryBaseMs: 10 };
+
+const unavailable = () => new LLMError("unavailable", "503", { status: 503 });
+
+describe("createResilientProvider", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("retries a retryable error on the same target", async () => {
+    const primary = scriptedProvider("primary", [unavailable(), unavailable(), "Hello"]);
+    const llm = createResilientProvider({ targets: [{ provider: primary.provider }], ...options });
+
+    await expect(llm.complete(request)).resolves.toBe("Hello");
+    expect(primary.calls).toHaveLength(3);
+  });
+
+  it("falls back in order once a target's retries run out, with each target's model", async () => {
+    const primary = scriptedProvider("primary", [unavailable(), unavailable(), unavailable()]);
+    const unconfigured = scriptedProvider("unconfigured", ["never"], "No API key.");
+    const fallback = scriptedProvider("fallback", ["From the fallback"]);
+    const llm = createResilientProvider({
+      targets: [
+        { provider: primary.provider },
+        { provider: unconfigured.provider, model: "unused" },
+        { provider: fallback.provider, model: "fallback-model" },
+      ],
+      ...options,
+    });
+
+    await expect(llm.complete(request)).resolves.toBe("From the fallback");
+    expect(primary.calls.map((c) => c.model)).toEqual(["primary-model", "primary-model", "primary-model"]);
+    expect(unconfigured.calls).toHaveLength(0);
+    expect(fallback.calls.map((c) => c.model)).toEqual(["fallback-model"]);
+    expect(llm.name).toBe("primary → unconfigured:unused → fallback:fallback-model");
+  });
+
+  it("moves a rejected request straight to the next target", async () => {
+    const primary = scriptedProvider("primary", [new LLMError("bad_request", "context too long", { status: 400 })]);
+    const fallback = scriptedProvider("fallback", ["OK"]);
+    const llm = createResilientProvider({
+      targets: [{ provider: primary.provider }, { provider: fallback.provider }],
+      ...options,
+    });
+
+    await expect(llm.complete(request)).resolves.toBe("OK");
+    expect(primary.calls).toHaveLength(1);
+  });
+
+  it("waits as long as Retry-After asks before retrying", async () => {
+    vi.useFakeTimers();
+    const primary = scriptedProvider("primary", [
+      new LLMError("rate_limited", "429", { status: 429, retryAfterMs: 3000 }),
+      "After the wait",
+    ]);
+    const llm = createResilientProvider({ targets: [{ provider: primary.provider }], ...options });
+
+    const reply = llm.complete(request);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(primary.calls).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(reply).resolves.toBe("After the wait");
+    expect(primary.calls).toHaveLength(2);
+  });
+
+  it("goes to the fallback instead of waiting out a long Retry-After", async () => {
+    const primary = scriptedProvider("primary", [
+      new LLMError("rate_limited", "429", { status: 429, retryAfterMs: 60_000 }),
+    ]);
+    const fallback = scriptedProvider("fallback", ["Right away"]);
+    const llm = createResilientProvider({
+      targets: [{ provider: primary.provider }, { provider: fallback.provider }],
+      ...options,
+    });
+
+    await expect(llm.complete(request)).resolves.toBe("Right away");
+    expect(primary.calls).toHaveLength(1);
+  });
+
+  it("throws the last error when every target fails", async () => {
+    const primary = scriptedProvider("primary", []);
+    const fallback = scriptedProvider("fallback", [new LLMError("bad_request", "unknown model", { status: 404 })]);
+    const llm = createResilientProvider({
+      targets: [{ provider: primary.provider }, { provider: fallback.provider }],
+      ...options,
+      retries: 0,
+    });
+
+    await expect(llm.complete(request)).rejects.toMatchObject({ kind: "bad_request", status: 404 });
+  });
+
+  it("turns a reply slower than timeoutMs into a retryable timeout", async () => {
+    vi.useFakeTimers();
+    const hanging: LLMProvider = {
+      name: "hanging",
+      configurationError: () => null,
+      complete: ({ signal }) =>
+        new Promise((_, reject) => signal?.addEventListener("abort", () => reject(new Error("aborted")))),
+      stream: () => ({ [Symbol.asyncIterator]: () => ({ next: () => new Promise(() => {}) }) }),
+    };
+    const fallback = scriptedProvider("fallback", ["In time"]);
+    const llm = createResilientProvider({
+      targets: [{ provider: hanging }, { provider: fallback.provider }],
+      ...options,
+      retries: 0,
+    });
+
+    const reply = llm.complete(request);
+    await vi.advanceTimersByTimeAsync(options.timeoutMs);
+    await expect(reply).resolves.toBe("In time");
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining("(timeout)"));
+  });
+
+  it("doesn't retry when the caller aborts", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const primary = scriptedProvider("primary", [new LLMError("aborted", "Stopped")]);
+    const fallback = scriptedProvider("fallback", ["never"]);
+    const llm = createResilientProvider({
+      targets: [{ provider: primary.provider }, { provider: fallback.provider }],
+      ...options,
+    });
+
+    await expect(llm.complete({ ...request, signal: controller.signal })).rejects.toMatchObject({
+      kind: "aborted",
+    });
+    expect(primary.calls).toHaveLength(1);
+    expect(fallback.calls).toHaveLength(0);
+  });
+
+  it("retries a stream that fails before its first chunk", async () => {
+    const primary = scriptedProvider("primary", [unavailable(), "Hel|lo"]);
+    const llm = createResilientProvider({ targets: [{ provider: primary.provider }], ...options });
+
+    const chunks: string[] = [];
+    for await (const chunk of llm.stream(request)) chunks.push(chunk);
+    expect(chunks).toEqual(["Hel", "lo"]);
+    expect(primary.calls).toHaveLength(2);
+  });
+});
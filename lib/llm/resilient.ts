@@ -0,0 +1,175 @@
+import { LLMError, toLLMError } from "./errors";
+import type { CompletionRequest, LLMProvider } from "./types";
+
+export type ResilientTarget = {
+  provider: LLMProvider;
+  /** Model to use with this provider; the request's model when omitted. */
+  model?: string;
+};
+
+type ResilientOptions = {
+  /** Tried in order: the primary, then fallbacks. Unconfigured ones are skipped. */
+  targets: ResilientTarget[];
+  /** Per attempt: until the reply (complete) or between chunks (stream). */
+  timeoutMs: number;
+  /** Extra attempts per target for rate limits, outages and timeouts. */
+  retries: number;
+  /** First backoff delay; doubles with each retry. */
+  retryBaseMs: number;
+};
+
+// Don't keep a visitor waiting on a long Retry-After; move to the fallback
+const MAX_RETRY_WAIT_MS = 5000;
+
+function backoffDelay(error: LLMError, attempt: number, baseMs: number): number {
+  if (error.retryAfterMs !== null) return error.retryAfterMs;
+  // Exponential with jitter, so retries from many visitors don't line up
+  return baseMs * 2 ** attempt * (0.5 + Math.random() / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new LLMError("aborted", "Request was aborted"));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new LLMError("aborted", "Request was aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// One attempt's signal: aborts when the caller aborts or the timer runs out.
+// The timer is re-armed for every stream chunk.
+function startAttempt(callerSignal: AbortSignal | undefined, timeoutMs: number) {
+  const timeout = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const disarm = () => clearTimeout(timer);
+  const arm = () => {
+    disarm();
+    timer = setTimeout(() => timeout.abort(), timeoutMs);
+  };
+
+  return {
+    signal: callerSignal ? AbortSignal.any([callerSignal, timeout.signal]) : timeout.signal,
+    arm,
+    disarm,
+    /** The provider's error, or a timeout when our timer caused it. */
+    error(err: unknown): LLMError {
+      if (callerSignal?.aborted) return toLLMError(err, callerSignal);
+      if (timeout.signal.aborted) {
+        return new LLMError("timeout", `No response within ${timeoutMs}ms`, { cause: err });
+      }
+      return toLLMError(err);
+    },
+  };
+}
+
+// --- Timeouts, retries with backoff and fallback around any provider ---
+// Retryable errors (rate limits, outages, timeouts) are retried on the same
+// target, then the next target gets a turn; a rejected request skips straight
+// to the next target, since another model may accept it. The last error is
+// thrown when everything failed. Streams are only retried before the first
+// chunk: after that the visitor has seen part of the answer.
+export function createResilientProvider({
+  targets,
+  timeoutMs,
+  retries,
+  retryBaseMs,
+}: ResilientOptions): LLMProvider {
+  const ready = () => targets.filter(({ provider }) => !provider.configurationError());
+
+  // Calls `attempt` for each target and retry until one succeeds
+  async function run<T>(
+    request: CompletionRequest,
+    attempt: (target: ResilientTarget, attemptRequest: CompletionRequest) => Promise<T>
+  ): Promise<T> {
+    let lastError: LLMError | null = null;
+
+    for (const target of ready()) {
+      for (let number = 0; number <= retries; number++) {
+        try {
+          return await attempt(target, { ...request, model: target.model ?? request.model });
+        } catch (err) {
+          const error = toLLMError(err, request.signal);
+          if (error.kind === "aborted") throw error;
+
+          lastError = error;
+          console.warn(
+            `[llm] ${target.provider.name} attempt ${number + 1} failed (${error.kind}): ${error.message}`
+          );
+          if (!error.retryable || number === retries) break;
+
+          const delay = backoffDelay(error, number, retryBaseMs);
+          if (delay > MAX_RETRY_WAIT_MS) break;
+          await sleep(delay, request.signal);
+        }
+      }
+    }
+
+    throw lastError ?? new LLMError("unavailable", "No configured LLM provider");
+  }
+
+  return {
+    name: targets
+      .map(({ provider, model }) => (model ? `${provider.name}:${model}` : provider.name))
+      .join(" → "),
+    configurationError() {
+      if (ready().length) return null;
+      return targets[0]?.provider.configurationError() ?? "No provider configured.";
+    },
+    complete(request) {
+      return run(request, async ({ provider }, attemptRequest) => {
+        const attempt = startAttempt(request.signal, timeoutMs);
+        attempt.arm();
+        try {
+          return await provider.complete({ ...attemptRequest, signal: attempt.signal });
+        } catch (err) {
+          throw attempt.error(err);
+        } finally {
+          attempt.disarm();
+        }
+      });
+    },
+    async *stream(request) {
+      // Wait for the first chunk under the retry loop; once it's here, the
+      // rest of the stream is passed through with only the idle timeout
+      const { first, iterator, attempt } = await run(request, async ({ provider }, attemptRequest) => {
+        const attempt = startAttempt(request.signal, timeoutMs);
+        const iterator = provider
+          .stream({ ...attemptRequest, signal: attempt.signal })
+          [Symbol.asyncIterator]();
+        attempt.arm();
+        try {
+          return { first: await iterator.next(), iterator, attempt };
+        } catch (err) {
+          await iterator.return?.().catch(() => {});
+          throw attempt.error(err);
+        } finally {
+          attempt.disarm();
+        }
+      });
+
+      try {
+        let next = first;
+        while (!next.done) {
+          yield next.value;
+          attempt.arm();
+          try {
+            next = await iterator.next();
+          } catch (err) {
+            throw attempt.error(err);
+          } finally {
+            attempt.disarm();
+          }
+        }
+      } finally {
+        await iterator.return?.().catch(() => {});
+      }
+    },
+  };
+}
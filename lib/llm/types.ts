@@ -0,0 +1,29 @@
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+// Per-deployment generation settings (see `lib/llm/index.ts` for the env vars)
+export type GenerationSettings = {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+};
+
+export type CompletionRequest = GenerationSettings & {
+  messages: ChatMessage[];
+  signal?: AbortSignal;
+};
+
+// A chat-completion backend. New providers implement this and register in
+// `lib/llm/index.ts`; the chat route only talks to this interface.
+export interface LLMProvider {
+  /** Short name used in logs, e.g. "groq" or "openai:http://localhost:11434/v1". */
+  readonly name: string;
+  /** Why the provider can't run (missing key, URL, …), or null when it's ready. */
+  configurationError(): string | null;
+  /** Full reply text (untrimmed). */
+  complete(request: CompletionRequest): Promise<string>;
+  /** Reply text as it is generated. */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import type { PortfolioRow } from "../knowledge/types";
+import type { ChatMessage } from "../llm/types";
+import { excerptRow, planContext, promptBudget } from "./budget";
+import { CONTEXT_ROW_SEPARATOR, formatContextRow } from "./system-prompt";
+import { estimateTokens } from "./tokens";
+
+const row = (id: number, content: string): PortfolioRow => ({
+  id,
+  project: "satori_2_0",
+  type: "detail",
+  title: `Row ${id}`,
+  content,
+  tags: null,
+  role: null,
+  pillar: null,
+  medium: null,
+  aspect: null,
+  audience: null,
+  tools_methods: null,
+  one_liner: null,
+  is_highlight: null,
+  depth: null,
+});
+
+const sentence = (topic: string) => `We ran weekly sessions about ${topic} with the team.`;
+const longContent = (topics: string[]) => topics.map(sentence).join(" ");
+
+const buildPrompt = (rows: PortfolioRow[], summary: string) =>
+  [
+    "You are the portfolio assistant. Answer from the rows below.",
+    rows.map(formatContextRow).join(CONTEXT_ROW_SEPARATOR),
+    summary,
+  ].join("\n\n");
+
+const turns = (count: number): ChatMessage[] =>
+  Array.from({ length: count }, (_, i) => ({
+    role: i % 2 ? "assistant" : "user",
+    content: `${i % 2 ? "Answer" : "Question"} number ${i}. ${"More words to take up room. ".repeat(8)}`,
+  }));
+
+describe("promptBudget", () => {
+  it("leaves room for the answer in the model's window", () => {
+    expect(promptBudget({ model: "llama3.1:8b", maxTokens: 4000 })).toBe(8192 - 4000);
+  });
+
+  it("never goes over PROMPT_BUDGET_TOKENS, however big the window", () => {
+    expect(promptBudget({ model: "gpt-4o-mini", maxTokens: 1000 })).toBe(6000);
+    expect(promptBudget({ model: "llama-3.3-70b-versatile", maxTokens: 1000 })).toBe(6000);
+  });
+
+  it("uses a small default window for unknown models", () => {
+    expect(promptBudget({ model: "some-new-model", maxTokens: 8192 })).toBe(0);
+  });
+});
+
+describe("excerptRow", () => {
+  it("returns a row that already fits as is", () => {
+    const short = row(1, "Short.");
+    expect(excerptRow(short, 100, "anything")).toBe(short);
+  });
+
+  it("keeps the sentences that match the question, in their original order", () => {
+    const topics = ["budgets", "recruiting", "hiring", "prototypes", "mycelium", "launch"];
+    const excerpt = excerptRow(row(1, longContent(topics)), 30, "how did mycelium and recruiting go?");
+
+    expect(excerpt.content).toBe(
+      `${sentence("recruiting")} … ${sentence("mycelium")} […]`
+    );
+    expect(estimateTokens(excerpt.content)).toBeLessThanOrEqual(30);
+  });
+
+  it("cuts a single overlong sentence at a word boundary", () => {
+    const excerpt = excerptRow(row(1, "word ".repeat(200).trim()), 10, "word");
+    expect(excerpt.content).toMatch(/^(?:word )+\[…\]$/);
+    expect(estimateTokens(excerpt.content)).toBeLessThanOrEqual(10);
+  });
+});
+
+describe("planContext", () => {
+  it("keeps everything when it all fits", () => {
+    const rows = [row(1, "Short."), row(2, "Also short.")];
+    const history = turns(4);
+    const plan = planContext({ buildPrompt, rows, history, summary: "", message: "Hi", budget: 6000 });
+
+    expect(plan.rows).toEqual(rows);
+    expect(plan.history).toEqual(history);
+    expect(plan.summary).toBe("");
+    expect(plan.systemPrompt).toBe(buildPrompt(rows, ""));
+  });
+
+  it("shortens long rows before dropping any, and drops the weakest first", () => {
+    const topics = Array.from({ length: 40 }, (_, i) => `topic ${i}`);
+    const rows = Array.from({ length: 20 }, (_, i) => row(i + 1, longContent(topics)));
+    const plan = planContext({ buildPrompt, rows, history: [], summary: "", message: "Hi", budget: 1500 });
+
+    expect(plan.rows.length).toBeGreaterThan(0);
+    expect(plan.rows.length).toBeLessThan(rows.length);
+    expect(plan.rows.map((r) => r.id)).toEqual(rows.slice(0, plan.rows.length).map((r) => r.id));
+    expect(plan.rows.every((r) => r.content.endsWith("[…]"))).toBe(true);
+    expect(plan.usage.total).toBeLessThanOrEqual(1500);
+  });
+
+  it("keeps the newest turns and folds older ones into the summary", () => {
+    const history = turns(30);
+    const plan = planContext({
+      buildPrompt,
+      rows: [row(1, "Short.")],
+      history,
+      summary: "",
+      message: "And then?",
+      budget: 1200,
+    });
+
+    expect(plan.history.length).toBeLessThan(history.length);
+    expect(plan.history).toEqual(history.slice(-plan.history.length));
+    expect(plan.history[0].role).toBe("user");
+    expect(plan.summary).toContain("- Visitor asked: Question number 0.");
+    expect(plan.systemPrompt).toContain(plan.summary);
+    expect(plan.usage.total).toBeLessThanOrEqual(1200);
+  });
+
+  it("reports what each part used against the budget", () => {
+    const plan = planContext({
+      buildPrompt,
+      rows: [row(1, "Short.")],
+      history: turns(2),
+      summary: "",
+      message: "Hi",
+      budget: 6000,
+    });
+    const { instructions, knowledge, history, total, budget } = plan.usage;
+
+    expect(budget).toBe(6000);
+    expect(total).toBeGreaterThan(instructions + knowledge + history);
+    expect(knowledge).toBe(estimateTokens(formatContextRow(plan.rows[0])) + estimateTokens(CONTEXT_ROW_SEPARATOR));
+  });
+});
@@ -0,0 +1,223 @@
+import type { PortfolioRow } from "../knowledge/types";
+import type { ChatMessage, GenerationSettings } from "../llm/types";
+import { readNumberEnv } from "../env";
+import { tokenize } from "../retrieval/text";
+import { summarizeTurns, SUMMARY_MAX_TOKENS } from "./summary";
+import { CONTEXT_ROW_SEPARATOR, formatContextRow } from "./system-prompt";
+import { estimateTokens } from "./tokens";
+
+// --- Environment variables ---
+// PROMPT_BUDGET_TOKENS: most tokens a prompt may use (system prompt, history
+// and question), whatever the model's window allows. Smaller is cheaper and faster.
+const PROMPT_BUDGET_TOKENS = readNumberEnv("PROMPT_BUDGET_TOKENS", 6000);
+// Share of what's left after the instructions that goes to knowledge rows;
+// history gets the rest plus anything the rows didn't use
+const PROMPT_KNOWLEDGE_SHARE = Math.min(
+  0.9,
+  Math.max(0.1, readNumberEnv("PROMPT_KNOWLEDGE_SHARE", 0.6))
+);
+
+// Context windows of models this starter is commonly run with. The window
+// must hold the prompt and the answer (maxTokens).
+const CONTEXT_WINDOWS: [model: RegExp, tokens: number][] = [
+  [/^llama-3\.[123]-|^meta-llama\/llama-4/i, 131_072],
+  [/^gpt-4o|^gpt-4\.1|^gpt-5/i, 128_000],
+  [/^(llama3|mistral|qwen|gemma)/i, 8_192],
+  [/^mock/i, 32_768],
+];
+const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+// A row needs its header lines plus at least this much content to be worth
+// keeping; below that, the weakest rows are dropped instead
+const MIN_CONTENT_TOKENS = 40;
+
+// Role and formatting tokens each chat message costs on top of its text
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const messageTokens = (message: Pick<ChatMessage, "content">) =>
+  estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+
+export function promptBudget({
+  model,
+  maxTokens,
+}: Pick<GenerationSettings, "model" | "maxTokens">): number {
+  const window =
+    CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model))?.[1] ??
+    DEFAULT_CONTEXT_WINDOW;
+  return Math.max(0, Math.min(PROMPT_BUDGET_TOKENS, window - maxTokens));
+}
+
+// --- Shorten a row's content to the sentences that matter for the question ---
+export function excerptRow(
+  row: PortfolioRow,
+  contentTokens: number,
+  query: string
+): PortfolioRow {
+  if (estimateTokens(row.content) <= contentTokens) return row;
+
+  const maxChars = Math.max(0, contentTokens * 4 - 6);
+  const sentences = row.content.match(/[^.!?]+(?:[.!?]+|$)\s*/g) ?? [row.content];
+  const queryTerms = new Set(tokenize(query));
+
+  // Best-matching sentences first; earlier ones win ties
+  const ranked = sentences
+    .map((text, index) => ({
+      index,
+      text: text.trim(),
+      score: tokenize(text).filter((term) => queryTerms.has(term)).length,
+    }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+
+  const picked: typeof ranked = [];
+  let used = 0;
+  for (const sentence of ranked) {
+    if (used + sentence.text.length + 3 > maxChars) continue;
+    picked.push(sentence);
+    used += sentence.text.length + 3;
+  }
+
+  let content: string;
+  if (picked.length) {
+    picked.sort((a, b) => a.index - b.index);
+    content = picked
+      .map((s, i) => (i > 0 && s.index !== picked[i - 1].index + 1 ? `… ${s.text}` : s.text))
+      .join(" ");
+  } else {
+    // Even the best sentence is too long: cut it at a word boundary
+    const cut = ranked[0].text.slice(0, maxChars);
+    content = cut.slice(0, Math.max(cut.lastIndexOf(" "), 0) || cut.length);
+  }
+
+  return { ...row, content: `${content} […]` };
+}
+
+// --- Knowledge rows: keep as many as fit, shorten the long ones ---
+// Rows are taken in rank order while each can get a useful minimum. The rest
+// of the budget is then shared out evenly; short rows that need less than
+// their share pass the remainder on to longer ones.
+function fitRows(
+  rows: PortfolioRow[],
+  budget: number,
+  query: string
+): { rows: PortfolioRow[]; tokens: number } {
+  const separator = estimateTokens(CONTEXT_ROW_SEPARATOR);
+
+  const candidates: { row: PortfolioRow; size: number; minimum: number }[] = [];
+  let remaining = budget;
+  for (const row of rows) {
+    const size = estimateTokens(formatContextRow(row)) + separator;
+    const header = size - estimateTokens(row.content);
+    const minimum = Math.min(size, header + MIN_CONTENT_TOKENS);
+    if (minimum > remaining) break;
+    candidates.push({ row, size, minimum });
+    remaining -= minimum;
+  }
+
+  const allocation = candidates.map((c) => c.minimum);
+  const bySize = candidates
+    .map((_, i) => i)
+    .sort((a, b) => candidates[a].size - candidates[b].size);
+  bySize.forEach((index, k) => {
+    const share = Math.floor(remaining / (bySize.length - k));
+    const extra = Math.min(candidates[index].size - allocation[index], share);
+    allocation[index] += extra;
+    remaining -= extra;
+  });
+
+  const fitted = candidates.map(({ row, size }, i) => {
+    if (allocation[i] >= size) return row;
+    const header = size - estimateTokens(row.content);
+    return excerptRow(row, allocation[i] - header, query);
+  });
+
+  return { rows: fitted, tokens: budget - remaining };
+}
+
+// --- History: newest turns verbatim, older ones folded into the summary ---
+function fitHistory(
+  history: ChatMessage[],
+  budget: number,
+  summary: string
+): { history: ChatMessage[]; summary: string; tokens: number } {
+  const total = history.reduce((sum, m) => sum + messageTokens(m), 0);
+  const summaryTokens = estimateTokens(summary);
+  if (total + summaryTokens <= budget) {
+    return { history, summary, tokens: total + summaryTokens };
+  }
+
+  // Leave room for the summary the dropped turns will turn into
+  let available = budget - SUMMARY_MAX_TOKENS;
+  let start = history.length;
+  while (start > 0 && messageTokens(history[start - 1]) <= available) {
+    available -= messageTokens(history[start - 1]);
+    start--;
+  }
+  // Don't open the kept history with an answer to a question that was cut
+  if (history[start]?.role === "assistant") start++;
+
+  const kept = history.slice(start);
+  const folded = summarizeTurns(summary, history.slice(0, start));
+  return {
+    history: kept,
+    summary: folded,
+    tokens:
+      kept.reduce((sum, m) => sum + messageTokens(m), 0) + estimateTokens(folded),
+  };
+}
+
+export type ContextPlan = {
+  /** Rows that made it into the prompt, long ones excerpted. */
+  rows: PortfolioRow[];
+  history: ChatMessage[];
+  /** Running summary of turns that no longer fit (empty if none). */
+  summary: string;
+  systemPrompt: string;
+  /** Estimated tokens per part, for logs and the admin preview. */
+  usage: { instructions: number; knowledge: number; history: number; total: number; budget: number };
+};
+
+type PlanInput = {
+  /** Renders the system prompt for a given set of rows and summary. */
+  buildPrompt: (rows: PortfolioRow[], summary: string) => string;
+  /** Retrieved rows, best first. */
+  rows: PortfolioRow[];
+  history: ChatMessage[];
+  /** Summary carried over from earlier (e.g. stored with the session). */
+  summary: string;
+  message: string;
+  budget: number;
+};
+
+// --- Fit instructions, knowledge, history and the question into one budget ---
+export function planContext({
+  buildPrompt,
+  rows,
+  history,
+  summary,
+  message,
+  budget,
+}: PlanInput): ContextPlan {
+  const instructions = estimateTokens(buildPrompt([], "")) + MESSAGE_OVERHEAD_TOKENS;
+  const available = Math.max(0, budget - instructions - messageTokens({ content: message }));
+
+  const knowledge = fitRows(rows, Math.floor(available * PROMPT_KNOWLEDGE_SHARE), message);
+  const fittedHistory = fitHistory(history, available - knowledge.tokens, summary);
+
+  const usage = {
+    instructions,
+    knowledge: knowledge.tokens,
+    history: fittedHistory.tokens,
+    total: 0,
+    budget,
+  };
+  usage.total =
+    usage.instructions + usage.knowledge + usage.history + messageTokens({ content: message });
+
+  return {
+    rows: knowledge.rows,
+    history: fittedHistory.history,
+    summary: fittedHistory.summary,
+    systemPrompt: buildPrompt(knowledge.rows, fittedHistory.summary),
+    usage,
+  };
+}
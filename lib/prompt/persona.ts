@@ -0,0 +1,139 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { LANGUAGES, type Language } from "../i18n";
+
+// Who the assistant speaks for and how. Loaded from PERSONA_FILE
+// (default config/persona.json); `{{name}}` and `{{aboutProject}}` in any
+// string are filled in from the persona itself.
+export type Persona = {
+  /** Portfolio owner's name, e.g. "Jasmine". */
+  name: string;
+  /** What the assistant is for, e.g. "AI × UX portfolio". */
+  portfolio: string;
+  /** Project ID holding bio rows; listed separately from case studies. */
+  aboutProject: string;
+  /** Opening line when the visitor says hi. */
+  greeting: string;
+  /** The greeting in other languages, e.g. { "es": "¡Hola! …" }; falls back to `greeting`. */
+  greetings: Partial<Record<Language, string>>;
+  role: string[];
+  tone: string[];
+  /** Themes the model must never present as projects. */
+  notProjects: string[];
+  answerPatterns: { when: string; respond: string }[];
+  formatting: string[];
+  honesty: string[];
+};
+
+// --- Environment variables ---
+const PERSONA_FILE = process.env.PERSONA_FILE?.trim() || "config/persona.json";
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+// Check the parsed file so a typo fails loudly at load instead of producing
+// a prompt with "undefined" in it
+export function parsePersona(raw: unknown): Persona {
+  const p = (raw ?? {}) as Record<string, unknown>;
+  const problems: string[] = [];
+
+  for (const key of ["name", "portfolio", "aboutProject", "greeting"]) {
+    if (typeof p[key] !== "string" || !(p[key] as string).trim()) {
+      problems.push(`"${key}" must be a non-empty string`);
+    }
+  }
+  for (const key of ["role", "tone", "notProjects", "formatting", "honesty"]) {
+    if (p[key] !== undefined && !isStringArray(p[key])) {
+      problems.push(`"${key}" must be an array of strings`);
+    }
+  }
+
+  const patterns = p.answerPatterns ?? [];
+  if (
+    !Array.isArray(patterns) ||
+    !patterns.every(
+      (item) =>
+        typeof item?.when === "string" && typeof item?.respond === "string"
+    )
+  ) {
+    problems.push(`"answerPatterns" must be an array of { when, respond }`);
+  }
+
+  const greetings = (p.greetings ?? {}) as Record<string, unknown>;
+  if (
+    typeof greetings !== "object" ||
+    Array.isArray(greetings) ||
+    Object.entries(greetings).some(
+      ([language, text]) =>
+        !(LANGUAGES as readonly string[]).includes(language) || typeof text !== "string"
+    )
+  ) {
+    problems.push(`"greetings" must map ${LANGUAGES.join(" / ")} to strings`);
+  }
+
+  if (problems.length) {
+    throw new Error(`Invalid persona: ${problems.join("; ")}`);
+  }
+
+  const persona: Persona = {
+    name: p.name as string,
+    portfolio: p.portfolio as string,
+    aboutProject: p.aboutProject as string,
+    greeting: p.greeting as string,
+    greetings: greetings as Persona["greetings"],
+    role: (p.role as string[]) ?? [],
+    tone: (p.tone as string[]) ?? [],
+    notProjects: (p.notProjects as string[]) ?? [],
+    answerPatterns: patterns as Persona["answerPatterns"],
+    formatting: (p.formatting as string[]) ?? [],
+    honesty: (p.honesty as string[]) ?? [],
+  };
+
+  return fillPlaceholders(persona);
+}
+
+function fillPlaceholders(persona: Persona): Persona {
+  const fill = (text: string) =>
+    text
+      .replace(/\{\{\s*name\s*\}\}/g, persona.name)
+      .replace(/\{\{\s*aboutProject\s*\}\}/g, persona.aboutProject);
+
+  return {
+    ...persona,
+    portfolio: fill(persona.portfolio),
+    greeting: fill(persona.greeting),
+    greetings: Object.fromEntries(
+      Object.entries(persona.greetings).map(([language, text]) => [language, fill(text)])
+    ),
+    role: persona.role.map(fill),
+    tone: persona.tone.map(fill),
+    notProjects: persona.notProjects.map(fill),
+    answerPatterns: persona.answerPatterns.map(({ when, respond }) => ({
+      when: fill(when),
+      respond: fill(respond),
+    })),
+    formatting: persona.formatting.map(fill),
+    honesty: persona.honesty.map(fill),
+  };
+}
+
+let personaCache: Promise<Persona> | null = null;
+
+// --- Load the persona once per server process ---
+export function loadPersona(): Promise<Persona> {
+  if (!personaCache) {
+    personaCache = readFile(path.resolve(process.cwd(), PERSONA_FILE), "utf8")
+      .then((text) => parsePersona(JSON.parse(text)))
+      .catch((err) => {
+        personaCache = null;
+        throw new Error(`Could not load persona from ${PERSONA_FILE}: ${err.message}`);
+      });
+  }
+  return personaCache;
+}
+
+// The greeting in `language`, or the default one
+export function greetingFor(persona: Persona, language: Language): string {
+  return persona.greetings[language] ?? persona.greeting;
+}
@@ -0,0 +1,41 @@
+import { estimateTokens } from "./tokens";
+
+// Cap on the running summary; the oldest notes fall off first
+export const SUMMARY_MAX_TOKENS = 300;
+
+type Turn = { role: "user" | "assistant" | "system"; content: string };
+
+// First sentence (or the first `max` characters), without Markdown noise
+function gist(text: string, max: number): string {
+  const plain = text
+    .replace(/[*_`#>]+/g, "")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+  const sentence = plain.match(/^.+?[.!?](?=\s|$)/)?.[0] ?? plain;
+  return sentence.length > max ? `${sentence.slice(0, max - 1).trimEnd()}…` : sentence;
+}
+
+// --- Fold older turns into the running summary ---
+// Extractive on purpose: no extra model call, and nothing the visitor or the
+// model didn't actually say ends up in the prompt.
+export function summarizeTurns(previous: string, turns: Turn[]): string {
+  const lines = previous ? previous.split("\n").filter(Boolean) : [];
+
+  for (const turn of turns) {
+    if (!turn.content.trim()) continue;
+    if (turn.role === "user") {
+      lines.push(`- Visitor asked: ${gist(turn.content, 120)}`);
+    } else if (turn.role === "assistant") {
+      lines.push(`  You answered: ${gist(turn.content, 160)}`);
+    }
+  }
+
+  while (lines.length > 1 && estimateTokens(lines.join("\n")) > SUMMARY_MAX_TOKENS) {
+    lines.shift();
+  }
+  // Don't start on an answer whose question fell off
+  while (lines[0]?.startsWith("  ")) lines.shift();
+
+  return lines.join("\n");
+}
@@ -0,0 +1,173 @@
+import { DEFAULT_LANGUAGE, LANGUAGE_NAMES, type Language } from "../i18n";
+import { isSummary } from "../knowledge/schema";
+import type { PortfolioRow } from "../knowledge/types";
+import { greetingFor, type Persona } from "./persona";
+
+export type ProjectSummary = {
+  id: string;
+  /** Display name from the project's summary row. */
+  title: string;
+  oneLiner: string | null;
+};
+
+const NO_CONTEXT_TEXT = "No matching entries found in portfolio-knowledge.";
+
+// --- Valid projects: every project ID with a summary row (minus the bio) ---
+export function deriveProjects(
+  rows: PortfolioRow[],
+  persona: Pick<Persona, "aboutProject">
+): ProjectSummary[] {
+  const projects = new Map<string, ProjectSummary>();
+
+  for (const row of rows) {
+    if (!isSummary(row)) continue;
+    if (row.project === persona.aboutProject || projects.has(row.project)) continue;
+
+    projects.set(row.project, {
+      id: row.project,
+      title: row.title ?? row.project,
+      oneLiner: row.one_liner,
+    });
+  }
+
+  return [...projects.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
+
+export const CONTEXT_ROW_SEPARATOR = "\n\n---\n\n";
+
+// --- Build the text that actually goes into the prompt ---
+export function buildContextText(rows: PortfolioRow[]): string {
+  if (!rows.length) {
+    return NO_CONTEXT_TEXT;
+  }
+
+  return rows.map(formatContextRow).join(CONTEXT_ROW_SEPARATOR);
+}
+
+// One row as it appears in the prompt
+export function formatContextRow(row: PortfolioRow): string {
+  const lines = [
+    `PROJECT: ${row.project}`,
+    `TYPE: ${row.type}`,
+    `TITLE: ${row.title ?? "(no title)"}`,
+    `PILLAR: ${row.pillar ?? "(none)"}`,
+    `MEDIUM: ${row.medium ?? "(none)"}`,
+    `AUDIENCE: ${row.audience ?? "(none)"}`,
+    `TAGS: ${row.tags ?? "(none)"}`,
+    `ROLE: ${row.role ?? "(unspecified)"}`,
+    `ONE_LINER: ${row.one_liner ?? "(none)"}`,
+    `TOOLS_METHODS: ${row.tools_methods ?? "(none)"}`,
+    `DEPTH: ${row.depth ?? "(none)"}`,
+    `CONTENT: ${row.content}`,
+  ];
+  return lines.join("\n");
+}
+
+type SystemPromptInput = {
+  persona: Persona;
+  /** All valid projects (from the full knowledge base, not just scoped rows). */
+  projects: ProjectSummary[];
+  /** Rows retrieved for this question. */
+  scopedRows: PortfolioRow[];
+  /** Older turns that no longer fit in the history, summarized. */
+  conversationSummary?: string;
+  /** Language to answer in. */
+  language?: Language;
+  /** The case study page the visitor is on, if any. */
+  focus?: { project: ProjectSummary; widened: boolean };
+};
+
+// Empty sections (e.g. no formatting rules in the persona) are left out
+function section(heading: string, lines: string[]): string {
+  return lines.length ? [heading, ...lines].join("\n") : "";
+}
+
+const bullets = (items: string[], indent = "") =>
+  items.map((item) => `${indent}- ${item}`);
+
+// --- System prompt: constrained, short, grounded, using your actual data ---
+// Assembled from parts (no template escaping) and always ends with the
+// retrieved knowledge block.
+export function buildSystemPrompt({
+  persona,
+  projects,
+  scopedRows,
+  conversationSummary,
+  language = DEFAULT_LANGUAGE,
+  focus,
+}: SystemPromptInput): string {
+  const { name, aboutProject } = persona;
+
+  const projectLines = projects.length
+    ? projects.map((p) => `  - ${p.id} (${p.title})`)
+    : ["  - (none yet: no project has a summary row)"];
+
+  const dataModel = [
+    "- Each row has: project, type, title, content, tags, audience, tools_methods.",
+    "- The only valid project IDs in this portfolio are:",
+    ...projectLines,
+    `- The "${aboutProject}" project is NOT a case study. Use it only for bio questions about ${name}: background and overall focus.`,
+    `- A “project” is one of the project IDs listed above that has at least one row with type = "summary".`,
+  ];
+  if (persona.notProjects.length) {
+    dataModel.push(
+      `- Never treat tags, themes, or phrases from content (like ${persona.notProjects
+        .map((t) => `"${t}"`)
+        .join(", ")}) as project names.`
+    );
+  }
+
+  const projectList = [
+    `- WHEN USER SAYS: "projects", "show me the projects", "what projects can I explore?" or similar:`,
+    "  - Respond with a bullet list.",
+    "  - For each valid project ID:",
+    "    - Use the `title` from one of its `summary` rows as the display name.",
+    "    - Use 1 short sentence based on its `content` as the description.",
+    `  - After the list, ask: "Which one do you want to explore first?"`,
+    "- Do NOT list anything else as a project.",
+  ];
+
+  const answerPatterns = [
+    "- On greeting:",
+    `  "${greetingFor(persona, language)}"`,
+    ...persona.answerPatterns.map(({ when, respond }) => `- ${when} → ${respond}`),
+  ];
+
+  const contextText = buildContextText(scopedRows);
+
+  const languageRules = [
+    `- Answer in ${LANGUAGE_NAMES[language]}, whatever language the knowledge or earlier messages are in.`,
+    "- Keep project IDs exactly as listed; translate descriptions, not IDs.",
+  ];
+
+  const pageContext: string[] = [];
+  if (focus) {
+    const { id, title } = focus.project;
+    pageContext.push(
+      `- The visitor is on the case study page for ${id} (${title}). Questions that don't name a project ("what was the impact?", "how did it start?") are about it.`,
+      focus.widened
+        ? "- They asked about more than this project: answer from the whole portfolio as usual."
+        : `- Stay on ${title}. If they want to explore other work, say they can ask about ${name}'s other projects.`
+    );
+  }
+
+  return [
+    `You are an AI assistant for ${name}'s ${persona.portfolio}.`,
+    section("ROLE", bullets(persona.role)),
+    section("TONE", bullets(persona.tone)),
+    section("DATA MODEL", dataModel),
+    section("PROJECT LIST BEHAVIOR", projectList),
+    section("ANSWER PATTERNS", answerPatterns),
+    section("FORMATTING", bullets(persona.formatting)),
+    section("HONESTY", bullets(persona.honesty)),
+    section("LANGUAGE", languageRules),
+    section("PAGE CONTEXT", pageContext),
+    section(
+      "EARLIER IN THIS CONVERSATION (summary; don't repeat what was covered unless asked):",
+      conversationSummary ? [conversationSummary] : []
+    ),
+    section("Portfolio knowledge:", [contextText]),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
@@ -0,0 +1,5 @@
+// Roughly 4 characters per token for English with any common tokenizer.
+// Good enough to plan with; the budgets leave headroom for the error.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
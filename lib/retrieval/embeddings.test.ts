@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { PortfolioRow } from "../knowledge/types";
+import {
+  cosineSimilarity,
+  createHashingEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+  rowEmbeddingText,
+} from "./embeddings";
+
+const norm = (vector: number[]) => Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+
+describe("cosineSimilarity", () => {
+  it("is 1 for the same direction, 0 for orthogonal and -1 for opposite vectors", () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 1], [-1, -1])).toBeCloseTo(-1);
+  });
+
+  it("is 0 when either vector is all zeros", () => {
+    expect(cosineSimilarity([0, 0], [1, 1])).toBe(0);
+  });
+});
+
+describe("rowEmbeddingText", () => {
+  it("joins the descriptive fields, skipping empty ones", () => {
+    const row = {
+      project: "satori_2_0",
+      title: "Satori 2.0",
+      tags: null,
+      one_liner: "A calmer meditation app",
+      content: "We interviewed 12 meditators.",
+    } as PortfolioRow;
+    expect(rowEmbeddingText(row)).toBe(
+      "satori_2_0\nSatori 2.0\nA calmer meditation app\nWe interviewed 12 meditators."
+    );
+  });
+});
+
+describe("createHashingEmbeddingProvider", () => {
+  const provider = createHashingEmbeddingProvider({ dimensions: 128 });
+  const similarity = async (a: string, b: string) => {
+    const [left, right] = await provider.embed([a, b]);
+    return cosineSimilarity(left, right);
+  };
+
+  it("returns one unit vector per input, in order, without a network", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    const vectors = await provider.embed(["design systems", "user research", "design systems"]);
+
+    expect(vectors).toHaveLength(3);
+    expect(vectors.every((v) => v.length === 128)).toBe(true);
+    vectors.forEach((v) => expect(norm(v)).toBeCloseTo(1));
+    expect(vectors[2]).toEqual(vectors[0]);
+    expect(vectors[1]).not.toEqual(vectors[0]);
+    expect(fetchSpy).not.toHaveBeenCalled();
+    fetchSpy.mockRestore();
+  });
+
+  it("gives text without any tokens a zero vector", async () => {
+    const [vector] = await provider.embed(["the of and"]);
+    expect(norm(vector)).toBe(0);
+  });
+
+  it("is the same across provider instances", async () => {
+    const other = createHashingEmbeddingProvider({ dimensions: 128 });
+    expect(await other.embed(["mixed reality"])).toEqual(await provider.embed(["mixed reality"]));
+    expect(provider.name).toBe("local-hashing-128");
+  });
+
+  it("puts related wording closer through the concept map", async () => {
+    const related = await similarity("How does she handle ethics?", "Consent and privacy came first.");
+    const unrelated = await similarity("How does she handle ethics?", "The launch grew adoption.");
+    expect(related).toBeGreaterThan(unrelated);
+    expect(related).toBeGreaterThan(0.2);
+  });
+
+  it("scores shared word stems above unrelated text", async () => {
+    const shared = await similarity("prototyping", "prototypes we tested");
+    const unrelated = await similarity("prototyping", "quarterly budget");
+    expect(shared).toBeGreaterThan(unrelated);
+  });
+});
+
+describe("createOpenAIEmbeddingProvider", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends batches and reorders vectors by index", async () => {
+    const fetchMock = vi.fn(async (_url: RequestInfo | URL, init?: RequestInit) => {
+      const { input } = JSON.parse(String(init?.body)) as { input: string[] };
+      const data = input.map((text, index) => ({ index, embedding: [text.length] })).reverse();
+      return Response.json({ data });
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const provider = createOpenAIEmbeddingProvider({
+      baseUrl: "https://embeddings.example/v1/",
+      model: "test-model",
+      apiKey: "key",
+      batchSize: 2,
+    });
+
+    expect(await provider.embed(["a", "bb", "ccc"])).toEqual([[1], [2], [3]]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://embeddings.example/v1/embeddings");
+    expect(init?.headers).toMatchObject({ Authorization: "Bearer key" });
+  });
+
+  it("throws on an error status or a short response", async () => {
+    const provider = createOpenAIEmbeddingProvider({ baseUrl: "https://e.example", model: "m" });
+
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 500 })));
+    await expect(provider.embed(["a"])).rejects.toThrow("status 500");
+
+    vi.stubGlobal("fetch", vi.fn(async () => Response.json({ data: [] })));
+    await expect(provider.embed(["a"])).rejects.toThrow("did not match");
+  });
+});
@@ -0,0 +1,198 @@
+import type { PortfolioRow } from "../knowledge/types";
+import { tokenize } from "./text";
+
+// Turns text into vectors. Implementations must return one vector per input,
+// in order, all with the same length.
+export interface EmbeddingProvider {
+  /** Identifies the model; vectors from different providers are not comparable. */
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// --- Text we embed for each knowledge row ---
+export function rowEmbeddingText(row: PortfolioRow): string {
+  return [row.project, row.title, row.tags, row.one_liner, row.content]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (!normA || !normB) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// --- Deterministic local provider (no network; good for dev, CI and tests) ---
+
+// Small concept map so related wording lands near each other even without a
+// trained model, e.g. "ethics" ↔ "responsible AI" ↔ "consent".
+const CONCEPTS: Record<string, string[]> = {
+  ethics: [
+    "ethics",
+    "ethical",
+    "responsible ai",
+    "consent",
+    "fairness",
+    "bias",
+    "privacy",
+    "transparency",
+    "trust",
+    "harm",
+  ],
+  research: [
+    "research",
+    "user interviews",
+    "usability testing",
+    "co-design",
+    "workshop",
+    "survey",
+    "participants",
+  ],
+  impact: ["impact", "outcome", "results", "metrics", "retention", "adoption", "growth"],
+  agents: ["agent", "agentic", "autonomy", "assistant", "copilot", "automation"],
+  conversation: ["chat", "chatbot", "conversational", "conversation", "voice"],
+  generative_visuals: ["midjourney", "imagery", "image generation", "visual", "generative"],
+  design_systems: ["design system", "components", "pattern library", "tokens"],
+  spatial: ["spatial", "mixed reality", "augmented reality", "virtual reality", "ar", "vr", "xr", "3d"],
+  wellbeing: ["wellness", "wellbeing", "meditation", "mental health", "mood"],
+  community: ["community", "social impact", "civic", "nonprofit", "grassroots"],
+};
+
+// Each concept phrase as a stemmed token sequence
+const CONCEPT_PATTERNS: [concept: string, tokens: string[]][] = Object.entries(
+  CONCEPTS
+).flatMap(([concept, phrases]) =>
+  phrases.map((phrase): [string, string[]] => [concept, tokenize(phrase)])
+);
+
+const TOKEN_WEIGHT = 1;
+const TRIGRAM_WEIGHT = 0.3;
+const CONCEPT_WEIGHT = 1.5;
+
+// FNV-1a, 32-bit
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+function containsSequence(tokens: string[], sequence: string[]): boolean {
+  if (!sequence.length) return false;
+  outer: for (let i = 0; i + sequence.length <= tokens.length; i++) {
+    for (let j = 0; j < sequence.length; j++) {
+      if (tokens[i + j] !== sequence[j]) continue outer;
+    }
+    return true;
+  }
+  return false;
+}
+
+type HashingProviderOptions = {
+  dimensions?: number;
+};
+
+export function createHashingEmbeddingProvider({
+  dimensions = 256,
+}: HashingProviderOptions = {}): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const vector = new Array<number>(dimensions).fill(0);
+    const add = (feature: string, weight: number) => {
+      const h = hash(feature);
+      // Top bit picks the sign so collisions tend to cancel instead of pile up
+      vector[h % dimensions] += h & 0x80000000 ? -weight : weight;
+    };
+
+    const tokens = tokenize(text);
+
+    for (const token of tokens) {
+      add(`t:${token}`, TOKEN_WEIGHT);
+      const padded = `^${token}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        add(`g:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+      }
+    }
+
+    for (const [concept, sequence] of CONCEPT_PATTERNS) {
+      if (containsSequence(tokens, sequence)) add(`c:${concept}`, CONCEPT_WEIGHT);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm ? vector.map((v) => v / norm) : vector;
+  };
+
+  return {
+    name: `local-hashing-${dimensions}`,
+    async embed(texts) {
+      return texts.map(embedOne);
+    },
+  };
+}
+
+// --- Any OpenAI-compatible /embeddings endpoint (OpenAI, Ollama, llama.cpp, …) ---
+
+type OpenAIEmbeddingOptions = {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  batchSize?: number;
+};
+
+type EmbeddingsResponse = {
+  data?: { index: number; embedding: number[] }[];
+};
+
+export function createOpenAIEmbeddingProvider({
+  baseUrl,
+  model,
+  apiKey,
+  batchSize = 64,
+}: OpenAIEmbeddingOptions): EmbeddingProvider {
+  const url = `${baseUrl.replace(/\/+$/, "")}/embeddings`;
+
+  return {
+    name: `openai:${model}`,
+    async embed(texts) {
+      const vectors: number[][] = [];
+
+      for (let start = 0; start < texts.length; start += batchSize) {
+        const batch = texts.slice(start, start + batchSize);
+        const res = await fetch(url, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({ model, input: batch }),
+        });
+
+        if (!res.ok) {
+          throw new Error(`Embedding request failed with status ${res.status}`);
+        }
+
+        const json = (await res.json()) as EmbeddingsResponse;
+        const data = [...(json.data ?? [])].sort((a, b) => a.index - b.index);
+
+        if (data.length !== batch.length) {
+          throw new Error("Embedding response did not match the number of inputs");
+        }
+
+        vectors.push(...data.map((d) => d.embedding));
+      }
+
+      return vectors;
+    },
+  };
+}
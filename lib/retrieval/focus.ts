@@ -0,0 +1,74 @@
+import type { PortfolioRow } from "../knowledge/types";
+import { fold, mentions } from "./text";
+
+// How a page's project shapes retrieval:
+// - "restrict": only that project's rows (and the bio) are searched
+// - "boost": everything is searched, but that project's rows rank first
+export type FocusMode = "restrict" | "boost";
+
+export const FOCUS_MODES: readonly FocusMode[] = ["restrict", "boost"];
+
+export function isFocusMode(value: unknown): value is FocusMode {
+  return typeof value === "string" && (FOCUS_MODES as readonly string[]).includes(value);
+}
+
+// Phrases that ask about the rest of the portfolio. A bare "projects" counts:
+// on a single case study, "what projects can I explore?" means all of them.
+const WIDEN_PATTERNS: RegExp[] = [
+  /\bprojects\b/i,
+  /\b(?:other|another|different|more|all|every)\s+(?:of\s+)?(?:(?:her|his|their|your|the)\s+)?(?:projects?|case stud(?:y|ies)|work)\b/i,
+  /\bwhat else\b/i,
+  /\b(?:rest of|whole|entire)\s+(?:(?:her|his|their|your|the)\s+)?(?:portfolio|work)\b/i,
+  /\b(?:besides|apart from|outside(?: of)?|beyond)\s+this\b/i,
+  /\bportfolio\b/i,
+  // Spanish
+  /\bproyectos\b/i,
+  /\b(?:otros?|otras?|más|todos?|todas?)\s+(?:(?:los|las|sus|tus)\s+)?(?:proyectos?|trabajos?|casos?)\b/i,
+  /\bqué más\b/i,
+  /\b(?:además|aparte|fuera|más allá)\s+de\s+(?:este|esto)\b/i,
+  /\bportafolio\b/i,
+];
+
+// --- Does the visitor want to look beyond the page's project? ---
+// True for "what else has she done?" and for questions naming another project
+// by ID or title.
+export function wantsWiderScope(
+  message: string,
+  focusProject: string,
+  projects: { id: string; title: string }[]
+): boolean {
+  if (WIDEN_PATTERNS.some((pattern) => pattern.test(message))) return true;
+
+  const text = fold(message);
+  return projects.some(
+    (project) =>
+      project.id !== focusProject &&
+      [project.id, project.title].some((name) => mentions(text, name))
+  );
+}
+
+// One filtered list per knowledge snapshot and project, so the lexical index
+// built for it is reused across requests
+const restrictedCache = new WeakMap<PortfolioRow[], Map<string, PortfolioRow[]>>();
+
+// --- The rows a restricted search looks at: the project plus the bio ---
+export function focusRows(
+  rows: PortfolioRow[],
+  focusProject: string,
+  aboutProject: string
+): PortfolioRow[] {
+  let byProject = restrictedCache.get(rows);
+  if (!byProject) {
+    byProject = new Map();
+    restrictedCache.set(rows, byProject);
+  }
+
+  let restricted = byProject.get(focusProject);
+  if (!restricted) {
+    restricted = rows.filter(
+      (row) => row.project === focusProject || row.project === aboutProject
+    );
+    byProject.set(focusProject, restricted);
+  }
+  return restricted;
+}
@@ -0,0 +1,105 @@
+import { createClient } from "@supabase/supabase-js";
+import { readNumberEnv } from "../env";
+import type { PortfolioRow } from "../knowledge/types";
+import {
+  createHashingEmbeddingProvider,
+  createOpenAIEmbeddingProvider,
+  type EmbeddingProvider,
+} from "./embeddings";
+import {
+  scopeKnowledgeToMessage,
+  type ScopeOptions,
+  type ScopeResult,
+} from "./scope";
+import {
+  createMemorySemanticRetriever,
+  createPgvectorSemanticRetriever,
+  type SemanticRetriever,
+} from "./semantic";
+
+export { scopeKnowledgeToMessage } from "./scope";
+export { FOCUS_MODES, focusRows, isFocusMode, wantsWiderScope } from "./focus";
+export type { FocusMode } from "./focus";
+export type { ScopeOptions, ScopeResult } from "./scope";
+
+// --- Environment variables ---
+// SEMANTIC_RETRIEVAL: "off" (default) | "memory" | "pgvector"
+const SEMANTIC_RETRIEVAL =
+  process.env.SEMANTIC_RETRIEVAL?.trim().toLowerCase() || "off";
+// EMBEDDING_PROVIDER: "local" (default, deterministic hashing) | "openai"
+const EMBEDDING_PROVIDER =
+  process.env.EMBEDDING_PROVIDER?.trim().toLowerCase() || "local";
+const EMBEDDING_BASE_URL =
+  process.env.EMBEDDING_BASE_URL?.trim() || "https://api.openai.com/v1";
+const EMBEDDING_MODEL =
+  process.env.EMBEDDING_MODEL?.trim() || "text-embedding-3-small";
+const EMBEDDING_API_KEY = process.env.EMBEDDING_API_KEY;
+const SEMANTIC_WEIGHT = readNumberEnv("SEMANTIC_WEIGHT", 0.5);
+const SUPABASE_MATCH_FUNCTION =
+  process.env.SUPABASE_MATCH_FUNCTION?.trim() || "match_portfolio_knowledge";
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+function createEmbeddingProvider(): EmbeddingProvider {
+  if (EMBEDDING_PROVIDER === "openai") {
+    return createOpenAIEmbeddingProvider({
+      baseUrl: EMBEDDING_BASE_URL,
+      model: EMBEDDING_MODEL,
+      apiKey: EMBEDDING_API_KEY,
+    });
+  }
+  if (EMBEDDING_PROVIDER !== "local") {
+    console.warn(
+      `[retrieval] Unknown EMBEDDING_PROVIDER "${EMBEDDING_PROVIDER}"; using local.`
+    );
+  }
+  return createHashingEmbeddingProvider();
+}
+
+function createSemanticRetriever(): SemanticRetriever | null {
+  if (SEMANTIC_RETRIEVAL === "off") return null;
+
+  const provider = createEmbeddingProvider();
+
+  if (SEMANTIC_RETRIEVAL === "pgvector") {
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+      console.warn(
+        "[retrieval] SEMANTIC_RETRIEVAL=pgvector needs the Supabase env vars; using in-memory vectors."
+      );
+      return createMemorySemanticRetriever(provider);
+    }
+    return createPgvectorSemanticRetriever({
+      supabase: createClient(SUPABASE_URL, SUPABASE_ANON_KEY),
+      provider,
+      functionName: SUPABASE_MATCH_FUNCTION,
+    });
+  }
+
+  return createMemorySemanticRetriever(provider);
+}
+
+const semanticRetriever = createSemanticRetriever();
+
+// --- Lexical scoping, blended with embeddings when semantic retrieval is on ---
+export async function scopeKnowledge(
+  message: string,
+  rows: PortfolioRow[],
+  options: ScopeOptions = {}
+): Promise<ScopeResult> {
+  if (!semanticRetriever || !rows.length) {
+    return scopeKnowledgeToMessage(message, rows, options);
+  }
+
+  try {
+    const semanticScores = await semanticRetriever.score(message, rows);
+    return scopeKnowledgeToMessage(message, rows, {
+      semanticWeight: SEMANTIC_WEIGHT,
+      ...options,
+      semanticScores,
+    });
+  } catch (err) {
+    // Semantic search is an enhancement; keyword ranking still works without it
+    console.error(`[retrieval] ${semanticRetriever.name} failed:`, err);
+    return scopeKnowledgeToMessage(message, rows, options);
+  }
+}
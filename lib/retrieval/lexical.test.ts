@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import type { PortfolioRow } from "../knowledge/types";
+import { buildLexicalIndex, FIELD_WEIGHTS, rankLexical } from "./lexical";
+
+const row = (id: string, fields: Partial<PortfolioRow> = {}): PortfolioRow => ({
+  id,
+  project: "filler",
+  type: "detail",
+  title: "filler",
+  content: "filler",
+  tags: "filler",
+  role: null,
+  pillar: "filler",
+  medium: null,
+  aspect: null,
+  audience: null,
+  tools_methods: null,
+  one_liner: "filler",
+  is_highlight: null,
+  depth: null,
+  ...fields,
+});
+
+const rank = (rows: PortfolioRow[], query: string) =>
+  rankLexical(buildLexicalIndex(rows), query).map(({ row, score }) => ({ id: row.id, score }));
+
+describe("rankLexical", () => {
+  it("returns only rows sharing a term, best first", () => {
+    const ranked = rank(
+      [
+        row("none", { content: "interviews with nurses" }),
+        row("once", { content: "mycelium packaging and other things entirely" }),
+        row("title", { title: "mycelium", content: "mycelium packaging" }),
+      ],
+      "mycelium"
+    );
+    expect(ranked.map((r) => r.id)).toEqual(["title", "once"]);
+  });
+
+  it("returns nothing for a query of stopwords", () => {
+    expect(rank([row("a", { content: "what is this" })], "what is this?")).toEqual([]);
+  });
+
+  it("weights a hit by the field it's in", () => {
+    // Every field holds one word, so length normalization is the same for all
+    const rows = [
+      row("project", { project: "mycelium" }),
+      row("title", { title: "mycelium" }),
+      row("tags", { tags: "mycelium" }),
+      row("one_liner", { one_liner: "mycelium" }),
+      row("meta", { pillar: "mycelium" }),
+      row("content", { content: "mycelium" }),
+    ];
+    const ranked = rank(rows, "mycelium");
+
+    expect(ranked.map((r) => r.id)).toEqual([
+      "project",
+      "title",
+      "tags",
+      "one_liner",
+      "meta",
+      "content",
+    ]);
+    expect(FIELD_WEIGHTS.meta).toBe(FIELD_WEIGHTS.content);
+    expect(ranked[4].score).toBeCloseTo(ranked[5].score);
+  });
+
+  it("counts rare terms more than common ones", () => {
+    const ranked = rank(
+      [
+        row("common-1", { content: "research" }),
+        row("common-2", { content: "research" }),
+        row("common-3", { content: "research" }),
+        row("rare", { content: "mycelium" }),
+      ],
+      "mycelium research"
+    );
+    expect(ranked[0].id).toBe("rare");
+    expect(ranked[0].score).toBeGreaterThan(ranked[1].score);
+  });
+
+  it("prefers a mention in a short field over the same mention in a long one", () => {
+    const ranked = rank(
+      [
+        row("long", { content: "mycelium grown into panels for shipping fragile glassware safely" }),
+        row("short", { content: "mycelium panels" }),
+      ],
+      "mycelium"
+    );
+    expect(ranked.map((r) => r.id)).toEqual(["short", "long"]);
+  });
+
+  it("saturates repeated terms instead of counting each one", () => {
+    const [repeated, single] = rank(
+      [
+        row("repeated", { content: "mycelium mycelium mycelium mycelium" }),
+        row("single", { content: "mycelium fungus bricks panels" }),
+      ],
+      "mycelium"
+    );
+    expect(repeated.id).toBe("repeated");
+    expect(repeated.score / single.score).toBeLessThan(2);
+  });
+
+  it("matches translated fields too", () => {
+    const ranked = rank(
+      [row("es", { title: "Packaging", title_es: "Embalaje de micelio" }), row("other")],
+      "micelio"
+    );
+    expect(ranked.map((r) => r.id)).toEqual(["es"]);
+  });
+});
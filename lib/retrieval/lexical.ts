@@ -0,0 +1,139 @@
+import { translationsOf } from "../knowledge/localize";
+import type { PortfolioRow } from "../knowledge/types";
+import { tokenize } from "./text";
+
+// --- BM25F-style ranking over the fields of each PortfolioRow ---
+
+type FieldName =
+  | "project"
+  | "title"
+  | "tags"
+  | "one_liner"
+  | "meta"
+  | "content";
+
+// How much a term hit in each field counts relative to a hit in `content`
+export const FIELD_WEIGHTS: Record<FieldName, number> = {
+  project: 3,
+  title: 2.5,
+  tags: 2,
+  one_liner: 1.5,
+  meta: 1,
+  content: 1,
+};
+
+const FIELD_NAMES = Object.keys(FIELD_WEIGHTS) as FieldName[];
+
+// Standard BM25 constants: term-frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+function fieldText(row: PortfolioRow, field: FieldName): string | null {
+  if (field === "meta") {
+    return [row.pillar, row.medium, row.audience, row.tools_methods]
+      .filter(Boolean)
+      .join(" ");
+  }
+  // Translations are indexed with the original, so questions in any
+  // supported language can match
+  if (field === "title" || field === "one_liner" || field === "content") {
+    return [row[field], ...translationsOf(row, field)].filter(Boolean).join(" ");
+  }
+  return row[field];
+}
+
+type IndexedDoc = {
+  row: PortfolioRow;
+  termFreqs: Record<FieldName, Map<string, number>>;
+  lengths: Record<FieldName, number>;
+};
+
+export type LexicalIndex = {
+  docs: IndexedDoc[];
+  docFreq: Map<string, number>;
+  avgLengths: Record<FieldName, number>;
+};
+
+export type ScoredRow = {
+  row: PortfolioRow;
+  score: number;
+};
+
+function countTerms(tokens: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export function buildLexicalIndex(rows: PortfolioRow[]): LexicalIndex {
+  const docFreq = new Map<string, number>();
+  const totals = Object.fromEntries(FIELD_NAMES.map((f) => [f, 0])) as Record<
+    FieldName,
+    number
+  >;
+
+  const docs = rows.map((row) => {
+    const termFreqs = {} as IndexedDoc["termFreqs"];
+    const lengths = {} as IndexedDoc["lengths"];
+    const seen = new Set<string>();
+
+    for (const field of FIELD_NAMES) {
+      const tokens = tokenize(fieldText(row, field));
+      termFreqs[field] = countTerms(tokens);
+      lengths[field] = tokens.length;
+      totals[field] += tokens.length;
+      tokens.forEach((t) => seen.add(t));
+    }
+
+    seen.forEach((term) => docFreq.set(term, (docFreq.get(term) ?? 0) + 1));
+
+    return { row, termFreqs, lengths };
+  });
+
+  const avgLengths = Object.fromEntries(
+    FIELD_NAMES.map((f) => [f, docs.length ? totals[f] / docs.length : 0])
+  ) as Record<FieldName, number>;
+
+  return { docs, docFreq, avgLengths };
+}
+
+function idf(index: LexicalIndex, term: string): number {
+  const n = index.docs.length;
+  const df = index.docFreq.get(term) ?? 0;
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+}
+
+// Score every row against the query. Only rows sharing at least one term are
+// returned, best first.
+export function rankLexical(index: LexicalIndex, query: string): ScoredRow[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (!terms.length) return [];
+
+  const scored: ScoredRow[] = [];
+
+  for (const doc of index.docs) {
+    let score = 0;
+
+    for (const term of terms) {
+      // Length-normalized, field-weighted term frequency (BM25F)
+      let weightedTf = 0;
+      for (const field of FIELD_NAMES) {
+        const tf = doc.termFreqs[field].get(term);
+        if (!tf) continue;
+        const avg = index.avgLengths[field] || 1;
+        const norm = 1 - B + B * (doc.lengths[field] / avg);
+        weightedTf += (FIELD_WEIGHTS[field] * tf) / norm;
+      }
+
+      if (weightedTf > 0) {
+        score += (idf(index, term) * weightedTf) / (K1 + weightedTf);
+      }
+    }
+
+    if (score > 0) scored.push({ row: doc.row, score });
+  }
+
+  return scored.sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import type { PortfolioRow } from "../knowledge/types";
+import { scopeKnowledgeToMessage } from "./scope";
+import type { SemanticScores } from "./semantic";
+
+const row = (id: number, content: string, fields: Partial<PortfolioRow> = {}): PortfolioRow => ({
+  id,
+  project: "satori_2_0",
+  type: "detail",
+  title: null,
+  content,
+  tags: null,
+  role: null,
+  pillar: null,
+  medium: null,
+  aspect: null,
+  audience: null,
+  tools_methods: null,
+  one_liner: null,
+  is_highlight: null,
+  depth: null,
+  ...fields,
+});
+
+const keyword = row(1, "Participants joined weekly mycelium workshops.");
+const keywordToo = row(2, "The mycelium panels shipped in spring.");
+const meaningOnly = row(3, "Growing packaging from fungus instead of plastic.");
+const unrelated = row(4, "The budget was reviewed quarterly.");
+// Enough other rows that "mycelium" is a rare, meaningful term
+const others = [
+  "Interviews with nurses shaped the roadmap.",
+  "The design system grew to forty components.",
+  "A voice assistant for the kitchen.",
+  "Mixed reality training for technicians.",
+  "Wellbeing check-ins for remote teams.",
+  "Civic data for grassroots organizers.",
+].map((content, i) => row(10 + i, content));
+const rows = [keyword, keywordToo, meaningOnly, unrelated, ...others];
+
+const ids = (scoped: PortfolioRow[]) => scoped.map((r) => r.id);
+const similarities = (entries: [PortfolioRow, number][]): SemanticScores => new Map(entries);
+
+describe("scopeKnowledgeToMessage with semantic scores", () => {
+  it("uses keywords alone when there are no semantic scores", () => {
+    const { rows: scoped, matched } = scopeKnowledgeToMessage("mycelium", rows);
+    expect(matched).toBe(true);
+    expect(ids(scoped).sort()).toEqual([1, 2]);
+  });
+
+  it("lets a strong semantic match in without any shared keyword", () => {
+    const { rows: scoped } = scopeKnowledgeToMessage("mycelium", rows, {
+      semanticScores: similarities([
+        [keyword, 0.4],
+        [keywordToo, 0.4],
+        [meaningOnly, 0.8],
+        [unrelated, 0.05],
+      ]),
+    });
+    expect(ids(scoped)).toContain(3);
+    expect(ids(scoped)).not.toContain(4);
+  });
+
+  it("keeps rows below minSimilarity out unless they match a keyword", () => {
+    const { rows: scoped } = scopeKnowledgeToMessage("mycelium", rows, {
+      semanticScores: similarities([[meaningOnly, 0.15]]),
+      minSimilarity: 0.2,
+    });
+    expect(ids(scoped).sort()).toEqual([1, 2]);
+  });
+
+  it("blends the two scores by semanticWeight", () => {
+    // Both rows match the keyword; the embeddings prefer the one BM25 ranks second
+    const lexicalOrder = ids(scopeKnowledgeToMessage("mycelium", rows).rows);
+    const [lexicalFirst, lexicalSecond] = [keyword, keywordToo].sort(
+      (a, b) => lexicalOrder.indexOf(a.id) - lexicalOrder.indexOf(b.id)
+    );
+    const options = {
+      semanticScores: similarities([
+        [lexicalFirst, 0.1],
+        [lexicalSecond, 0.9],
+      ]),
+      priorityWeight: 0,
+    };
+
+    expect(ids(scopeKnowledgeToMessage("mycelium", rows, { ...options, semanticWeight: 0 }).rows)).toEqual(
+      lexicalOrder
+    );
+    expect(scopeKnowledgeToMessage("mycelium", rows, { ...options, semanticWeight: 0.8 }).rows[0]).toBe(
+      lexicalSecond
+    );
+  });
+
+  it("ignores negative similarity instead of pushing a keyword match down", () => {
+    const { rows: scoped } = scopeKnowledgeToMessage("mycelium", rows, {
+      semanticScores: similarities([
+        [keyword, -0.9],
+        [meaningOnly, 0.3],
+      ]),
+      priorityWeight: 0,
+    });
+    expect(ids(scoped)).toContain(1);
+  });
+
+  it("falls back to the overview when neither keywords nor meaning match", () => {
+    const result = scopeKnowledgeToMessage("hello there", rows, {
+      semanticScores: similarities(rows.map((r): [PortfolioRow, number] => [r, 0.05])),
+    });
+    expect(result.matched).toBe(false);
+    expect(result.rows).toHaveLength(rows.length);
+  });
+});
@@ -0,0 +1,151 @@
+import type { PortfolioRow } from "../knowledge/types";
+import { buildLexicalIndex, rankLexical, type LexicalIndex } from "./lexical";
+import type { SemanticScores } from "./semantic";
+
+// Types to prioritize for core explanation
+const PREFERRED_TYPES = new Set(["project_summary", "summary", "outcome", "method"]);
+
+// Depth priority: overview > supporting > deep_dive
+function depthScore(depth: string | null | undefined): number {
+  const d = depth?.toLowerCase() ?? "";
+  if (d === "overview") return 2;
+  if (d === "supporting_detail") return 1;
+  return 0;
+}
+
+// Type + depth priority, 0–4
+function priorityScore(row: PortfolioRow): number {
+  const typePref = PREFERRED_TYPES.has(row.type.toLowerCase()) ? 1 : 0;
+  return typePref * 2 + depthScore(row.depth);
+}
+
+const MAX_PRIORITY = 4;
+
+export type ScopeOptions = {
+  /** Rows handed to the prompt. */
+  maxRows?: number;
+  /** Rows scoring below this (raw BM25) are dropped. */
+  minScore?: number;
+  /** Rows scoring below this fraction of the best match are dropped. */
+  relativeThreshold?: number;
+  /** How much type/depth priority can reorder rows of similar relevance (0–1). */
+  priorityWeight?: number;
+  /** Embedding similarity per row; when present, blended with the lexical score. */
+  semanticScores?: SemanticScores;
+  /** Share of relevance that comes from embeddings (0–1). */
+  semanticWeight?: number;
+  /** Rows below this cosine similarity don't count as semantic matches. */
+  minSimilarity?: number;
+  /** Project the visitor is looking at; its rows rank first. */
+  focusProject?: string;
+  /** Added to the focus project's rows (relevance is 0–1). */
+  focusBoost?: number;
+};
+
+const DEFAULT_SCOPE_OPTIONS: Required<
+  Omit<ScopeOptions, "semanticScores" | "focusProject">
+> = {
+  maxRows: 12,
+  minScore: 0.5,
+  relativeThreshold: 0.25,
+  priorityWeight: 0.3,
+  semanticWeight: 0.5,
+  minSimilarity: 0.2,
+  focusBoost: 0.5,
+};
+
+export type ScopeResult = {
+  rows: PortfolioRow[];
+  /** False when nothing was relevant and `rows` is the generic overview. */
+  matched: boolean;
+};
+
+// One index per knowledge snapshot; rebuilt only when the rows array changes
+const indexCache = new WeakMap<PortfolioRow[], LexicalIndex>();
+
+function getLexicalIndex(rows: PortfolioRow[]): LexicalIndex {
+  let index = indexCache.get(rows);
+  if (!index) {
+    index = buildLexicalIndex(rows);
+    indexCache.set(rows, index);
+  }
+  return index;
+}
+
+// --- Scope knowledge to the question: BM25 relevance first, then type/depth ---
+export function scopeKnowledgeToMessage(
+  message: string,
+  rows: PortfolioRow[],
+  options: ScopeOptions = {}
+): ScopeResult {
+  if (!rows.length) return { rows: [], matched: false };
+
+  const {
+    maxRows,
+    minScore,
+    relativeThreshold,
+    priorityWeight,
+    semanticScores,
+    semanticWeight,
+    minSimilarity,
+    focusProject,
+    focusBoost,
+  } = {
+    ...DEFAULT_SCOPE_OPTIONS,
+    ...options,
+  };
+
+  const ranked = rankLexical(getLexicalIndex(rows), message);
+  const topScore = ranked[0]?.score ?? 0;
+  const cutoff = Math.max(minScore, topScore * relativeThreshold);
+
+  // Normalized lexical relevance (0–1) for rows that clear the threshold
+  const relevance = new Map<PortfolioRow, number>();
+  for (const { row, score } of ranked) {
+    if (score >= cutoff) relevance.set(row, score / topScore);
+  }
+
+  // Hybrid: blend in cosine similarity, and let strong semantic matches in
+  // even when they share no keywords with the question
+  if (semanticScores?.size) {
+    const lexicalWeight = 1 - semanticWeight;
+    for (const row of rows) {
+      const similarity = semanticScores.get(row) ?? 0;
+      const lexical = relevance.get(row);
+      if (lexical === undefined && similarity < minSimilarity) continue;
+      relevance.set(
+        row,
+        lexicalWeight * (lexical ?? 0) + semanticWeight * Math.max(similarity, 0)
+      );
+    }
+  }
+
+  const isFocus = (row: PortfolioRow) => Number(row.project === focusProject);
+
+  // Nothing on-topic (greetings, "what can I ask?"): give the model an overview,
+  // starting with the project the visitor is looking at
+  if (!relevance.size) {
+    const overview = [...rows]
+      .sort(
+        (a, b) =>
+          isFocus(b) - isFocus(a) ||
+          priorityScore(b) - priorityScore(a) ||
+          Number(b.is_highlight ?? false) - Number(a.is_highlight ?? false)
+      )
+      .slice(0, maxRows);
+    return { rows: overview, matched: false };
+  }
+
+  const scoped = Array.from(relevance, ([row, score]) => ({
+    row,
+    combined:
+      score +
+      priorityWeight * (priorityScore(row) / MAX_PRIORITY) +
+      focusBoost * isFocus(row),
+  }))
+    .sort((a, b) => b.combined - a.combined)
+    .slice(0, maxRows)
+    .map(({ row }) => row);
+
+  return { rows: scoped, matched: true };
+}
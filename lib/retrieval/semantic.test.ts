@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PortfolioRow } from "../knowledge/types";
+import { createHashingEmbeddingProvider, type EmbeddingProvider } from "./embeddings";
+import { createMemorySemanticRetriever } from "./semantic";
+
+const row = (id: number, content: string): PortfolioRow =>
+  ({ id, project: "satori_2_0", type: "detail", title: null, tags: null, one_liner: null, content }) as PortfolioRow;
+
+const rows = [
+  row(1, "We ran usability testing and user interviews with 12 participants."),
+  row(2, "Consent, privacy and fairness shaped every model decision."),
+  row(3, "Retention grew 20% after launch."),
+];
+
+// The hashing provider, counting how many texts it was asked to embed
+function countingProvider() {
+  const inner = createHashingEmbeddingProvider();
+  const embedded: string[][] = [];
+  const provider: EmbeddingProvider = {
+    name: inner.name,
+    embed: vi.fn(async (texts: string[]) => {
+      embedded.push(texts);
+      return inner.embed(texts);
+    }),
+  };
+  return { provider, embedded };
+}
+
+describe("createMemorySemanticRetriever", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("scores every row, closest meaning first", async () => {
+    const retriever = createMemorySemanticRetriever(createHashingEmbeddingProvider());
+    const scores = await retriever.score("Was it built responsibly and ethically?", rows);
+
+    expect(scores.size).toBe(rows.length);
+    const best = [...scores].sort((a, b) => b[1] - a[1])[0][0];
+    expect(best).toBe(rows[1]);
+  });
+
+  it("embeds a snapshot's rows once and only the question after that", async () => {
+    const { provider, embedded } = countingProvider();
+    const retriever = createMemorySemanticRetriever(provider);
+
+    await retriever.score("research", rows);
+    await retriever.score("impact", rows);
+
+    expect(embedded.map((texts) => texts.length).sort()).toEqual([1, 1, 3]);
+  });
+
+  it("embeds again when the knowledge is reloaded", async () => {
+    const { provider, embedded } = countingProvider();
+    const retriever = createMemorySemanticRetriever(provider);
+
+    await retriever.score("research", rows);
+    await retriever.score("research", [...rows]);
+
+    expect(embedded.filter((texts) => texts.length === 3)).toHaveLength(2);
+  });
+
+  it("doesn't cache a failed embedding", async () => {
+    const inner = createHashingEmbeddingProvider();
+    const embed = vi
+      .fn<EmbeddingProvider["embed"]>()
+      .mockRejectedValueOnce(new Error("embedding service down"))
+      .mockImplementation((texts) => inner.embed(texts));
+    const retriever = createMemorySemanticRetriever({ name: "flaky", embed });
+
+    await expect(retriever.score("research", rows)).rejects.toThrow("embedding service down");
+    await expect(retriever.score("research", rows)).resolves.toHaveProperty("size", 3);
+  });
+});
@@ -0,0 +1,101 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { PortfolioRow } from "../knowledge/types";
+import {
+  cosineSimilarity,
+  rowEmbeddingText,
+  type EmbeddingProvider,
+} from "./embeddings";
+
+// Similarity (roughly -1…1) for each row the retriever considers related
+export type SemanticScores = Map<PortfolioRow, number>;
+
+export interface SemanticRetriever {
+  readonly name: string;
+  score(query: string, rows: PortfolioRow[]): Promise<SemanticScores>;
+}
+
+// --- In-memory vectors, computed once per knowledge snapshot ---
+export function createMemorySemanticRetriever(
+  provider: EmbeddingProvider
+): SemanticRetriever {
+  // Keyed by the cached rows array, so vectors live exactly as long as the
+  // knowledge they describe and are recomputed when it is reloaded
+  const vectorCache = new WeakMap<PortfolioRow[], Promise<number[][]>>();
+
+  const vectorsFor = (rows: PortfolioRow[]): Promise<number[][]> => {
+    let vectors = vectorCache.get(rows);
+    if (!vectors) {
+      const started = Date.now();
+      vectors = provider.embed(rows.map(rowEmbeddingText)).then((result) => {
+        console.log(
+          `[retrieval] Embedded ${rows.length} rows with ${provider.name} (ms):`,
+          Date.now() - started
+        );
+        return result;
+      });
+      vectorCache.set(rows, vectors);
+      // Don't cache failures; the next request gets a fresh attempt
+      vectors.catch(() => vectorCache.delete(rows));
+    }
+    return vectors;
+  };
+
+  return {
+    name: `memory:${provider.name}`,
+    async score(query, rows) {
+      const [rowVectors, [queryVector]] = await Promise.all([
+        vectorsFor(rows),
+        provider.embed([query]),
+      ]);
+
+      const scores: SemanticScores = new Map();
+      rows.forEach((row, i) => {
+        scores.set(row, cosineSimilarity(queryVector, rowVectors[i]));
+      });
+      return scores;
+    },
+  };
+}
+
+// --- Supabase pgvector: similarity search runs in Postgres ---
+// Expects an RPC like the one in the README (`match_portfolio_knowledge`)
+// returning `{ id, similarity }` rows, with vectors made by the same provider.
+type PgvectorOptions = {
+  supabase: SupabaseClient;
+  provider: EmbeddingProvider;
+  functionName: string;
+  matchCount?: number;
+};
+
+export function createPgvectorSemanticRetriever({
+  supabase,
+  provider,
+  functionName,
+  matchCount = 24,
+}: PgvectorOptions): SemanticRetriever {
+  return {
+    name: `pgvector:${functionName}`,
+    async score(query, rows) {
+      const [queryVector] = await provider.embed([query]);
+
+      const { data, error } = await supabase.rpc(functionName, {
+        query_embedding: queryVector,
+        match_count: matchCount,
+      });
+
+      if (error) {
+        throw new Error(`pgvector search failed: ${error.message}`);
+      }
+
+      const byId = new Map(rows.map((row) => [String(row.id), row]));
+      const scores: SemanticScores = new Map();
+
+      for (const match of (data ?? []) as { id: unknown; similarity: number }[]) {
+        const row = byId.get(String(match.id));
+        if (row) scores.set(row, match.similarity);
+      }
+
+      return scores;
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { fold, mentions, tokenize } from "./text";
+
+describe("fold", () => {
+  it("lowercases, strips accents and straightens apostrophes", () => {
+    expect(fold("Quién es Ana’s Mentor?")).toBe("quien es ana's mentor?");
+  });
+
+  it("turns underscores and runs of whitespace into single spaces", () => {
+    expect(fold("satori_2_0\n\tapp")).toBe("satori 2 0 app");
+  });
+});
+
+describe("mentions", () => {
+  it("matches whole words only", () => {
+    expect(mentions(fold("Tell me about Echo."), "Echo")).toBe(true);
+    expect(mentions(fold("The sound echoes."), "Echo")).toBe(false);
+  });
+
+  it("matches project IDs written with spaces and titles with accents", () => {
+    expect(mentions(fold("what was satori 2 0 about"), "satori_2_0")).toBe(true);
+    expect(mentions(fold("Háblame de Café Común"), "Cafe Comun")).toBe(true);
+  });
+
+  it("treats regex characters in names literally", () => {
+    expect(mentions(fold("I liked c++ (beta)"), "C++ (beta)")).toBe(true);
+    expect(mentions(fold("I liked cxx"), "c.x")).toBe(false);
+  });
+});
+
+describe("tokenize", () => {
+  it("drops stopwords and stems", () => {
+    expect(tokenize("What are her designs for the interviews?")).toEqual(["design", "interview"]);
+  });
+});
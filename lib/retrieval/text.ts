@@ -0,0 +1,101 @@
+// --- Tokenization shared by lexical (and later semantic) retrieval ---
+
+// Common English and Spanish words plus chat filler that carries no topical
+// signal (Spanish without accents: tokens are compared after stripping them)
+const STOPWORDS = new Set(
+  `a about above after again all also am an and any are as at be because been
+  before being below between both but by can could did do does doing down during
+  each few for from further had has have having he her here hers herself him
+  himself his how i if in into is it its itself just me more most my myself no
+  nor not now of off on once only or other our ours ourselves out over own same
+  she should so some such than that the their theirs them themselves then there
+  these they this those through to too under until up very was we were what when
+  where which while who whom why will with would you your yours yourself
+  yourselves tell show give explain describe know like want please thanks thank
+  hi hello hey hola ok okay really much many something anything thing things
+  get got make made let lets us one take
+
+  el la los las un una unos unas lo le les al del de en y o es son fue era que
+  como quien quienes cual cuales donde cuando por para con sin sobre su sus ella
+  mi mis tu tus se nos este esta estos estas eso esa ese hay muy mas pero tambien
+  puedes puede cuentame dime muestrame hablame gracias algo algun alguna`
+    .split(/\s+/)
+    .filter(Boolean)
+);
+
+// Suffixes stripped by `stem`, longest first. Deliberately light: we only need
+// "designs"/"designing"/"designed" to meet, not linguistic accuracy.
+const SUFFIXES: [suffix: string, replacement: string][] = [
+  ["ational", "ate"],
+  ["ization", "ize"],
+  ["fulness", "ful"],
+  ["iveness", "ive"],
+  ["ements", ""],
+  ["ement", ""],
+  ["ments", ""],
+  ["ment", ""],
+  ["ities", "ity"],
+  ["ings", ""],
+  ["ing", ""],
+  ["ies", "y"],
+  ["ied", "y"],
+  ["ers", ""],
+  ["er", ""],
+  ["ed", ""],
+  ["ly", ""],
+  ["es", ""],
+  ["s", ""],
+];
+
+const MIN_STEM_LENGTH = 3;
+
+export function stem(word: string): string {
+  if (word.length <= MIN_STEM_LENGTH + 1) return word;
+  // "ss" endings (process, access) are not plurals
+  if (word.endsWith("ss")) return word;
+
+  for (const [suffix, replacement] of SUFFIXES) {
+    if (!word.endsWith(suffix)) continue;
+    const base = word.slice(0, -suffix.length) + replacement;
+    if (base.length >= MIN_STEM_LENGTH) return base;
+  }
+
+  return word;
+}
+
+export function isStopword(word: string): boolean {
+  return STOPWORDS.has(word);
+}
+
+// Lowercase, split on anything that isn't a letter or digit (so snake_case
+// project IDs split too), drop stopwords and one-character tokens, then stem.
+export function tokenize(text: string | null | undefined): string[] {
+  if (!text) return [];
+
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+// --- Names in free text (projects, titles) ---
+
+// Lowercase, no accents, straight apostrophes, underscores as spaces
+export function fold(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[’‘]/g, "'")
+    .replace(/[_\s]+/g, " ")
+    .toLowerCase();
+}
+
+// Whole words only, so a project called "Echo" doesn't match "echoes".
+// `text` must already be folded.
+export function mentions(text: string, name: string): boolean {
+  const escaped = fold(name).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?:^|[^a-z0-9])${escaped}(?:$|[^a-z0-9])`).test(text);
+}
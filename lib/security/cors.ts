@@ -0,0 +1,74 @@
+// --- Environment variables ---
+// ALLOWED_ORIGINS: comma-separated origins allowed to call the chat from a
+// browser. Supports wildcards (https://*.example.com) and the presets below.
+// Unset means any origin (the original starter behaviour).
+const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS;
+
+// Shorthands for common portfolio builders
+const ORIGIN_PRESETS: Record<string, string[]> = {
+  framer: ["https://*.framer.website", "https://*.framer.app", "https://framer.com"],
+  webflow: ["https://*.webflow.io"],
+  wix: ["https://*.wixsite.com"],
+  squarespace: ["https://*.squarespace.com"],
+  localhost: ["http://localhost:*", "http://127.0.0.1:*"],
+};
+
+function toPattern(origin: string): RegExp {
+  const escaped = origin
+    .replace(/\/+$/, "")
+    .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, "[^/]*");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+const allowedOrigins: string[] | null = ALLOWED_ORIGINS?.trim()
+  ? ALLOWED_ORIGINS.split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .flatMap((entry) => ORIGIN_PRESETS[entry.toLowerCase()] ?? [entry])
+  : null;
+
+const patterns: RegExp[] | null = allowedOrigins?.map(toPattern) ?? null;
+
+if (!patterns) {
+  console.warn(
+    "[cors] ALLOWED_ORIGINS is not set; any site can call the chat endpoint."
+  );
+}
+
+// Requests without an Origin header (curl, server-to-server, same-origin GET)
+// aren't browser cross-origin calls, so CORS has nothing to decide there.
+export function isOriginAllowed(origin: string | null): boolean {
+  if (!origin || !patterns) return true;
+  return patterns.some((pattern) => pattern.test(origin));
+}
+
+// The embeddable widget calls the API from an iframe served by this app, so
+// its requests come from our own origin rather than the host site's.
+export function isSameOrigin(req: Request): boolean {
+  const origin = req.headers.get("origin");
+  const host = req.headers.get("x-forwarded-host") ?? req.headers.get("host");
+  if (!origin || !host) return false;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+// CSP frame-ancestors value for the /embed page: the same sites that may call
+// the chat may also frame it
+export function frameAncestors(): string {
+  if (!allowedOrigins) return "*";
+  return ["'self'", ...allowedOrigins.map((origin) => origin.replace(/\/+$/, ""))].join(" ");
+}
+
+export function corsHeaders(origin: string | null): Record<string, string> {
+  if (!patterns) {
+    return { "Access-Control-Allow-Origin": "*" };
+  }
+  if (origin && isOriginAllowed(origin)) {
+    return { "Access-Control-Allow-Origin": origin, Vary: "Origin" };
+  }
+  return { Vary: "Origin" };
+}
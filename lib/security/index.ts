@@ -0,0 +1,56 @@
+import { readNumberEnv } from "../env";
+import {
+  createMemoryRateLimitStore,
+  createRateLimiter,
+  resolveClientIp,
+  type RateLimitStore,
+} from "./rate-limit";
+
+export { corsHeaders, isOriginAllowed, isSameOrigin } from "./cors";
+export type { RateLimitResult, RateLimitStore } from "./rate-limit";
+
+// --- Request-size limits for POST /api/chat ---
+export const CHAT_LIMITS = {
+  maxBodyBytes: readNumberEnv("CHAT_MAX_BODY_BYTES", 64 * 1024),
+  maxMessageChars: readNumberEnv("CHAT_MAX_MESSAGE_CHARS", 2000),
+  maxHistoryMessages: readNumberEnv("CHAT_MAX_HISTORY_MESSAGES", 50),
+  maxHistoryChars: readNumberEnv("CHAT_MAX_HISTORY_CHARS", 30_000),
+};
+
+// --- Environment variables ---
+// TRUSTED_PROXY_HOPS: proxies in front of the app that append to
+// X-Forwarded-For (1 on Vercel or behind one nginx; 0 when exposed directly)
+const TRUSTED_PROXY_HOPS = Math.max(0, Math.floor(readNumberEnv("TRUSTED_PROXY_HOPS", 1)));
+
+// Per-IP buckets key on this; see resolveClientIp in ./rate-limit
+export function clientIp(headers: Headers): string {
+  return resolveClientIp(headers, TRUSTED_PROXY_HOPS);
+}
+
+// In-memory buckets are per server instance. Swap in a shared store (Redis,
+// Upstash, Postgres…) when the app runs on more than one instance.
+const store: RateLimitStore = createMemoryRateLimitStore();
+
+// --- Token buckets: one per client IP, one per chat session ---
+export const chatRateLimiters = {
+  ip: createRateLimiter(store, {
+    capacity: readNumberEnv("RATE_LIMIT_IP_BURST", 20),
+    refillPerMinute: readNumberEnv("RATE_LIMIT_IP_PER_MINUTE", 10),
+  }),
+  session: createRateLimiter(store, {
+    capacity: readNumberEnv("RATE_LIMIT_SESSION_BURST", 10),
+    refillPerMinute: readNumberEnv("RATE_LIMIT_SESSION_PER_MINUTE", 6),
+  }),
+};
+
+// --- POST /api/contact: a few submissions per visitor, then a long wait ---
+export const contactRateLimiter = createRateLimiter(store, {
+  capacity: readNumberEnv("RATE_LIMIT_CONTACT_BURST", 3),
+  refillPerMinute: readNumberEnv("RATE_LIMIT_CONTACT_PER_MINUTE", 0.2),
+});
+
+// --- Admin sign-in: slows down guessing ADMIN_SECRET ---
+export const adminLoginRateLimiter = createRateLimiter(store, {
+  capacity: readNumberEnv("RATE_LIMIT_ADMIN_LOGIN_BURST", 5),
+  refillPerMinute: readNumberEnv("RATE_LIMIT_ADMIN_LOGIN_PER_MINUTE", 1),
+});
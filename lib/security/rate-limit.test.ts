@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryRateLimitStore, createRateLimiter, resolveClientIp } from "./rate-limit";
+
+const headers = (init: Record<string, string>) => new Headers(init);
+
+describe("resolveClientIp", () => {
+  it("takes the entry the trusted proxy appended, not the caller's", () => {
+    const forged = headers({ "x-forwarded-for": "1.1.1.1, 203.0.113.7" });
+    expect(resolveClientIp(forged, 1)).toBe("203.0.113.7");
+  });
+
+  it("counts back one entry per trusted proxy", () => {
+    const chain = headers({ "x-forwarded-for": "6.6.6.6, 203.0.113.7, 10.0.0.2" });
+    expect(resolveClientIp(chain, 2)).toBe("203.0.113.7");
+    // More hops configured than entries present: the first one is all we have
+    expect(resolveClientIp(chain, 5)).toBe("6.6.6.6");
+  });
+
+  it("falls back to X-Real-IP without X-Forwarded-For", () => {
+    expect(resolveClientIp(headers({ "x-real-ip": "203.0.113.7" }), 1)).toBe("203.0.113.7");
+    expect(resolveClientIp(headers({}), 1)).toBe("unknown");
+  });
+
+  it("ignores forwarded headers when no proxy is trusted", () => {
+    const forged = headers({ "x-forwarded-for": "1.1.1.1", "x-real-ip": "2.2.2.2" });
+    expect(resolveClientIp(forged, 0)).toBe("unknown");
+  });
+});
+
+describe("createRateLimiter", () => {
+  it("allows the burst, then refuses until tokens refill", async () => {
+    const limiter = createRateLimiter(createMemoryRateLimitStore(), {
+      capacity: 2,
+      refillPerMinute: 1,
+    });
+
+    expect((await limiter.consume("ip:a")).allowed).toBe(true);
+    expect((await limiter.consume("ip:a")).allowed).toBe(true);
+    const refused = await limiter.consume("ip:a");
+    expect(refused.allowed).toBe(false);
+    expect(refused.retryAfterMs).toBeGreaterThan(59_000);
+    expect((await limiter.consume("ip:b")).allowed).toBe(true);
+  });
+
+  it("keeps one bucket for a caller who forges the leading X-Forwarded-For entry", async () => {
+    const limiter = createRateLimiter(createMemoryRateLimitStore(), {
+      capacity: 1,
+      refillPerMinute: 1,
+    });
+    const attempt = (forged: string) =>
+      limiter.consume(
+        `ip:${resolveClientIp(headers({ "x-forwarded-for": `${forged}, 203.0.113.7` }), 1)}`
+      );
+
+    expect((await attempt("1.1.1.1")).allowed).toBe(true);
+    expect((await attempt("2.2.2.2")).allowed).toBe(false);
+    expect((await attempt("3.3.3.3")).allowed).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+// --- Token-bucket rate limiting with a pluggable store ---
+
+export type BucketState = {
+  tokens: number;
+  updatedAt: number;
+};
+
+// Where bucket state lives. The in-memory store works for a single server;
+// implement this over Redis/Upstash/Postgres to share limits across instances.
+export interface RateLimitStore {
+  get(key: string): Promise<BucketState | null>;
+  set(key: string, state: BucketState, ttlMs: number): Promise<void>;
+}
+
+export type RateLimitPolicy = {
+  /** Burst size: requests allowed back to back. */
+  capacity: number;
+  /** Tokens added back per minute. */
+  refillPerMinute: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  /** When not allowed, how long until one request fits again. */
+  retryAfterMs: number;
+};
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, BucketState & { expiresAt: number }>();
+  let lastSweep = Date.now();
+
+  // Drop idle buckets now and then so the map can't grow without bound
+  const sweep = (now: number) => {
+    if (now - lastSweep < 60_000) return;
+    lastSweep = now;
+    for (const [key, bucket] of buckets) {
+      if (bucket.expiresAt <= now) buckets.delete(key);
+    }
+  };
+
+  return {
+    async get(key) {
+      const now = Date.now();
+      sweep(now);
+      const bucket = buckets.get(key);
+      if (!bucket || bucket.expiresAt <= now) return null;
+      return { tokens: bucket.tokens, updatedAt: bucket.updatedAt };
+    },
+    async set(key, state, ttlMs) {
+      buckets.set(key, { ...state, expiresAt: Date.now() + ttlMs });
+    },
+  };
+}
+
+export type RateLimiter = {
+  consume(key: string): Promise<RateLimitResult>;
+};
+
+export function createRateLimiter(
+  store: RateLimitStore,
+  { capacity, refillPerMinute }: RateLimitPolicy
+): RateLimiter {
+  const refillPerMs = refillPerMinute / 60_000;
+  // A bucket left alone this long is full again, so the store can forget it
+  const idleTtlMs = Math.ceil(capacity / refillPerMs);
+
+  return {
+    async consume(key) {
+      const now = Date.now();
+      const previous = await store.get(key);
+
+      const tokens = previous
+        ? Math.min(capacity, previous.tokens + (now - previous.updatedAt) * refillPerMs)
+        : capacity;
+
+      if (tokens < 1) {
+        await store.set(key, { tokens, updatedAt: now }, idleTtlMs);
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterMs: Math.ceil((1 - tokens) / refillPerMs),
+        };
+      }
+
+      await store.set(key, { tokens: tokens - 1, updatedAt: now }, idleTtlMs);
+      return { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 };
+    },
+  };
+}
+
+// --- The caller's IP, as seen by the outermost proxy we trust ---
+// Each proxy appends the address it received the request from to
+// X-Forwarded-For, so only the last `trustedProxies` entries were written by
+// our own infrastructure; anything before them came from the caller and can
+// be forged. With one proxy (Vercel, or nginx with $proxy_add_x_forwarded_for)
+// that's the last entry. With none, forwarded headers are ignored and every
+// caller shares one "unknown" bucket.
+export function resolveClientIp(headers: Headers, trustedProxies: number): string {
+  if (trustedProxies < 1) return "unknown";
+
+  const forwarded = (headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length) {
+    return forwarded[Math.max(0, forwarded.length - trustedProxies)];
+  }
+  return headers.get("x-real-ip")?.trim() || "unknown";
+}
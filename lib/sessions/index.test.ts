@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { loadSession, resumeSession, saveTurn } from "./index";
+
+const UNKNOWN_IDS = [null, "not a session id", "00000000-0000-4000-8000-000000000000"];
+
+describe("resumeSession", () => {
+  it("starts an empty session for a missing or unknown id when asked to", async () => {
+    for (const id of UNKNOWN_IDS) {
+      const session = await resumeSession(id, { create: true });
+      expect(session?.messages).toEqual([]);
+      expect(session?.id).not.toBe(id);
+    }
+  });
+
+  it("creates nothing for clients that don't ask for a session", async () => {
+    for (const id of UNKNOWN_IDS) {
+      expect(await resumeSession(id, { create: false })).toBeNull();
+    }
+  });
+
+  it("returns the stored conversation for a known id", async () => {
+    const session = (await resumeSession(null, { create: true }))!;
+    saveTurn(session, [
+      { role: "user", content: "Tell me about Satori" },
+      { role: "assistant", content: "Satori 2.0 is a research project." },
+    ]);
+
+    expect(await loadSession(session.id)).not.toBeNull();
+    for (const create of [true, false]) {
+      expect((await resumeSession(session.id, { create }))?.messages.map((m) => m.role)).toEqual([
+        "user",
+        "assistant",
+      ]);
+    }
+  });
+});
@@ -0,0 +1,144 @@
+import { randomUUID } from "node:crypto";
+import { readNumberEnv } from "../env";
+import { summarizeTurns } from "../prompt/summary";
+import { createMemorySessionStore } from "./stores/memory";
+import { createSupabaseSessionStore } from "./stores/supabase";
+import type { ChatSession, SessionMessage, SessionStore } from "./types";
+
+export type { ChatSession, SessionMessage, SessionStore } from "./types";
+
+// --- Environment variables ---
+// SESSION_STORE: "memory" (default) | "supabase" | "off"
+const SESSION_STORE = process.env.SESSION_STORE?.trim().toLowerCase() || "memory";
+// Conversations idle longer than this are forgotten
+const SESSION_TTL_MS = readNumberEnv("SESSION_TTL_MINUTES", 24 * 60) * 60_000;
+// Only the most recent messages of a conversation are kept verbatim; older
+// ones live on in the session's summary
+const SESSION_MAX_MESSAGES = readNumberEnv("SESSION_MAX_MESSAGES", 40);
+const SESSION_MAX_SESSIONS = readNumberEnv("SESSION_MAX_SESSIONS", 5000);
+const SUPABASE_SESSIONS_TABLE =
+  process.env.SUPABASE_SESSIONS_TABLE?.trim() || "chat-sessions";
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+type StoreFactory = () => SessionStore;
+
+// Register new backends here
+const STORES: Record<string, StoreFactory> = {
+  memory: () =>
+    createMemorySessionStore({
+      ttlMs: SESSION_TTL_MS,
+      maxSessions: SESSION_MAX_SESSIONS,
+    }),
+  supabase: () => {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error(
+        "SESSION_STORE=supabase needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY."
+      );
+    }
+    return createSupabaseSessionStore({
+      url: SUPABASE_URL,
+      key: SUPABASE_SERVICE_ROLE_KEY,
+      table: SUPABASE_SESSIONS_TABLE,
+      ttlMs: SESSION_TTL_MS,
+    });
+  },
+};
+
+let activeStore: SessionStore | null | undefined;
+
+// Null when sessions are off or misconfigured; the route then falls back to
+// the history the client sends
+export function getSessionStore(): SessionStore | null {
+  if (activeStore !== undefined) return activeStore;
+
+  if (SESSION_STORE === "off") {
+    activeStore = null;
+    return activeStore;
+  }
+
+  const factory = STORES[SESSION_STORE];
+  try {
+    if (!factory) {
+      throw new Error(
+        `Unknown SESSION_STORE "${SESSION_STORE}". Expected one of: off, ${Object.keys(STORES).join(", ")}.`
+      );
+    }
+    activeStore = factory();
+  } catch (err) {
+    console.error("[sessions] Disabled:", err);
+    activeStore = null;
+  }
+  return activeStore;
+}
+
+// IDs are issued by us (UUIDs); anything else can't be a session
+const SESSION_ID_PATTERN = /^[A-Za-z0-9-]{8,100}$/;
+
+export function isSessionId(value: unknown): value is string {
+  return typeof value === "string" && SESSION_ID_PATTERN.test(value);
+}
+
+// --- Look up the visitor's conversation, or start a new one ---
+// A new session always starts empty: history sent by the client can't be
+// checked, so it never becomes server-side context. Sessions are only
+// created for clients that ask (`create`); the others keep sending their
+// own history and nothing is stored for them. Returns null when sessions
+// are off or no session was found or created.
+export async function resumeSession(
+  id: string | null,
+  { create }: { create: boolean }
+): Promise<ChatSession | null> {
+  const store = getSessionStore();
+  if (!store) return null;
+
+  if (isSessionId(id)) {
+    try {
+      const existing = await store.get(id);
+      if (existing) return existing;
+    } catch (err) {
+      console.error(`[sessions] ${store.name} read failed:`, err);
+    }
+  }
+  if (!create) return null;
+
+  const now = new Date().toISOString();
+  return {
+    id: randomUUID(),
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+// --- Append a finished turn without slowing down or failing the reply ---
+export function saveTurn(session: ChatSession, turn: SessionMessage[]): void {
+  const store = getSessionStore();
+  if (!store) return;
+
+  const messages = [...session.messages, ...turn];
+  const dropped = messages.slice(0, Math.max(0, messages.length - SESSION_MAX_MESSAGES));
+  if (dropped.length) {
+    session.summary = summarizeTurns(session.summary ?? "", dropped);
+  }
+  session.messages = messages.slice(dropped.length);
+  session.updatedAt = new Date().toISOString();
+
+  store
+    .save(session)
+    .catch((err) => console.error(`[sessions] ${store.name} write failed:`, err));
+}
+
+// Stored conversation for the widget to restore; null if unknown or expired
+export async function loadSession(id: string): Promise<ChatSession | null> {
+  const store = getSessionStore();
+  if (!store || !isSessionId(id)) return null;
+  return store.get(id);
+}
+
+// "New chat": forget the conversation
+export async function endSession(id: string): Promise<void> {
+  const store = getSessionStore();
+  if (!store || !isSessionId(id)) return;
+  await store.delete(id);
+}
@@ -0,0 +1,53 @@
+import type { ChatSession, SessionStore } from "../types";
+
+type MemorySessionOptions = {
+  /** Idle time after which a session is forgotten. */
+  ttlMs: number;
+  /** Oldest sessions are dropped beyond this many. */
+  maxSessions: number;
+};
+
+// --- Sessions in a Map: fine for one server, lost on restart ---
+export function createMemorySessionStore({
+  ttlMs,
+  maxSessions,
+}: MemorySessionOptions): SessionStore {
+  // Insertion order doubles as least-recently-updated order
+  const sessions = new Map<string, ChatSession>();
+  let lastSweep = Date.now();
+
+  const isExpired = (session: ChatSession, now: number) =>
+    now - Date.parse(session.updatedAt) > ttlMs;
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < 60_000) return;
+    lastSweep = now;
+    for (const [id, session] of sessions) {
+      if (isExpired(session, now)) sessions.delete(id);
+    }
+  };
+
+  return {
+    name: "memory",
+    async get(id) {
+      const now = Date.now();
+      sweep(now);
+      const session = sessions.get(id);
+      if (!session || isExpired(session, now)) return null;
+      return structuredClone(session);
+    },
+    async save(session) {
+      sessions.delete(session.id);
+      sessions.set(session.id, structuredClone(session));
+
+      while (sessions.size > maxSessions) {
+        const oldest = sessions.keys().next().value;
+        if (oldest === undefined) break;
+        sessions.delete(oldest);
+      }
+    },
+    async delete(id) {
+      sessions.delete(id);
+    },
+  };
+}
@@ -0,0 +1,81 @@
+import { createClient } from "@supabase/supabase-js";
+import type { SessionMessage, SessionStore } from "../types";
+
+type SupabaseSessionOptions = {
+  url: string;
+  /** Service-role key: conversations must not be readable by anon. */
+  key: string;
+  table: string;
+  ttlMs: number;
+};
+
+// Columns: id text primary key, messages jsonb, summary text, created_at / updated_at timestamptz
+type SessionRow = {
+  id: string;
+  messages: SessionMessage[];
+  summary: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Clear out expired rows now and then rather than on every write
+const PURGE_INTERVAL_MS = 10 * 60_000;
+
+// --- Sessions in a Supabase table (shared across serverless instances) ---
+export function createSupabaseSessionStore({
+  url,
+  key,
+  table,
+  ttlMs,
+}: SupabaseSessionOptions): SessionStore {
+  const supabase = createClient(url, key, { auth: { persistSession: false } });
+  let lastPurge = 0;
+
+  const cutoff = () => new Date(Date.now() - ttlMs).toISOString();
+
+  const purgeExpired = async () => {
+    if (Date.now() - lastPurge < PURGE_INTERVAL_MS) return;
+    lastPurge = Date.now();
+    const { error } = await supabase.from(table).delete().lt("updated_at", cutoff());
+    if (error) console.error("[sessions] Purge failed:", error.message);
+  };
+
+  return {
+    name: `supabase:${table}`,
+    async get(id) {
+      const { data, error } = await supabase
+        .from(table)
+        .select("*")
+        .eq("id", id)
+        .gte("updated_at", cutoff())
+        .maybeSingle();
+      if (error) throw new Error(`Supabase error: ${error.message}`);
+      if (!data) return null;
+
+      const row = data as SessionRow;
+      return {
+        id: row.id,
+        messages: row.messages ?? [],
+        summary: row.summary ?? undefined,
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+      };
+    },
+    async save(session) {
+      const row: SessionRow = {
+        id: session.id,
+        messages: session.messages,
+        summary: session.summary ?? null,
+        created_at: session.createdAt,
+        updated_at: session.updatedAt,
+      };
+      const { error } = await supabase.from(table).upsert(row);
+      if (error) throw new Error(`Supabase error: ${error.message}`);
+      await purgeExpired();
+    },
+    async delete(id) {
+      const { error } = await supabase.from(table).delete().eq("id", id);
+      if (error) throw new Error(`Supabase error: ${error.message}`);
+    },
+  };
+}
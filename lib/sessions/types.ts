@@ -0,0 +1,28 @@
+import type { Citation } from "../chat/types";
+
+export type SessionMessage = {
+  role: "user" | "assistant";
+  content: string;
+  /** Assistant messages keep their source chips and quick replies for resume. */
+  citations?: Citation[];
+  suggestions?: string[];
+};
+
+// One visitor conversation, keyed by the ID the chat route issued
+export type ChatSession = {
+  id: string;
+  messages: SessionMessage[];
+  /** Running summary of messages that were dropped to stay under the retention cap. */
+  summary?: string;
+  /** ISO timestamps. */
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Stores forget sessions that have been idle longer than their TTL
+export interface SessionStore {
+  readonly name: string;
+  get(id: string): Promise<ChatSession | null>;
+  save(session: ChatSession): Promise<void>;
+  delete(id: string): Promise<void>;
+}
@@ -1,7 +1,22 @@
 import type { NextConfig } from "next";
+import { frameAncestors } from "./lib/security/cors";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  async headers() {
+    return [
+      {
+        // The embeddable widget's iframe; only sites in ALLOWED_ORIGINS may frame it
+        source: "/embed",
+        headers: [
+          { key: "Content-Security-Policy", value: `frame-ancestors ${frameAncestors()}` },
+        ],
+      },
+      {
+        source: "/portfolio-chat.js",
+        headers: [{ key: "Cache-Control", value: "public, max-age=300" }],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
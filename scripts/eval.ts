@@ -0,0 +1,349 @@
+// --- Offline eval: golden questions through the real chat pipeline ---
+//
+//   npm run eval                         replay recorded answers (default)
+//   npm run eval -- --llm mock           deterministic mock, retrieval only
+//   npm run eval -- --llm live --record  ask the configured LLM_PROVIDER and
+//                                        save its answers as the new recordings
+//
+// Options: [suite.json] --llm replay|mock|live --record --out <file>
+// The report (default eval/report.txt) has no timings or other noise, so
+// `git diff eval/report.txt` shows exactly what a prompt or scoping change did.
+
+import { readFileSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import type { Citation } from "../lib/chat/types";
+import { resolveLanguage, type Language, type LanguagePreference } from "../lib/i18n";
+import type { PortfolioRow } from "../lib/knowledge/types";
+import type { GenerationSettings, LLMProvider } from "../lib/llm/types";
+import type { FocusMode } from "../lib/retrieval/focus";
+
+type RowId = number | string;
+
+type Expectations = {
+  /** Row IDs that must be in the prompt. */
+  rows?: RowId[];
+  notRows?: RowId[];
+  /** Projects that must have at least one row in the prompt. */
+  projects?: string[];
+  /** false = retrieval should fall back to the overview (nothing relevant). */
+  matched?: boolean;
+  /** Language the answer should be in. */
+  language?: Language;
+  /** Project IDs the answer must name (by ID or title). */
+  mentions?: string[];
+  notMentions?: string[];
+  /** Row IDs the answer must be cited with. */
+  cites?: RowId[];
+  /** The answer says the portfolio doesn't cover this. */
+  admitsMissing?: boolean;
+  /** Regexes (case-insensitive) the answer must match. */
+  contains?: string[];
+  /** Regexes the answer must not match; added to the suite defaults. */
+  forbidden?: string[];
+};
+
+type EvalCase = {
+  id: string;
+  question: string;
+  history?: { role: "user" | "assistant"; content: string }[];
+  /** What the widget sends; defaults to "auto" (detect from the question). */
+  language?: LanguagePreference;
+  /** Asked from this project's case study page. */
+  focusProject?: string;
+  focusMode?: FocusMode;
+  expect: Expectations;
+};
+
+type Suite = {
+  /** Paths are relative to the suite file. */
+  knowledge: string;
+  persona: string;
+  recordings: string;
+  defaults?: { forbidden?: string[] };
+  cases: EvalCase[];
+};
+
+type Check = { label: string; ok: boolean; detail?: string };
+
+type CaseResult = {
+  id: string;
+  checks: Check[];
+  answer?: string;
+  error?: string;
+};
+
+// --- Arguments ---
+function parseArgs(argv: string[]) {
+  const args = {
+    suite: "eval/suite.json",
+    llm: "replay",
+    record: false,
+    out: "eval/report.txt",
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--llm") args.llm = argv[++i];
+    else if (arg === "--out") args.out = argv[++i];
+    else if (arg === "--record") args.record = true;
+    else if (!arg.startsWith("--")) args.suite = arg;
+    else throw new Error(`Unknown option ${arg}`);
+  }
+
+  if (!["replay", "mock", "live"].includes(args.llm)) {
+    throw new Error(`--llm must be replay, mock or live (got "${args.llm}")`);
+  }
+  if (args.record && args.llm !== "live") {
+    throw new Error("--record only makes sense with --llm live");
+  }
+  return args;
+}
+
+const readJson = <T>(file: string): T => JSON.parse(readFileSync(file, "utf8"));
+
+const list = (values: RowId[]) => (values.length ? values.join(", ") : "none");
+
+// --- Assertions ---
+function includesAll(label: string, expected: RowId[] | undefined, actual: RowId[]): Check[] {
+  return (expected ?? []).map((value) => ({
+    label: `${label} include ${value}`,
+    ok: actual.map(String).includes(String(value)),
+    detail: `got ${list(actual)}`,
+  }));
+}
+
+function excludesAll(label: string, expected: RowId[] | undefined, actual: RowId[]): Check[] {
+  return (expected ?? []).map((value) => ({
+    label: `${label} exclude ${value}`,
+    ok: !actual.map(String).includes(String(value)),
+    detail: `got ${list(actual)}`,
+  }));
+}
+
+function patternChecks(
+  label: string,
+  patterns: string[] | undefined,
+  answer: string,
+  shouldMatch: boolean
+): Check[] {
+  return (patterns ?? []).map((pattern) => {
+    const match = answer.match(new RegExp(pattern, "im"));
+    return {
+      label: `${label} /${pattern}/`,
+      ok: Boolean(match) === shouldMatch,
+      detail: match ? `matched "${match[0]}"` : "no match",
+    };
+  });
+}
+
+function checkCase(
+  expect: Expectations,
+  defaults: Suite["defaults"],
+  result: {
+    rows: PortfolioRow[];
+    matched: boolean;
+    language: Language;
+    answer: string;
+    mentioned: string[];
+    citations: Citation[];
+    admitsMissing: boolean;
+  }
+): Check[] {
+  const rowIds = result.rows.map((row) => row.id ?? "?");
+  const projects = [...new Set(result.rows.map((row) => row.project))].sort();
+  const cited = result.citations.map((c) => c.id ?? "?");
+
+  const checks: Check[] = [
+    ...includesAll("rows", expect.rows, rowIds),
+    ...excludesAll("rows", expect.notRows, rowIds),
+    ...includesAll("projects", expect.projects, projects),
+    ...includesAll("mentions", expect.mentions, result.mentioned),
+    ...excludesAll("mentions", expect.notMentions, result.mentioned),
+    ...includesAll("citations", expect.cites, cited),
+    ...patternChecks("contains", expect.contains, result.answer, true),
+    ...patternChecks(
+      "forbidden",
+      [...(defaults?.forbidden ?? []), ...(expect.forbidden ?? [])],
+      result.answer,
+      false
+    ),
+  ];
+
+  if (expect.matched !== undefined) {
+    checks.push({
+      label: `matched knowledge is ${expect.matched}`,
+      ok: result.matched === expect.matched,
+      detail: `got ${result.matched}`,
+    });
+  }
+  if (expect.language !== undefined) {
+    checks.push({
+      label: `language is ${expect.language}`,
+      ok: result.language === expect.language,
+      detail: `got ${result.language}`,
+    });
+  }
+  if (expect.admitsMissing !== undefined) {
+    checks.push({
+      label: `admits missing info is ${expect.admitsMissing}`,
+      ok: result.admitsMissing === expect.admitsMissing,
+      detail: `got ${result.admitsMissing}`,
+    });
+  }
+  return checks;
+}
+
+// --- Report ---
+function formatReport(
+  suitePath: string,
+  llmName: string,
+  results: CaseResult[]
+): string {
+  const passed = results.filter((r) => !r.error && r.checks.every((c) => c.ok));
+  const lines = [
+    `Eval ${suitePath} · llm: ${llmName}`,
+    `${passed.length}/${results.length} cases passed`,
+    "",
+  ];
+
+  for (const result of results) {
+    const ok = !result.error && result.checks.every((c) => c.ok);
+    lines.push(`${ok ? "PASS" : "FAIL"} ${result.id}`);
+    if (result.error) lines.push(`  ✗ error: ${result.error}`);
+    for (const check of result.checks) {
+      lines.push(
+        `  ${check.ok ? "✓" : "✗"} ${check.label}${!check.ok && check.detail ? ` (${check.detail})` : ""}`
+      );
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const suitePath = args.suite;
+  const suiteDir = path.dirname(path.resolve(suitePath));
+  const suite = readJson<Suite>(suitePath);
+  const resolve = (file: string) => path.resolve(suiteDir, file);
+
+  // The persona is read from PERSONA_FILE when the prompt module loads, so
+  // point it at the fixture before importing the pipeline
+  process.env.PERSONA_FILE = resolve(suite.persona);
+
+  const [
+    { prepareChatTurn },
+    { extractCitations },
+    { normalizeRows },
+    { deriveProjects },
+    { loadPersona },
+    { admitsMissingInfo },
+    { createMockProvider },
+    { createReplayProvider, recordingKey },
+    { getLLM },
+  ] = await Promise.all([
+    import("../lib/chat/pipeline"),
+    import("../lib/chat/citations"),
+    import("../lib/knowledge/rows"),
+    import("../lib/prompt/system-prompt"),
+    import("../lib/prompt/persona"),
+    import("../lib/analytics/anonymize"),
+    import("../lib/llm/mock"),
+    import("../lib/llm/replay"),
+    import("../lib/llm"),
+  ]);
+
+  const knowledge = normalizeRows(readJson<Record<string, unknown>[]>(resolve(suite.knowledge)));
+  const persona = await loadPersona();
+  const projects = deriveProjects(knowledge, persona);
+
+  const recordingsPath = resolve(suite.recordings);
+  const recordings: Record<string, string> =
+    args.llm === "replay" || args.record ? readJson(recordingsPath) : {};
+
+  let provider: LLMProvider;
+  let settings: GenerationSettings = { model: args.llm, temperature: 0, maxTokens: 350 };
+  if (args.llm === "live") {
+    const llm = getLLM();
+    provider = llm.provider;
+    settings = llm.settings;
+  } else if (args.llm === "mock") {
+    provider = createMockProvider();
+  } else {
+    provider = createReplayProvider({
+      recordings,
+      source: path.relative(process.cwd(), recordingsPath),
+    });
+  }
+
+  const problem = provider.configurationError();
+  if (problem) throw new Error(`${provider.name}: ${problem}`);
+
+  const mentionedProjects = (answer: string) => {
+    const text = answer.toLowerCase();
+    return projects
+      .filter((p) => text.includes(p.id.toLowerCase()) || text.includes(p.title.toLowerCase()))
+      .map((p) => p.id)
+      .sort();
+  };
+
+  const results: CaseResult[] = [];
+  for (const evalCase of suite.cases) {
+    try {
+      const history = evalCase.history ?? [];
+      const language = resolveLanguage({
+        preference: evalCase.language ?? "auto",
+        message: evalCase.question,
+        previousMessages: history.filter((m) => m.role === "user").map((m) => m.content),
+      });
+      const { scope, messages } = await prepareChatTurn({
+        message: evalCase.question,
+        history,
+        knowledge,
+        settings,
+        language,
+        focus: evalCase.focusProject
+          ? { project: evalCase.focusProject, mode: evalCase.focusMode ?? "restrict" }
+          : undefined,
+      });
+      const answer = (await provider.complete({ ...settings, messages })).trim();
+
+      results.push({
+        id: evalCase.id,
+        answer,
+        checks: checkCase(evalCase.expect, suite.defaults, {
+          rows: scope.rows,
+          matched: scope.matched,
+          language,
+          answer,
+          mentioned: mentionedProjects(answer),
+          citations: extractCitations(answer, scope.rows),
+          admitsMissing: admitsMissingInfo(answer),
+        }),
+      });
+    } catch (err) {
+      results.push({ id: evalCase.id, checks: [], error: (err as Error).message });
+    }
+  }
+
+  if (args.record) {
+    for (const result of results) {
+      const evalCase = suite.cases.find((c) => c.id === result.id)!;
+      if (result.answer !== undefined) recordings[recordingKey(evalCase.question)] = result.answer;
+    }
+    writeFileSync(recordingsPath, `${JSON.stringify(recordings, null, 2)}\n`);
+    console.log(`Recorded ${results.length} answers to ${recordingsPath}`);
+  }
+
+  const report = formatReport(suitePath, provider.name.split(":")[0], results);
+  writeFileSync(args.out, report);
+  process.stdout.write(report);
+
+  const failed = results.some((r) => r.error || r.checks.some((c) => !c.ok));
+  process.exitCode = failed ? 1 : 0;
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
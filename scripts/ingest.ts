@@ -0,0 +1,205 @@
+// --- Knowledge ingestion: Markdown case studies and CSV into the knowledge source ---
+//
+//   npm run ingest -- content/work --dry-run    validate and show what would change
+//   npm run ingest -- content/work              write it to the knowledge source
+//   npm run ingest -- rows.csv --prune          also delete rows the import dropped
+//
+// Options: <file|dir>... --dry-run --prune --chunk-tokens <n>
+// Markdown (.md, .markdown) is one case study per file: front matter plus "##"
+// sections (see lib/knowledge/markdown.ts). CSV has a header row with the
+// PortfolioRow columns. Rows go to the configured KNOWLEDGE_SOURCE; env vars
+// are read from .env.local and .env like the app does.
+
+import { existsSync, readdirSync, readFileSync, statSync } from "node:fs";
+import path from "node:path";
+import type { IngestChange, IngestIssue, IngestRecord } from "../lib/knowledge/ingest";
+import type { PortfolioRow, PortfolioRowInput } from "../lib/knowledge/types";
+
+const MARKDOWN_EXTENSIONS = [".md", ".markdown"];
+const CSV_EXTENSIONS = [".csv"];
+
+// --- Arguments ---
+function parseArgs(argv: string[]) {
+  const args = {
+    paths: [] as string[],
+    dryRun: false,
+    prune: false,
+    chunkTokens: undefined as number | undefined,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--dry-run") args.dryRun = true;
+    else if (arg === "--prune") args.prune = true;
+    else if (arg === "--chunk-tokens") args.chunkTokens = Number(argv[++i]);
+    else if (!arg.startsWith("--")) args.paths.push(arg);
+    else throw new Error(`Unknown option ${arg}`);
+  }
+
+  if (!args.paths.length) {
+    throw new Error("Usage: npm run ingest -- <file|dir>... [--dry-run] [--prune] [--chunk-tokens n]");
+  }
+  if (args.chunkTokens !== undefined && !(args.chunkTokens >= 50)) {
+    throw new Error("--chunk-tokens must be a number of at least 50");
+  }
+  return args;
+}
+
+// Markdown and CSV files under the given paths, in a stable order
+function collectFiles(paths: string[]): string[] {
+  const files: string[] = [];
+  const supported = (file: string) =>
+    [...MARKDOWN_EXTENSIONS, ...CSV_EXTENSIONS].includes(path.extname(file).toLowerCase());
+
+  const walk = (target: string) => {
+    if (!existsSync(target)) throw new Error(`${target} doesn't exist`);
+    if (statSync(target).isFile()) {
+      if (!supported(target)) throw new Error(`${target} isn't a Markdown or CSV file`);
+      files.push(target);
+      return;
+    }
+    for (const entry of readdirSync(target).sort()) {
+      if (entry.startsWith(".") || entry === "node_modules") continue;
+      const child = path.join(target, entry);
+      if (statSync(child).isDirectory()) walk(child);
+      else if (supported(child)) files.push(child);
+    }
+  };
+
+  paths.forEach(walk);
+  return [...new Set(files)];
+}
+
+// --- Report ---
+const label = (row: Pick<PortfolioRow, "project" | "type" | "title">) =>
+  `${row.project} / ${row.type} / ${row.title ?? "(no title)"}`;
+
+const preview = (value: unknown) => {
+  if (value === null || value === undefined) return "(empty)";
+  const text = String(value).replace(/\s+/g, " ");
+  return JSON.stringify(text.length > 60 ? `${text.slice(0, 57)}...` : text);
+};
+
+function formatChanges(changes: IngestChange[], stale: PortfolioRow[], prune: boolean): string[] {
+  const lines: string[] = [];
+
+  for (const change of changes) {
+    if (change.kind === "create") {
+      lines.push(`+ ${label(change.row)}  [${change.source}]`);
+    } else if (change.kind === "update") {
+      lines.push(`~ ${label(change.row)}  [${change.source}, id ${change.before.id}]`);
+      for (const field of change.fields) {
+        const key = field as keyof PortfolioRowInput;
+        lines.push(`    ${field}: ${preview(change.before[key])} → ${preview(change.row[key])}`);
+      }
+    }
+  }
+  for (const row of stale) {
+    lines.push(
+      `- ${label(row)}  [id ${row.id}, not in the import${prune ? "" : "; --prune deletes it"}]`
+    );
+  }
+
+  return lines;
+}
+
+const formatIssues = (heading: string, issues: IngestIssue[]) =>
+  issues.length
+    ? ["", heading, ...issues.map(({ source, message }) => `  ${source}: ${message}`)]
+    : [];
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  // The knowledge source reads its env vars when the module loads, so load
+  // them before importing it. Variables already set win.
+  for (const file of [".env.local", ".env"]) {
+    if (existsSync(file)) process.loadEnvFile(file);
+  }
+
+  const [
+    { getKnowledgeSource },
+    { planIngest },
+    { parseMarkdownCaseStudy },
+    { parseCsv },
+  ] = await Promise.all([
+    import("../lib/knowledge"),
+    import("../lib/knowledge/ingest"),
+    import("../lib/knowledge/markdown"),
+    import("../lib/knowledge/csv"),
+  ]);
+
+  const files = collectFiles(args.paths);
+  const records: IngestRecord[] = [];
+  for (const file of files) {
+    const text = readFileSync(file, "utf8");
+    const name = path.relative(process.cwd(), file);
+
+    if (CSV_EXTENSIONS.includes(path.extname(file).toLowerCase())) {
+      parseCsv(text).forEach((fields, index) =>
+        records.push({ source: `${name} row ${index + 1}`, fields })
+      );
+      continue;
+    }
+    try {
+      for (const { section, fields } of parseMarkdownCaseStudy(text)) {
+        records.push({ source: section ? `${name}#${section}` : name, fields });
+      }
+    } catch (err) {
+      throw new Error(`${name}: ${(err as Error).message}`);
+    }
+  }
+
+  const source = getKnowledgeSource();
+  const existing = await source.load();
+  const plan = planIngest(records, existing, {
+    chunkTokens: args.chunkTokens,
+    prune: args.prune,
+  });
+
+  const count = (kind: IngestChange["kind"]) =>
+    plan.changes.filter((change) => change.kind === kind).length;
+  const lines = [
+    `Ingest ${files.length} file${files.length === 1 ? "" : "s"} → ${source.name}${args.dryRun ? " (dry run)" : ""}`,
+    "",
+    ...formatChanges(plan.changes, plan.stale, args.prune),
+    ...formatIssues("Warnings", plan.warnings),
+    ...formatIssues("Errors", plan.errors),
+    "",
+    `${count("create")} new · ${count("update")} changed · ${count("unchanged")} unchanged · ${plan.stale.length} ${args.prune ? "to delete" : "stale"}`,
+  ];
+  console.log(lines.join("\n"));
+
+  if (plan.errors.length) {
+    console.error("\nNothing was written. Fix the errors above and run it again.");
+    process.exitCode = 1;
+    return;
+  }
+  if (args.dryRun) {
+    console.log("\nDry run: nothing was written.");
+    return;
+  }
+
+  const writes = plan.changes.filter((change) => change.kind !== "unchanged");
+  const removals = args.prune ? plan.stale : [];
+  if (!writes.length && !removals.length) {
+    console.log("\nAlready up to date.");
+    return;
+  }
+  if (!source.upsert || !source.remove) {
+    throw new Error(`${source.name} is read-only; point KNOWLEDGE_SOURCE at a writable source.`);
+  }
+
+  for (const change of writes) await source.upsert(change.row);
+  for (const row of removals) await source.remove(row.id!);
+
+  console.log(
+    `\nWrote ${writes.length} row${writes.length === 1 ? "" : "s"}${removals.length ? ` and deleted ${removals.length}` : ""}. ` +
+      "The running app picks this up after KNOWLEDGE_CACHE_TTL_SECONDS, or right away via /api/knowledge/revalidate."
+  );
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,235 @@
+// --- Embeddable chat widget ---
+// Built into public/portfolio-chat.js (npm run build:widget). Any site can add
+//
+//   <script src="https://your-chat.vercel.app/portfolio-chat.js" async></script>
+//
+// to get the floating chat, or place <portfolio-chat endpoint="..." title="...">
+// where it should be configured explicitly. The widget itself runs in an
+// iframe served by this app (/embed), so the host site's CSS can't reach it.
+
+import {
+  MESSAGE_SOURCE,
+  isWidgetMessage,
+  type FrameMessage,
+  type HostMessage,
+} from "./protocol";
+
+const TAG_NAME = "portfolio-chat";
+
+// Attributes forwarded to the /embed page
+const FRAME_ATTRIBUTES = [
+  "title",
+  "subtitle",
+  "placeholder",
+  "greeting",
+  "prompts",
+  "stream",
+  "language",
+  "focus-project",
+  "focus-mode",
+  "color-scheme",
+  "accent-color",
+  "accent-text-color",
+  "position",
+  "width",
+  "height",
+  "launcher-icon",
+  "launcher-label",
+  "avatar",
+  "open-on-load",
+] as const;
+
+// The iframe only covers what the widget draws: the launcher when closed,
+// the chat window (plus room for its shadow) when open. Sizes match the
+// defaults and limits in components/chat-theme.ts.
+const FRAME_MARGIN = 48;
+const LAUNCHER_SIZE = 104;
+const LABELLED_LAUNCHER_WIDTH = 300;
+const DEFAULT_WINDOW = { width: 384, height: 520 };
+
+function dimension(value: string | null, fallback: number, min: number, max: number) {
+  const pixels = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(pixels) ? Math.min(max, Math.max(min, pixels)) : fallback;
+}
+
+// Resolved while the script is first evaluated; currentScript is null later
+const currentScript = document.currentScript as HTMLScriptElement | null;
+const scriptOrigin = currentScript?.src
+  ? new URL(currentScript.src).origin
+  : window.location.origin;
+
+class PortfolioChatElement extends HTMLElement {
+  static observedAttributes = ["endpoint", ...FRAME_ATTRIBUTES];
+
+  private frame: HTMLIFrameElement | null = null;
+  private frameOrigin = scriptOrigin;
+  private ready = false;
+  private pending: HostMessage[] = [];
+  private isOpen = false;
+
+  connectedCallback() {
+    if (!this.shadowRoot) this.attachShadow({ mode: "open" });
+    window.addEventListener("message", this.onMessage);
+    this.render();
+  }
+
+  disconnectedCallback() {
+    window.removeEventListener("message", this.onMessage);
+  }
+
+  attributeChangedCallback() {
+    if (this.isConnected) this.render();
+  }
+
+  open() {
+    this.post({ source: MESSAGE_SOURCE, type: "open" });
+  }
+
+  close() {
+    this.post({ source: MESSAGE_SOURCE, type: "close" });
+  }
+
+  send(text: string) {
+    if (!text.trim()) return;
+    this.post({ source: MESSAGE_SOURCE, type: "send", text });
+  }
+
+  get opened() {
+    return this.isOpen;
+  }
+
+  private render() {
+    const root = this.shadowRoot!;
+    const endpoint = new URL(
+      this.getAttribute("endpoint") || "/api/chat",
+      scriptOrigin
+    );
+
+    const src = new URL("/embed", endpoint.origin);
+    src.searchParams.set("endpoint", endpoint.pathname);
+    for (const name of FRAME_ATTRIBUTES) {
+      const value = this.getAttribute(name);
+      if (value !== null) src.searchParams.set(name, value);
+    }
+
+    if (this.frame?.src === src.href) return;
+
+    this.frameOrigin = endpoint.origin;
+    this.ready = false;
+    this.isOpen = false;
+
+    root.innerHTML = `
+      <style>
+        :host {
+          all: initial;
+          position: fixed;
+          ${this.getAttribute("position") === "bottom-left" ? "left" : "right"}: 0;
+          bottom: 0;
+          z-index: 2147483000;
+        }
+        iframe {
+          display: block;
+          border: 0;
+          background: transparent;
+          color-scheme: normal;
+        }
+      </style>
+    `;
+
+    const frame = document.createElement("iframe");
+    frame.title = this.getAttribute("title") || "Portfolio chat";
+    frame.src = src.href;
+    root.appendChild(frame);
+    this.frame = frame;
+    this.resize();
+  }
+
+  private resize() {
+    if (!this.frame) return;
+
+    if (this.isOpen) {
+      const width = dimension(this.getAttribute("width"), DEFAULT_WINDOW.width, 280, 640);
+      const height = dimension(this.getAttribute("height"), DEFAULT_WINDOW.height, 360, 900);
+      this.frame.style.width = `min(${width + FRAME_MARGIN}px, 100vw)`;
+      this.frame.style.height = `min(${height + FRAME_MARGIN + 8}px, 100vh)`;
+    } else {
+      const width = this.getAttribute("launcher-label")
+        ? LABELLED_LAUNCHER_WIDTH
+        : LAUNCHER_SIZE;
+      this.frame.style.width = `min(${width}px, 100vw)`;
+      this.frame.style.height = `${LAUNCHER_SIZE}px`;
+    }
+  }
+
+  private post(message: HostMessage) {
+    if (!this.ready || !this.frame?.contentWindow) {
+      this.pending.push(message);
+      return;
+    }
+    this.frame.contentWindow.postMessage(message, this.frameOrigin);
+  }
+
+  private onMessage = (event: MessageEvent) => {
+    if (!this.frame || event.source !== this.frame.contentWindow) return;
+    if (event.origin !== this.frameOrigin) return;
+    if (!isWidgetMessage<FrameMessage>(event.data)) return;
+
+    const message = event.data;
+    if (message.type === "ready") {
+      this.ready = true;
+      const queued = this.pending;
+      this.pending = [];
+      queued.forEach((m) => this.post(m));
+    } else if (message.type === "state") {
+      this.isOpen = message.open;
+      this.resize();
+      this.dispatchEvent(
+        new CustomEvent(message.open ? "open" : "close", { bubbles: true })
+      );
+    }
+  };
+}
+
+// --- Host-page API: window.PortfolioChat.open() / .close() / .send(text) ---
+function widget(): PortfolioChatElement {
+  const existing = document.querySelector<PortfolioChatElement>(TAG_NAME);
+  if (existing) return existing;
+
+  // Script-tag setup: data-* attributes on the <script> configure the widget
+  // (dataset turns data-accent-color into accentColor, so undo that)
+  const element = document.createElement(TAG_NAME) as PortfolioChatElement;
+  for (const [key, value] of Object.entries(currentScript?.dataset ?? {})) {
+    const name = key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+    if (value !== undefined) element.setAttribute(name, value);
+  }
+  document.body.appendChild(element);
+  return element;
+}
+
+const api = {
+  open: () => widget().open(),
+  close: () => widget().close(),
+  send: (text: string) => widget().send(text),
+};
+
+declare global {
+  interface Window {
+    PortfolioChat?: typeof api;
+  }
+  interface HTMLElementTagNameMap {
+    [TAG_NAME]: PortfolioChatElement;
+  }
+}
+
+if (!customElements.get(TAG_NAME)) {
+  customElements.define(TAG_NAME, PortfolioChatElement);
+}
+window.PortfolioChat = api;
+
+if (currentScript?.dataset.autoload !== "false") {
+  if (document.readyState === "loading") {
+    document.addEventListener("DOMContentLoaded", () => widget(), { once: true });
+  } else {
+    widget();
+  }
+}
@@ -0,0 +1,27 @@
+// --- Messages between the host-page loader and the /embed iframe ---
+// Every message carries `source` so both sides can ignore unrelated
+// postMessage traffic (analytics scripts, browser extensions, ...).
+
+export const MESSAGE_SOURCE = "portfolio-chat";
+
+/** Host page → iframe */
+export type HostMessage =
+  | { source: typeof MESSAGE_SOURCE; type: "open" }
+  | { source: typeof MESSAGE_SOURCE; type: "close" }
+  | { source: typeof MESSAGE_SOURCE; type: "send"; text: string };
+
+/** Iframe → host page */
+export type FrameMessage =
+  | { source: typeof MESSAGE_SOURCE; type: "ready" }
+  | { source: typeof MESSAGE_SOURCE; type: "state"; open: boolean };
+
+export function isWidgetMessage<T extends HostMessage | FrameMessage>(
+  data: unknown
+): data is T {
+  return (
+    typeof data === "object" &&
+    data !== null &&
+    (data as { source?: unknown }).source === MESSAGE_SOURCE &&
+    typeof (data as { type?: unknown }).type === "string"
+  );
+}